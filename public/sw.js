@@ -0,0 +1,44 @@
+// EchoLingo service worker: caches the app shell so the player opens without a connection.
+// API responses are never cached here; user data is mirrored in IndexedDB by src/offline.ts.
+
+const SHELL_CACHE = 'echolingo-shell-v1'
+const SHELL_URLS = ['/', '/index.html', '/manifest.json', '/icon-192.png', '/icon-512.png', '/apple-touch-icon.png', '/vite.svg']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  // Network first for everything, so both `vite` dev serving and builds stay current;
+  // the cached copy is only used when the network is unavailable.
+  const cacheKey = request.mode === 'navigate' ? '/index.html' : request
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          void caches.open(SHELL_CACHE).then((cache) => cache.put(cacheKey, copy))
+        }
+        return response
+      })
+      .catch(() => caches.match(cacheKey).then((cached) => cached || Response.error()))
+  )
+})
@@ -0,0 +1,98 @@
+import crypto from 'node:crypto'
+import type { AuditAction, AuditEntry } from './types'
+
+// Audit trail for user management and bulk data operations, queried from the admin tab.
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'user.create',
+  'user.delete',
+  'user.password_reset',
+  'user.status',
+  'user.teacher',
+  'data.import',
+  'students.push',
+  'backup.create',
+  'backup.restore',
+  'backup.retention',
+  'tts.cache_clear'
+]
+
+export const MAX_AUDIT_ENTRIES = 10000
+export const DEFAULT_AUDIT_PAGE_SIZE = 100
+export const MAX_AUDIT_PAGE_SIZE = 500
+
+export type AuditFilter = {
+  actor: string
+  action: AuditAction | null
+  target: string
+  since: number | null
+  until: number | null
+  limit: number
+}
+
+/** Appends an entry and drops the oldest ones beyond MAX_AUDIT_ENTRIES. */
+export function appendAuditEntry(log: AuditEntry[], entry: Omit<AuditEntry, 'id' | 'at'>, now = new Date()): AuditEntry {
+  const stored: AuditEntry = { id: crypto.randomUUID(), at: now.toISOString(), ...entry }
+  log.push(stored)
+  if (log.length > MAX_AUDIT_ENTRIES) log.splice(0, log.length - MAX_AUDIT_ENTRIES)
+  return stored
+}
+
+export function parseAuditFilter(query: Record<string, unknown>): AuditFilter {
+  const text = (value: unknown) => String(value ?? '').trim().toLowerCase()
+  const time = (value: unknown) => {
+    const parsed = typeof value === 'string' && value ? Date.parse(value) : Number.NaN
+    return Number.isNaN(parsed) ? null : parsed
+  }
+
+  return {
+    actor: text(query.actor),
+    action: AUDIT_ACTIONS.find((action) => action === query.action) ?? null,
+    target: text(query.target),
+    since: time(query.since),
+    until: time(query.until),
+    limit: Math.min(MAX_AUDIT_PAGE_SIZE, Math.max(1, Math.floor(Number(query.limit)) || DEFAULT_AUDIT_PAGE_SIZE))
+  }
+}
+
+/** Newest first. Actor and target match as case-insensitive substrings; `until` is exclusive. */
+export function filterAuditEntries(log: AuditEntry[], filter: AuditFilter): { entries: AuditEntry[]; total: number } {
+  const matches = log.filter((entry) => {
+    const at = Date.parse(entry.at)
+    return (!filter.actor || entry.actor.toLowerCase().includes(filter.actor))
+      && (!filter.action || entry.action === filter.action)
+      && (!filter.target || entry.target.toLowerCase().includes(filter.target))
+      && (filter.since === null || at >= filter.since)
+      && (filter.until === null || at < filter.until)
+  })
+
+  return { entries: matches.reverse().slice(0, filter.limit), total: matches.length }
+}
+
+export function sanitizeAuditEntry(raw: unknown): AuditEntry | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+
+  const id = String(source.id ?? '').trim()
+  const at = typeof source.at === 'string' ? Date.parse(source.at) : Number.NaN
+  const action = AUDIT_ACTIONS.find((item) => item === source.action)
+  if (!id || Number.isNaN(at) || !action) return null
+
+  const details: AuditEntry['details'] = {}
+  if (source.details && typeof source.details === 'object') {
+    for (const [key, value] of Object.entries(source.details as Record<string, unknown>)) {
+      if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) details[key] = value as string | number | boolean | null
+    }
+  }
+
+  return {
+    id,
+    at: new Date(at).toISOString(),
+    actor: String(source.actor ?? ''),
+    action,
+    target: String(source.target ?? ''),
+    ip: String(source.ip ?? ''),
+    summary: String(source.summary ?? ''),
+    details
+  }
+}
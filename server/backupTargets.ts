@@ -0,0 +1,250 @@
+import crypto from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+import type { BackupUploadStatus } from './types'
+
+// Off-disk copies of backup files. Each finished backup is encoded (optionally gzip, then AES-256-GCM)
+// and uploaded to one configured target.
+
+export type BackupTargetKind = 'local' | 's3' | 'webdav'
+
+export type BackupTarget = {
+  kind: BackupTargetKind
+  // Where uploads go, without credentials; shown in the admin tab.
+  location: string
+  upload(fileName: string, body: Buffer): Promise<void>
+}
+
+export type BackupEncoding = {
+  gzip: boolean
+  passphrase: string
+}
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+// Encrypted layout: magic | salt (16) | iv (12) | auth tag (16) | ciphertext.
+const ENCRYPTED_MAGIC = Buffer.from('ELB1')
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+// A stalled remote must not hold up the daily backup (or startup, which runs it) indefinitely.
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000
+
+/** Reads the BACKUP_TARGET* settings; null when off-disk backups are not configured. */
+export function createBackupTarget(env: NodeJS.ProcessEnv): BackupTarget | null {
+  const kind = String(env.BACKUP_TARGET ?? '').trim().toLowerCase()
+
+  if (kind === 'local') {
+    const dir = String(env.BACKUP_TARGET_DIR ?? '').trim()
+    if (!dir) throw new Error('BACKUP_TARGET=local requires BACKUP_TARGET_DIR')
+    return createLocalTarget(path.resolve(dir))
+  }
+
+  if (kind === 's3') {
+    const config = {
+      endpoint: String(env.BACKUP_S3_ENDPOINT ?? '').trim().replace(/\/+$/, ''),
+      region: String(env.BACKUP_S3_REGION ?? '').trim() || 'us-east-1',
+      bucket: String(env.BACKUP_S3_BUCKET ?? '').trim(),
+      prefix: String(env.BACKUP_S3_PREFIX ?? '').trim().replace(/^\/+|\/+$/g, ''),
+      accessKeyId: String(env.BACKUP_S3_ACCESS_KEY_ID ?? '').trim(),
+      secretAccessKey: String(env.BACKUP_S3_SECRET_ACCESS_KEY ?? '').trim()
+    }
+    if (!config.endpoint || !config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('BACKUP_TARGET=s3 requires BACKUP_S3_ENDPOINT, BACKUP_S3_BUCKET and both access keys')
+    }
+    return createS3Target(config)
+  }
+
+  if (kind === 'webdav') {
+    const url = String(env.BACKUP_WEBDAV_URL ?? '').trim().replace(/\/+$/, '')
+    if (!url) throw new Error('BACKUP_TARGET=webdav requires BACKUP_WEBDAV_URL')
+    return createWebDavTarget(url, String(env.BACKUP_WEBDAV_USERNAME ?? ''), String(env.BACKUP_WEBDAV_PASSWORD ?? ''))
+  }
+
+  if (kind && kind !== 'none') throw new Error(`unknown BACKUP_TARGET: ${kind}`)
+  return null
+}
+
+export function sanitizeUploadStatus(raw: unknown): BackupUploadStatus | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+  if (typeof source.fileName !== 'string' || typeof source.at !== 'string') return null
+
+  return {
+    fileName: source.fileName,
+    storedAs: String(source.storedAs ?? source.fileName),
+    target: String(source.target ?? ''),
+    at: source.at,
+    ok: source.ok === true,
+    error: typeof source.error === 'string' ? source.error : null,
+    bytes: Math.max(0, Number(source.bytes) || 0),
+    durationMs: Math.max(0, Number(source.durationMs) || 0)
+  }
+}
+
+/** Returns the bytes to upload and the name to store them under (`.gz` / `.enc` appended). */
+export async function encodeBackup(fileName: string, body: Buffer, encoding: BackupEncoding): Promise<{ fileName: string; body: Buffer }> {
+  let name = fileName
+  let payload = body
+
+  if (encoding.gzip) {
+    payload = await gzip(payload)
+    name += '.gz'
+  }
+
+  if (encoding.passphrase) {
+    const salt = crypto.randomBytes(SALT_BYTES)
+    const iv = crypto.randomBytes(IV_BYTES)
+    const cipher = crypto.createCipheriv('aes-256-gcm', await scrypt(encoding.passphrase, salt, 32), iv)
+    const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()])
+    payload = Buffer.concat([ENCRYPTED_MAGIC, salt, iv, cipher.getAuthTag(), ciphertext])
+    name += '.enc'
+  }
+
+  return { fileName: name, body: payload }
+}
+
+/** Reverses encodeBackup based on the file name's suffixes. */
+export async function decodeBackup(fileName: string, body: Buffer, passphrase: string): Promise<{ fileName: string; body: Buffer }> {
+  let name = fileName
+  let payload = body
+
+  if (name.endsWith('.enc')) {
+    if (!passphrase) throw new Error('encrypted backup: passphrase required')
+    if (!payload.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC)) throw new Error('not an encrypted backup')
+
+    let offset = ENCRYPTED_MAGIC.length
+    const salt = payload.subarray(offset, offset += SALT_BYTES)
+    const iv = payload.subarray(offset, offset += IV_BYTES)
+    const tag = payload.subarray(offset, offset += TAG_BYTES)
+    const decipher = crypto.createDecipheriv('aes-256-gcm', await scrypt(passphrase, salt, 32), iv)
+    decipher.setAuthTag(tag)
+    try {
+      payload = Buffer.concat([decipher.update(payload.subarray(offset)), decipher.final()])
+    } catch {
+      throw new Error('wrong passphrase or damaged file')
+    }
+    name = name.slice(0, -'.enc'.length)
+  }
+
+  if (name.endsWith('.gz')) {
+    payload = await gunzip(payload)
+    name = name.slice(0, -'.gz'.length)
+  }
+
+  return { fileName: name, body: payload }
+}
+
+function createLocalTarget(dir: string): BackupTarget {
+  return {
+    kind: 'local',
+    location: dir,
+
+    async upload(fileName, body) {
+      await fs.mkdir(dir, { recursive: true })
+      // Written under a temporary name first so a crash never leaves a truncated backup behind.
+      const partial = path.join(dir, `.${fileName}.partial`)
+      await fs.writeFile(partial, body)
+      await fs.rename(partial, path.join(dir, fileName))
+    }
+  }
+}
+
+type S3Config = {
+  endpoint: string
+  region: string
+  bucket: string
+  prefix: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+// Path-style PUT Object signed with AWS Signature V4, which AWS S3, MinIO, R2 and B2 all accept.
+function createS3Target(config: S3Config): BackupTarget {
+  return {
+    kind: 's3',
+    location: `${config.endpoint}/${config.bucket}${config.prefix ? `/${config.prefix}` : ''}`,
+
+    async upload(fileName, body) {
+      const key = config.prefix ? `${config.prefix}/${fileName}` : fileName
+      const url = new URL(`${config.endpoint}/${[config.bucket, ...key.split('/')].map(encodeS3Segment).join('/')}`)
+      const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+      const dateStamp = amzDate.slice(0, 8)
+      const payloadHash = sha256Hex(body)
+
+      const headers: Record<string, string> = {
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate
+      }
+      const signedHeaders = Object.keys(headers).sort().join(';')
+      const canonicalRequest = [
+        'PUT',
+        url.pathname,
+        '',
+        ...Object.keys(headers).sort().map((name) => `${name}:${headers[name]}`),
+        '',
+        signedHeaders,
+        payloadHash
+      ].join('\n')
+
+      const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+      const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+      const signingKey = [dateStamp, config.region, 's3', 'aws4_request']
+        .reduce<Buffer>((derived, part) => hmac(derived, part), Buffer.from(`AWS4${config.secretAccessKey}`))
+      const signature = hmac(signingKey, stringToSign).toString('hex')
+
+      const { host: _host, ...sentHeaders } = headers
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: {
+          ...sentHeaders,
+          'Content-Type': 'application/octet-stream',
+          Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+        },
+        body: new Uint8Array(body),
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS)
+      })
+      if (!response.ok) throw new Error(`S3 ${response.status}: ${(await response.text()).slice(0, 200)}`)
+    }
+  }
+}
+
+function createWebDavTarget(baseUrl: string, username: string, password: string): BackupTarget {
+  const authorization = username ? `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` : null
+
+  return {
+    kind: 'webdav',
+    location: baseUrl,
+
+    async upload(fileName, body) {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(fileName)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          ...(authorization ? { Authorization: authorization } : {})
+        },
+        body: new Uint8Array(body),
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS)
+      })
+      if (!response.ok) throw new Error(`WebDAV ${response.status}: ${(await response.text()).slice(0, 200)}`)
+    }
+  }
+}
+
+function encodeS3Segment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function sha256Hex(value: Buffer | string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+function hmac(key: Buffer, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest()
+}
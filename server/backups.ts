@@ -0,0 +1,132 @@
+import { hasContentChanges } from '../src/sync'
+import type { AppDatabase, BackupRetention, UserRecord } from './types'
+
+// Backup file naming, the retention policy applied after each backup, and the dry-run diff shown
+// before a restore.
+
+export type BackupKind = 'daily' | 'manual'
+
+export type BackupFileInfo = {
+  fileName: string
+  size: number
+  mtime: string
+}
+
+type ItemDiff = { added: number; removed: number; changed: number; unchanged: number }
+
+export type UserRestoreDiff = {
+  account: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  englishWords: ItemDiff
+  japaneseSentences: ItemDiff
+  // Speech settings or theme differ.
+  settings: boolean
+  reviews: { current: number; backup: number }
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { daily: 7, weekly: 4, manual: 10 }
+
+const RETENTION_LIMITS: Record<keyof BackupRetention, [number, number]> = {
+  // At least one of each kind survives, so the backup just written is never pruned right away.
+  daily: [1, 365],
+  weekly: [0, 104],
+  manual: [1, 100]
+}
+
+const DAILY_FILE = /^db-backup-(\d{4}-\d{2}-\d{2})\.(json|sqlite)$/
+// `restore` files are the safety copies written before a restore; they are kept like manual ones.
+const MANUAL_FILE = /^db-backup-(manual|restore)-[\dT-]+Z\.(json|sqlite)$/
+
+/** Null for anything that is not a backup this server wrote, which also rules out path tricks. */
+export function parseBackupKind(fileName: string): BackupKind | null {
+  if (DAILY_FILE.test(fileName)) return 'daily'
+  if (MANUAL_FILE.test(fileName)) return 'manual'
+  return null
+}
+
+export function sanitizeBackupRetention(raw: unknown, fallback: BackupRetention = DEFAULT_BACKUP_RETENTION): BackupRetention {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const read = (key: keyof BackupRetention) => {
+    const value = Math.floor(Number(source[key]))
+    const [min, max] = RETENTION_LIMITS[key]
+    return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback[key]
+  }
+
+  return { daily: read('daily'), weekly: read('weekly'), manual: read('manual') }
+}
+
+/**
+ * Files the policy no longer covers. Daily backups: the newest `daily` days, plus the newest backup of
+ * each of the last `weekly` ISO weeks. Manual backups: the newest `manual` files.
+ */
+export function selectBackupsToPrune(files: BackupFileInfo[], policy: BackupRetention): string[] {
+  const dailies = files
+    .map((file) => ({ fileName: file.fileName, date: file.fileName.match(DAILY_FILE)?.[1] ?? '' }))
+    .filter((file) => file.date)
+    .sort((a, b) => b.date.localeCompare(a.date))
+  const manuals = files
+    .filter((file) => parseBackupKind(file.fileName) === 'manual')
+    .sort((a, b) => Date.parse(b.mtime) - Date.parse(a.mtime))
+
+  const keep = new Set(dailies.slice(0, policy.daily).map((file) => file.fileName))
+  const weeks = new Set<string>()
+  for (const file of dailies) {
+    const week = isoWeekOf(file.date)
+    if (weeks.has(week)) continue
+    if (weeks.size >= policy.weekly) break
+    weeks.add(week)
+    keep.add(file.fileName)
+  }
+  for (const file of manuals.slice(0, policy.manual)) keep.add(file.fileName)
+
+  return [...dailies, ...manuals].map((file) => file.fileName).filter((fileName) => !keep.has(fileName))
+}
+
+function isoWeekOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  // Thursday of the same week decides the ISO year.
+  day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7))
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+/** What restoring `backup` over `current` would do, per account; `account` limits it to one user's data. */
+export function diffForRestore(current: AppDatabase, backup: AppDatabase, account: string | null): UserRestoreDiff[] {
+  const accounts = account
+    ? [account]
+    : [...new Set([...Object.keys(current.users), ...Object.keys(backup.users)])].sort((a, b) => a.localeCompare(b))
+
+  return accounts.map((name) => diffUser(name, current.users[name], backup.users[name], account !== null))
+}
+
+// A single-account restore replaces the learning data only, so the review log does not count there.
+function diffUser(account: string, current: UserRecord | undefined, backup: UserRecord | undefined, dataOnly: boolean): UserRestoreDiff {
+  const englishWords = diffItems(current?.data.englishWords ?? [], backup?.data.englishWords ?? [])
+  const japaneseSentences = diffItems(current?.data.japaneseSentences ?? [], backup?.data.japaneseSentences ?? [])
+  const settings = JSON.stringify(current?.data.speechSettings) !== JSON.stringify(backup?.data.speechSettings)
+    || current?.data.theme !== backup?.data.theme
+  const reviews = { current: current?.reviews.length ?? 0, backup: backup?.reviews.length ?? 0 }
+
+  const touched = [englishWords, japaneseSentences].some((diff) => diff.added + diff.removed + diff.changed > 0)
+    || settings
+    || (!dataOnly && reviews.current !== reviews.backup)
+  const status = !current ? 'added' : !backup ? 'removed' : touched ? 'changed' : 'unchanged'
+  return { account, status, englishWords, japaneseSentences, settings, reviews }
+}
+
+function diffItems<T extends { id: string; revision: number; updatedAt: string }>(current: T[], backup: T[]): ItemDiff {
+  const currentById = new Map(current.map((item) => [item.id, item]))
+  const diff: ItemDiff = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+
+  for (const item of backup) {
+    const existing = currentById.get(item.id)
+    if (!existing) diff.added += 1
+    else if (hasContentChanges(existing, item)) diff.changed += 1
+    else diff.unchanged += 1
+    currentById.delete(item.id)
+  }
+  diff.removed = currentById.size
+
+  return diff
+}
@@ -0,0 +1,188 @@
+import { createSrsState } from '../src/scheduler'
+import { appendNewItems } from './userItems'
+import type { DeckEntry, DeckItemType, DeckRecord, EnglishWord, JapaneseSentence, UserRecord } from './types'
+
+// Shared decks: a named tag filter over the owner's items. Publishing snapshots the matching items into
+// `entries`; subscribers get a copy of every entry they have not received yet, as their own items. A
+// published deck is snapshotted again whenever the owner's items change, so additions and edits reach
+// subscribers without another publish.
+
+export const DECK_ITEM_TYPES: DeckItemType[] = ['english', 'japanese']
+export const MAX_DECK_ENTRIES = 2000
+
+export function collectDeckEntries(deck: DeckRecord, owner: UserRecord): DeckEntry[] {
+  const matches = (tags: string[]) => tags.some((tag) => deck.tags.includes(tag))
+  const entries: DeckEntry[] = []
+
+  if (deck.itemTypes.includes('english')) {
+    for (const item of owner.data.englishWords.filter((word) => matches(word.tags))) {
+      entries.push({ id: item.id, itemType: 'english', word: item.word, meaningZh: item.meaningZh, tags: item.tags })
+    }
+  }
+  if (deck.itemTypes.includes('japanese')) {
+    for (const item of owner.data.japaneseSentences.filter((sentence) => matches(sentence.tags))) {
+      entries.push({
+        id: item.id,
+        itemType: 'japanese',
+        sentence: item.sentence,
+        romaji: item.romaji,
+        meaningZh: item.meaningZh,
+        tags: item.tags,
+        vocabulary: item.vocabulary
+      })
+    }
+  }
+
+  return entries.slice(0, MAX_DECK_ENTRIES)
+}
+
+/** Copies the entries `account` has not received yet into their collections; returns how many were added. */
+export function deliverDeckEntries(deck: DeckRecord, subscriber: UserRecord, now: string): number {
+  const subscription = deck.subscribers[subscriber.account]
+  if (!subscription) return 0
+
+  const delivered = new Set(subscription.deliveredEntryIds)
+  const pending = deck.entries.filter((entry) => !delivered.has(entry.id))
+  if (pending.length === 0) return 0
+
+  // Subscribers group by the deck name, so it goes in front of the entry's own tags.
+  const deckTag = deck.name.trim().toLowerCase()
+  const tagsFor = (tags: string[]) => [deckTag, ...tags.filter((tag) => tag !== deckTag)].slice(0, 10)
+  const meta = { ...createSrsState(), revision: 1, updatedAt: now }
+
+  const englishWords: EnglishWord[] = []
+  const japaneseSentences: JapaneseSentence[] = []
+  for (const entry of pending) {
+    const id = deliveredItemId(deck, entry)
+    if (entry.itemType === 'english') {
+      englishWords.push({ id, word: entry.word, meaningZh: entry.meaningZh, tags: tagsFor(entry.tags), needsWork: false, ...meta })
+    } else {
+      japaneseSentences.push({
+        id,
+        sentence: entry.sentence,
+        romaji: entry.romaji,
+        meaningZh: entry.meaningZh,
+        tags: tagsFor(entry.tags),
+        vocabulary: entry.vocabulary,
+        ...meta
+      })
+    }
+  }
+
+  const added = appendNewItems(subscriber, englishWords, japaneseSentences, now)
+  // Entries skipped as duplicates count as delivered too; they should not come back later.
+  subscription.deliveredEntryIds = [...subscription.deliveredEntryIds, ...pending.map((entry) => entry.id)]
+  return added.englishWords + added.japaneseSentences
+}
+
+/**
+ * Snapshots a published deck again from its owner's items, delivers new entries and applies edited entries
+ * to the copies subscribers already have. Returns how many subscriber items were added or updated.
+ */
+export function refreshDeck(deck: DeckRecord, owner: UserRecord, users: Record<string, UserRecord>, now: string): number {
+  const previous = new Map(deck.entries.map((entry) => [entry.id, entry]))
+  const entries = collectDeckEntries(deck, owner)
+  if (JSON.stringify(entries) !== JSON.stringify(deck.entries)) {
+    deck.entries = entries
+    deck.version += 1
+    deck.updatedAt = now
+  }
+
+  const edited = entries.filter((entry) => {
+    const before = previous.get(entry.id)
+    return before && JSON.stringify(before) !== JSON.stringify(entry)
+  })
+
+  let changed = 0
+  for (const account of Object.keys(deck.subscribers)) {
+    const subscriber = users[account]
+    if (!subscriber) continue
+    changed += deliverDeckEntries(deck, subscriber, now) + updateDeliveredEntries(deck, edited, subscriber, now)
+  }
+  return changed
+}
+
+// Derived from the entry, so a later edit of the entry finds the subscriber's copy.
+function deliveredItemId(deck: DeckRecord, entry: DeckEntry): string {
+  return `deck-${deck.id}-${entry.id}`
+}
+
+// The copy keeps the subscriber's tags and review progress; only the text follows the owner.
+function updateDeliveredEntries(
+  deck: DeckRecord,
+  edited: DeckEntry[],
+  subscriber: UserRecord,
+  now: string
+): number {
+  let updated = 0
+
+  for (const entry of edited) {
+    const id = deliveredItemId(deck, entry)
+    const isCopy = (item: EnglishWord | JapaneseSentence) => item.id === id
+
+    if (entry.itemType === 'english') {
+      const stored = subscriber.data.englishWords.find(isCopy)
+      if (!stored) continue
+      const copy = { ...stored, word: entry.word, meaningZh: entry.meaningZh, revision: stored.revision + 1, updatedAt: now }
+      subscriber.data.englishWords = subscriber.data.englishWords.map((item) => (item === stored ? copy : item))
+    } else {
+      const stored = subscriber.data.japaneseSentences.find(isCopy)
+      if (!stored) continue
+      const copy = {
+        ...stored,
+        sentence: entry.sentence,
+        romaji: entry.romaji,
+        meaningZh: entry.meaningZh,
+        vocabulary: entry.vocabulary,
+        revision: stored.revision + 1,
+        updatedAt: now
+      }
+      subscriber.data.japaneseSentences = subscriber.data.japaneseSentences.map((item) => (item === stored ? copy : item))
+    }
+    updated += 1
+  }
+
+  if (updated > 0) {
+    subscriber.data.updatedAt = now
+    subscriber.updatedAt = now
+  }
+  return updated
+}
+
+export function sanitizeDeck(raw: unknown, accounts: Set<string>): DeckRecord | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+
+  const id = String(source.id ?? '').trim()
+  const owner = String(source.owner ?? '').trim()
+  const name = String(source.name ?? '').trim()
+  if (!id || !name || !accounts.has(owner)) return null
+
+  const now = new Date().toISOString()
+  const subscribers: DeckRecord['subscribers'] = {}
+  if (source.subscribers && typeof source.subscribers === 'object') {
+    for (const [account, value] of Object.entries(source.subscribers as Record<string, unknown>)) {
+      if (!accounts.has(account) || !value || typeof value !== 'object') continue
+      const subscription = value as Record<string, unknown>
+      subscribers[account] = {
+        subscribedAt: typeof subscription.subscribedAt === 'string' ? subscription.subscribedAt : now,
+        deliveredEntryIds: Array.isArray(subscription.deliveredEntryIds) ? subscription.deliveredEntryIds.map(String) : []
+      }
+    }
+  }
+
+  return {
+    id,
+    owner,
+    name,
+    description: String(source.description ?? '').trim(),
+    tags: Array.isArray(source.tags) ? source.tags.map((tag) => String(tag).trim().toLowerCase()).filter(Boolean) : [],
+    itemTypes: Array.isArray(source.itemTypes) ? DECK_ITEM_TYPES.filter((type) => (source.itemTypes as unknown[]).includes(type)) : DECK_ITEM_TYPES,
+    published: source.published === true,
+    version: Math.max(0, Math.floor(Number(source.version ?? 0)) || 0),
+    entries: Array.isArray(source.entries) ? (source.entries as DeckEntry[]).filter((entry) => entry && typeof entry.id === 'string') : [],
+    subscribers,
+    createdAt: typeof source.createdAt === 'string' ? source.createdAt : now,
+    updatedAt: typeof source.updatedAt === 'string' ? source.updatedAt : now
+  }
+}
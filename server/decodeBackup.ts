@@ -0,0 +1,23 @@
+import 'dotenv/config'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { decodeBackup } from './backupTargets'
+
+// Turns a downloaded `.gz` / `.enc` backup back into the file the server wrote, so it can be restored.
+// Usage: npm run backup:decode -- <file> [output dir]   (passphrase from BACKUP_ENCRYPTION_PASSPHRASE)
+
+const [input, outputDir] = process.argv.slice(2)
+if (!input) {
+  console.error('usage: npm run backup:decode -- <file> [output dir]')
+  process.exit(1)
+}
+
+try {
+  const decoded = await decodeBackup(path.basename(input), await fs.readFile(input), process.env.BACKUP_ENCRYPTION_PASSPHRASE ?? '')
+  const outputPath = path.join(outputDir ?? path.dirname(input), decoded.fileName)
+  await fs.writeFile(outputPath, decoded.body, { flag: 'wx' })
+  console.log(`[Backup] decoded ${input} -> ${outputPath}`)
+} catch (err) {
+  console.error(`[Backup] decode failed: ${err instanceof Error ? err.message : String(err)}`)
+  process.exit(1)
+}
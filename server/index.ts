@@ -4,82 +4,49 @@ import express, { NextFunction, Request, Response } from 'express'
 import { XMLParser } from 'fast-xml-parser'
 import { promises as fs } from 'node:fs'
 import crypto from 'node:crypto'
-
-// Timing-safe string comparison
-function timingSafeCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) return false
-  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b))
-}
 import path from 'node:path'
 import { generateEnglishSeedWords, generateJapaneseSeedSentences } from '../src/seedData'
+import { REVIEW_GRADES, REVIEW_MODES, createSrsState, isSrsDue, normalizeSrsState, scheduleReview } from '../src/scheduler'
+import { defaultPlaybackTemplates, sanitizePlaybackTemplates } from '../src/playback'
+import { hasKanji, openJapaneseReader, romajiFor } from './japaneseReading'
+import { createSyncMeta, normalizeSyncMeta } from '../src/sync'
+import { checkPasswordPolicy } from '../src/passwordPolicy'
+import { countDailyReviews, DEFAULT_DAILY_LIMITS, sanitizeDailyLimits, startOfLocalDay } from '../src/dailyLimits'
+import { hasPermission, parseUserRole, ROLE_LABELS, type Permission } from '../src/permissions'
+import type {
+  AppDatabase, AuditAction, AuditEntry, BackupUploadStatus, DeckRecord, EnglishWord, JapaneseSentence, ReviewEvent,
+  PodcastFeedRecord, SessionRecord, SpeechSettings, TtsEngine, UserDataRecord, UserRecord, UserRole
+} from './types'
+import { importJsonDatabase, openStorage, readBackupFile, resolveStorageKind } from './storage'
+import { burnPasswordCheck, hashPassword, isPasswordHash, verifyPassword } from './password'
+import { appendNewItems } from './userItems'
+import { DECK_ITEM_TYPES, collectDeckEntries, deliverDeckEntries, refreshDeck, sanitizeDeck } from './decks'
+import { appendAuditEntry, filterAuditEntries, parseAuditFilter, sanitizeAuditEntry } from './audit'
+import { openTtsCache, ttsCacheKey } from './ttsCache'
+import {
+  SERVER_TTS_ENGINES, TTS_ENGINES, createTtsProviders, toTtsLangBucket, type TtsAudio, type TtsLangBucket, type TtsProvider, type TtsRequest
+} from './ttsProviders'
+import {
+  DEFAULT_SESSION_GAP_MS, MAX_SESSION_ITEMS, buildSessionScript, parseSessionAudioOptions, renderSessionAudio, type SessionChapter
+} from './sessionAudio'
+import { buildFeedXml, isEpisodeDate, openFeedEpisodeStore } from './podcastFeed'
+import { buildReviewStats, parseUtcOffset } from './reviewStats'
+import { createBackupTarget, encodeBackup, sanitizeUploadStatus, type BackupEncoding } from './backupTargets'
+import {
+  DEFAULT_BACKUP_RETENTION, diffForRestore, parseBackupKind, sanitizeBackupRetention, selectBackupsToPrune, type BackupFileInfo
+} from './backups'
 
 type SupportedLang = 'en' | 'ja'
 type NewsSource = 'rss' | 'newsapi'
-type UserRole = 'admin' | 'user'
-type ThemeMode = 'light' | 'dark'
 
-type EnglishWord = {
-  id: string
-  word: string
-  meaningZh: string
-  tags: string[]
-  needsWork: boolean
-  level: number
-  lastReviewedAt: string | null
+type SyncChanges<T> = {
+  upserts: T[]
+  deletes: Array<{ id: string; revision: number }>
 }
 
-type JapaneseSentence = {
+type SyncConflict<T> = {
   id: string
-  sentence: string
-  romaji: string
-  meaningZh: string
-  tags: string[]
-  vocabulary: Array<{ word: string; meaningZh: string }>
-  level: number
-  lastReviewedAt: string | null
-}
-
-type SpeechSettings = {
-  engine: 'browser' | 'openai'
-  openAiVoice: string
-  browserVoices: Record<'en' | 'zh' | 'ja', string>
-  rates: Record<'en' | 'zh' | 'ja', number>
-  pitches: Record<'en' | 'zh' | 'ja', number>
-  browserVolumes: Record<'en' | 'zh' | 'ja', number>
-  openAiVolumes: Record<'en' | 'zh' | 'ja', number>
-}
-
-type UserDataRecord = {
-  englishWords: EnglishWord[]
-  japaneseSentences: JapaneseSentence[]
-  speechSettings: SpeechSettings
-  theme: ThemeMode
-  updatedAt: string
-}
-
-type UserRecord = {
-  account: string
-  password: string
-  active: boolean
-  role: UserRole
-  name: string
-  createdAt: string
-  updatedAt: string
-  data: UserDataRecord
-}
-
-type SessionRecord = {
-  token: string
-  account: string
-  role: UserRole
-  expiresAt: number
-}
-
-type AppDatabase = {
-  meta: {
-    lastBackupDate: string | null
-  }
-  users: Record<string, UserRecord>
+  server: T | null
 }
 
 type NewsHeadline = {
@@ -92,7 +59,7 @@ type NewsHeadline = {
 }
 
 type AuthRequest = Request & {
-  auth?: { account: string; role: UserRole }
+  auth?: { account: string; role: UserRole; sessionId: string }
 }
 
 const app = express()
@@ -100,10 +67,24 @@ const port = Number(process.env.API_PORT ?? 8787)
 
 const DATA_DIR = path.join(process.cwd(), 'data')
 const BACKUP_DIR = path.join(DATA_DIR, 'backups')
-const DB_PATH = path.join(DATA_DIR, 'app-db.json')
+const STORAGE_KIND = resolveStorageKind(process.env.STORAGE_BACKEND)
+// Starting policy for a new database; admins change it from the backup panel afterwards.
+const INITIAL_BACKUP_RETENTION = sanitizeBackupRetention({
+  daily: process.env.BACKUP_KEEP_DAILY,
+  weekly: process.env.BACKUP_KEEP_WEEKLY,
+  manual: process.env.BACKUP_KEEP_MANUAL
+}, DEFAULT_BACKUP_RETENTION)
+// Off-disk copy of every daily and manual backup; misconfiguration stops startup rather than failing silently.
+const backupTarget = createBackupTarget(process.env)
+const BACKUP_ENCODING: BackupEncoding = {
+  gzip: process.env.BACKUP_GZIP === 'true',
+  passphrase: process.env.BACKUP_ENCRYPTION_PASSPHRASE ?? ''
+}
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY ?? ''
-const OPENAI_TTS_MODEL = process.env.OPENAI_TTS_MODEL ?? 'gpt-4o-mini-tts'
+const ttsProviders = createTtsProviders(process.env)
+const TTS_CACHE_DIR = path.join(DATA_DIR, 'tts-cache')
+const FEED_DIR = path.join(DATA_DIR, 'feeds')
+const TTS_CACHE_MAX_BYTES = Math.floor(Math.max(0, Number(process.env.TTS_CACHE_MAX_MB ?? 500) || 0) * 1024 * 1024)
 const NEWSAPI_KEY = process.env.NEWSAPI_KEY ?? ''
 const GNEWS_API_KEY = process.env.GNEWS_API_KEY ?? ''
 const NEWS_PROVIDER = String(process.env.NEWS_PROVIDER ?? 'auto').trim().toLowerCase()
@@ -115,27 +96,55 @@ const rssFeeds: Record<SupportedLang, string[]> = {
 }
 
 const defaultSpeechSettings: SpeechSettings = {
-  engine: 'browser',
+  engines: { en: 'browser', zh: 'browser', ja: 'browser' },
   openAiVoice: 'alloy',
   browserVoices: { en: '', zh: '', ja: '' },
   rates: { en: 0.95, zh: 0.95, ja: 0.95 },
   pitches: { en: 1, zh: 1, ja: 1 },
   browserVolumes: { en: 1, zh: 1, ja: 1 },
-  openAiVolumes: { en: 0.9, zh: 0.9, ja: 0.9 }
+  openAiVolumes: { en: 0.9, zh: 0.9, ja: 0.9 },
+  templates: defaultPlaybackTemplates,
+  dailyLimits: DEFAULT_DAILY_LIMITS
 }
 
-const sessions = new Map<string, SessionRecord>()
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000
-
+const MAX_REVIEW_EVENTS_PER_REQUEST = 500
+const MAX_REVIEW_DURATION_MS = 60 * 60 * 1000
+const MAX_SYNC_CHANGES_PER_REQUEST = 2000
+const MAX_PUSH_ITEMS_PER_REQUEST = 500
+const MAX_DECKS_PER_USER = 50
+const STUDENT_PROGRESS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+// Access tokens are short-lived; the refresh token keeps a device signed in and is rotated on every use.
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+// lastSeenAt is only written back this often, so ordinary requests do not each rewrite storage.
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+const MAX_SESSIONS_PER_USER = 20
+// Reachable while an account still has to replace its initial password.
+const PASSWORD_CHANGE_ALLOWED_PATHS = new Set(['/api/auth/me', '/api/auth/password', '/api/auth/logout'])
+
+if (process.env.TRUST_PROXY === 'true') app.set('trust proxy', true)
 app.use(cors())
 app.use(express.json({ limit: '5mb' }))
 
+await fs.mkdir(DATA_DIR, { recursive: true })
+const storage = openStorage(STORAGE_KIND, DATA_DIR)
+// Needed before the data loads, which fills in readings for sentences stored without one.
+const japaneseReader = await openJapaneseReader().catch((err) => {
+  console.error(`[Reading] dictionary failed to load, romaji keeps kanji: ${err instanceof Error ? err.message : String(err)}`)
+  return null
+})
 let database = await initDatabase()
 let writeLock: Promise<void> = Promise.resolve()
+const ttsCache = await openTtsCache(TTS_CACHE_DIR, TTS_CACHE_MAX_BYTES)
+const feedEpisodes = openFeedEpisodeStore(FEED_DIR)
+// Rendering takes minutes with many items, so no request waits on it; one render per account at a time.
+const episodeRenders = new Map<string, Promise<void>>()
 
 setInterval(() => {
   void ensureDailyBackup(false)
-  pruneSessions()
+  if (pruneSessions()) void persistDatabase()
+  void renderFeedEpisodes()
 }, 60 * 60 * 1000).unref()
 
 app.get('/api/health', (_request, response) => {
@@ -147,7 +156,7 @@ const loginAttempts = new Map<string, { count: number; lastAttempt: number }>()
 const MAX_ATTEMPTS = 5
 const LOCKOUT_MS = 15 * 60 * 1000
 
-app.post('/api/auth/login', (request, response) => {
+app.post('/api/auth/login', async (request, response) => {
   const account = String(request.body?.account ?? '').trim()
   const password = String(request.body?.password ?? '').trim()
 
@@ -160,7 +169,20 @@ app.post('/api/auth/login', (request, response) => {
   }
 
   const user = database.users[account]
-  if (!user || !timingSafeCompare(user.password, password)) {
+  let verified = false
+  if (user) {
+    const result = await verifyPassword(user.password, password)
+    verified = result.ok
+    // Plaintext records from before hashing are upgraded the first time their owner signs in.
+    if (result.needsRehash) {
+      user.password = await hashPassword(password)
+      await persistDatabase()
+    }
+  } else {
+    await burnPasswordCheck(password)
+  }
+
+  if (!user || !verified) {
     const r = loginAttempts.get(account) || { count: 0, lastAttempt: 0 }
     r.count++; r.lastAttempt = Date.now()
     loginAttempts.set(account, r)
@@ -174,27 +196,89 @@ app.post('/api/auth/login', (request, response) => {
     return
   }
 
-  const token = createToken()
-  sessions.set(token, {
-    token,
-    account,
-    role: user.role,
-    expiresAt: Date.now() + SESSION_TTL_MS
-  })
+  const tokens = issueSession(account, request)
+  await persistDatabase()
 
   response.json({
-    token,
+    ...tokens,
     user: {
       account: user.account,
       role: user.role,
-      name: user.name
+      name: user.name,
+      mustChangePassword: user.mustChangePassword
     }
   })
 })
 
-app.post('/api/auth/logout', requireAuth, (request, response) => {
-  const token = readBearerToken(request)
-  if (token) sessions.delete(token)
+app.post('/api/auth/refresh', async (request, response) => {
+  const refreshToken = String(request.body?.refreshToken ?? '').trim()
+  const session = refreshToken ? findSession('refreshTokenHash', hashToken(refreshToken)) : undefined
+  if (!session || session.expiresAt <= Date.now()) {
+    if (session) {
+      delete database.sessions[session.id]
+      await persistDatabase()
+    }
+    response.status(401).json({ error: 'invalid refresh token' })
+    return
+  }
+
+  const user = database.users[session.account]
+  if (!user || !user.active) {
+    delete database.sessions[session.id]
+    await persistDatabase()
+    response.status(user ? 403 : 401).json({ error: user ? 'account disabled' : 'user not found' })
+    return
+  }
+
+  const tokens = rotateSessionTokens(session, request)
+  await persistDatabase()
+  response.json(tokens)
+})
+
+app.post('/api/auth/logout', requireAuth, async (request, response) => {
+  delete database.sessions[(request as AuthRequest).auth!.sessionId]
+  await persistDatabase()
+  response.json({ ok: true })
+})
+
+app.get('/api/auth/sessions', requireAuth, (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const now = Date.now()
+
+  response.json({
+    sessions: Object.values(database.sessions)
+      .filter((session) => session.account === auth.account && session.expiresAt > now)
+      .sort((a, b) => Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt))
+      .map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: new Date(session.expiresAt).toISOString(),
+        current: session.id === auth.sessionId
+      }))
+  })
+})
+
+// Signs out every other device of the caller.
+app.delete('/api/auth/sessions', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const revoked = revokeSessions(auth.account, auth.sessionId)
+  await persistDatabase()
+  response.json({ ok: true, revoked })
+})
+
+app.delete('/api/auth/sessions/:id', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const session = database.sessions[String(request.params.id ?? '')]
+  if (!session || session.account !== auth.account) {
+    response.status(404).json({ error: 'session not found' })
+    return
+  }
+
+  delete database.sessions[session.id]
+  await persistDatabase()
   response.json({ ok: true })
 })
 
@@ -209,18 +293,65 @@ app.get('/api/auth/me', requireAuth, (request, response) => {
   response.json({
     account: user.account,
     role: user.role,
-    name: user.name
+    name: user.name,
+    mustChangePassword: user.mustChangePassword
   })
 })
 
+app.post('/api/auth/password', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const currentPassword = String(request.body?.currentPassword ?? '').trim()
+  const newPassword = String(request.body?.newPassword ?? '').trim()
+
+  if (!(await verifyPassword(user.password, currentPassword)).ok) {
+    response.status(400).json({ error: '目前密碼錯誤' })
+    return
+  }
+  if (newPassword === currentPassword) {
+    response.status(400).json({ error: '新密碼不可與目前密碼相同' })
+    return
+  }
+  const policyError = checkPasswordPolicy(newPassword, user.account)
+  if (policyError) {
+    response.status(400).json({ error: policyError })
+    return
+  }
+
+  user.password = await hashPassword(newPassword)
+  user.mustChangePassword = false
+  user.updatedAt = new Date().toISOString()
+  // Other devices signed in with the old password have to sign in again.
+  revokeSessions(user.account, auth.sessionId)
+  await persistDatabase()
+  response.json({ ok: true })
+})
+
 app.get('/api/providers', requireAuth, (_request, response) => {
   response.json(getProviderStatus())
 })
 
-app.post('/api/admin/providers/refresh', requireAuth, requireAdmin, (_request, response) => {
+app.post('/api/admin/providers/refresh', requireAuth, requirePermission('providers:refresh'), (_request, response) => {
   response.json(getProviderStatus())
 })
 
+app.get('/api/admin/tts-cache', requireAuth, requirePermission('tts:manage'), (_request, response) => {
+  response.json(ttsCache.stats())
+})
+
+app.delete('/api/admin/tts-cache', requireAuth, requirePermission('tts:manage'), async (request, response) => {
+  const before = ttsCache.stats()
+  const removed = await ttsCache.clear()
+  recordAudit(request, 'tts.cache_clear', '', `清除 ${removed} 個語音快取檔`, { removed, bytes: before.bytes })
+  await persistDatabase()
+  response.json(ttsCache.stats())
+})
+
 app.get('/api/user/data', requireAuth, (request, response) => {
   const auth = (request as AuthRequest).auth!
   const user = database.users[auth.account]
@@ -239,7 +370,9 @@ app.get('/api/user/data', requireAuth, (request, response) => {
   })
 })
 
-app.put('/api/user/data', requireAuth, async (request, response) => {
+// Applies item-level changes. Every upsert/delete names the revision it was based on; if any of them is
+// stale nothing is written and the current server copies are returned with 409 for the client to merge.
+app.patch('/api/user/data', requireAuth, async (request, response) => {
   const auth = (request as AuthRequest).auth!
   const user = database.users[auth.account]
 
@@ -248,19 +381,334 @@ app.put('/api/user/data', requireAuth, async (request, response) => {
     return
   }
 
-  const input = request.body as Partial<UserDataRecord> | undefined
+  const body = (request.body && typeof request.body === 'object' ? request.body : {}) as Record<string, unknown>
+  const englishChanges = sanitizeSyncChanges(body.englishWords, sanitizeEnglishWord)
+  const japaneseChanges = sanitizeSyncChanges(body.japaneseSentences, sanitizeJapaneseSentence)
+  const settings = body.settings && typeof body.settings === 'object' ? body.settings as Record<string, unknown> : null
+
+  const changeCount = [englishChanges, japaneseChanges].reduce((sum, changes) => sum + changes.upserts.length + changes.deletes.length, 0)
+  if (changeCount > MAX_SYNC_CHANGES_PER_REQUEST) {
+    response.status(413).json({ error: `too many changes (max ${MAX_SYNC_CHANGES_PER_REQUEST})` })
+    return
+  }
+
+  const conflicts = {
+    englishWords: findSyncConflicts(user.data.englishWords, englishChanges),
+    japaneseSentences: findSyncConflicts(user.data.japaneseSentences, japaneseChanges),
+    settings: settings && Number(settings.revision) !== user.data.settingsRevision
+      ? { revision: user.data.settingsRevision, speechSettings: user.data.speechSettings, theme: user.data.theme }
+      : null
+  }
+
+  if (conflicts.englishWords.length > 0 || conflicts.japaneseSentences.length > 0 || conflicts.settings) {
+    response.status(409).json({ error: 'conflict', conflicts })
+    return
+  }
+
+  const now = new Date().toISOString()
+  const english = applySyncChanges(user.data.englishWords, englishChanges, now)
+  const japanese = applySyncChanges(user.data.japaneseSentences, japaneseChanges, now)
+  user.data.englishWords = english.items
+  user.data.japaneseSentences = japanese.items
+
+  if (settings) {
+    user.data.speechSettings = sanitizeSpeechSettings(settings.speechSettings)
+    user.data.theme = settings.theme === 'dark' ? 'dark' : 'light'
+    user.data.settingsRevision += 1
+  }
+
+  user.data.updatedAt = now
+  user.updatedAt = now
+  refreshOwnedDecks(user, now)
+
+  await persistDatabase()
+  response.json({
+    ok: true,
+    englishWords: english.saved,
+    japaneseSentences: japanese.saved,
+    settingsRevision: user.data.settingsRevision
+  })
+})
+
+registerItemRoutes('/api/user/english-words', (data) => data.englishWords, (data, items) => { data.englishWords = items }, sanitizeEnglishWord)
+registerItemRoutes('/api/user/japanese-sentences', (data) => data.japaneseSentences, (data, items) => { data.japaneseSentences = items }, sanitizeJapaneseSentence)
 
-  user.data = sanitizeUserData({
-    ...input,
-    updatedAt: new Date().toISOString()
+app.get('/api/user/reviews', requireAuth, (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const from = typeof request.query.from === 'string' ? Date.parse(request.query.from) : Number.NaN
+  const to = typeof request.query.to === 'string' ? Date.parse(request.query.to) : Number.NaN
+  const itemId = String(request.query.itemId ?? '').trim()
+  const limit = clampNumber(Number(request.query.limit ?? 5000), 1, 20000)
+
+  const events = user.reviews.filter((event) => {
+    const reviewedAt = Date.parse(event.reviewedAt)
+    if (!Number.isNaN(from) && reviewedAt < from) return false
+    if (!Number.isNaN(to) && reviewedAt > to) return false
+    if (itemId && event.itemId !== itemId) return false
+    return true
   })
+
+  response.json({ count: events.length, events: events.slice(-limit) })
+})
+
+// `since` is the start of the learner's day in their own time zone, which the server does not know.
+app.get('/api/user/reviews/daily', requireAuth, (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const since = typeof request.query.since === 'string' ? Date.parse(request.query.since) : Number.NaN
+  if (Number.isNaN(since)) {
+    response.status(400).json({ error: 'since required' })
+    return
+  }
+
+  response.json(countDailyReviews(user.reviews, since))
+})
+
+// `utcOffset` is the learner's offset from UTC in minutes (east positive), so days match their calendar.
+app.get('/api/user/stats', requireAuth, (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  response.json(buildReviewStats(user.data, user.reviews, parseUtcOffset(request.query.utcOffset)))
+})
+
+app.post('/api/user/reviews', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const rawEvents = Array.isArray(request.body?.events) ? request.body.events as unknown[] : []
+  if (rawEvents.length === 0) {
+    response.status(400).json({ error: 'events required' })
+    return
+  }
+  if (rawEvents.length > MAX_REVIEW_EVENTS_PER_REQUEST) {
+    response.status(413).json({ error: `一次最多 ${MAX_REVIEW_EVENTS_PER_REQUEST} 筆複習紀錄` })
+    return
+  }
+
+  // Clients retry unacknowledged batches, so events already stored under the same id are skipped.
+  const knownIds = new Set(user.reviews.map((event) => event.id))
+  const accepted = rawEvents
+    .map((item) => sanitizeReviewEvent(item))
+    .filter((item): item is ReviewEvent => item !== null && isNewEventId(knownIds, item.id))
+
+  user.reviews.push(...accepted)
+  user.reviews.sort((a, b) => Date.parse(a.reviewedAt) - Date.parse(b.reviewedAt))
+
+  await persistDatabase()
+  response.status(201).json({ ok: true, accepted: accepted.length })
+})
+
+// Applies graded reviews with the shared scheduler and logs them, so a review click only sends the grade.
+app.post('/api/user/reviews/batch', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const rawReviews = Array.isArray(request.body?.reviews) ? request.body.reviews as unknown[] : []
+  if (rawReviews.length === 0) {
+    response.status(400).json({ error: 'reviews required' })
+    return
+  }
+  if (rawReviews.length > MAX_REVIEW_EVENTS_PER_REQUEST) {
+    response.status(413).json({ error: `一次最多 ${MAX_REVIEW_EVENTS_PER_REQUEST} 筆複習紀錄` })
+    return
+  }
+
+  const knownIds = new Set(user.reviews.map((event) => event.id))
+  const reviews = rawReviews
+    .map((item) => sanitizeReviewEvent(item))
+    .filter((item): item is ReviewEvent => item !== null && isNewEventId(knownIds, item.id))
+    .sort((a, b) => Date.parse(a.reviewedAt) - Date.parse(b.reviewedAt))
+
+  const english = new Map(user.data.englishWords.map((item) => [item.id, item]))
+  const japanese = new Map(user.data.japaneseSentences.map((item) => [item.id, item]))
+  const accepted: ReviewEvent[] = []
+
+  for (const event of reviews) {
+    const items: Map<string, EnglishWord | JapaneseSentence> = event.itemType === 'english' ? english : japanese
+    const stored = items.get(event.itemId)
+    if (!stored) continue
+    accepted.push(event)
+    if (event.mode === 'playback') continue
+    items.set(event.itemId, {
+      ...stored,
+      ...scheduleReview(stored, event.grade, new Date(event.reviewedAt)),
+      revision: stored.revision + 1
+    })
+  }
+
+  const reviewedIds = new Set(accepted.filter((event) => event.mode !== 'playback').map((event) => event.itemId))
+  user.data.englishWords = user.data.englishWords.map((item) => english.get(item.id) ?? item)
+  user.data.japaneseSentences = user.data.japaneseSentences.map((item) => japanese.get(item.id) ?? item)
+  user.reviews.push(...accepted)
+  user.reviews.sort((a, b) => Date.parse(a.reviewedAt) - Date.parse(b.reviewedAt))
   user.updatedAt = new Date().toISOString()
 
   await persistDatabase()
+  response.json({
+    ok: true,
+    accepted: accepted.length,
+    englishWords: user.data.englishWords.filter((item) => reviewedIds.has(item.id)),
+    japaneseSentences: user.data.japaneseSentences.filter((item) => reviewedIds.has(item.id))
+  })
+})
+
+app.get('/api/decks', requireAuth, (request, response) => {
+  const auth = (request as AuthRequest).auth!
+
+  response.json({
+    decks: Object.values(database.decks)
+      .filter((deck) => deck.owner === auth.account || deck.published || deck.subscribers[auth.account])
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt))
+      .map((deck) => summarizeDeck(deck, auth.account))
+  })
+})
+
+app.post('/api/decks', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const fields = readDeckFields(request.body)
+  if ('error' in fields) {
+    response.status(400).json({ error: fields.error })
+    return
+  }
+  if (Object.values(database.decks).filter((deck) => deck.owner === auth.account).length >= MAX_DECKS_PER_USER) {
+    response.status(400).json({ error: `每人最多 ${MAX_DECKS_PER_USER} 個牌組` })
+    return
+  }
+
+  const now = new Date().toISOString()
+  const deck: DeckRecord = {
+    id: crypto.randomUUID(),
+    owner: auth.account,
+    name: fields.name ?? '',
+    description: fields.description ?? '',
+    tags: fields.tags ?? [],
+    itemTypes: fields.itemTypes ?? DECK_ITEM_TYPES,
+    published: false,
+    version: 0,
+    entries: [],
+    subscribers: {},
+    createdAt: now,
+    updatedAt: now
+  }
+  if (!deck.name || deck.tags.length === 0) {
+    response.status(400).json({ error: '牌組需要名稱與至少一個標籤' })
+    return
+  }
+
+  database.decks[deck.id] = deck
+  await persistDatabase()
+  response.status(201).json({ deck: summarizeDeck(deck, auth.account) })
+})
+
+// Updates the deck definition; `published: false` stops new subscriptions and deliveries.
+app.patch('/api/decks/:id', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const deck = findOwnDeck(request, response)
+  if (!deck) return
+
+  const fields = readDeckFields(request.body)
+  if ('error' in fields) {
+    response.status(400).json({ error: fields.error })
+    return
+  }
+
+  Object.assign(deck, fields)
+  if (request.body?.published === false) deck.published = false
+  deck.updatedAt = new Date().toISOString()
+  await persistDatabase()
+  response.json({ deck: summarizeDeck(deck, auth.account) })
+})
+
+// Snapshots the owner's matching items and sends new and edited entries to every subscriber. Once
+// published, the deck follows the owner's edits on its own (refreshOwnedDecks).
+app.post('/api/decks/:id/publish', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const deck = findOwnDeck(request, response)
+  if (!deck) return
+
+  const owner = database.users[deck.owner]
+  if (!owner || collectDeckEntries(deck, owner).length === 0) {
+    response.status(400).json({ error: '沒有符合牌組標籤的項目' })
+    return
+  }
+
+  const now = new Date().toISOString()
+  deck.published = true
+  deck.updatedAt = now
+  const delivered = refreshDeck(deck, owner, database.users, now)
+  passOnDeliveries(deck, now)
+
+  await persistDatabase()
+  response.json({ deck: summarizeDeck(deck, auth.account), delivered })
+})
+
+app.delete('/api/decks/:id', requireAuth, async (request, response) => {
+  const deck = findOwnDeck(request, response)
+  if (!deck) return
+
+  // Subscribers keep the items they already received.
+  delete database.decks[deck.id]
+  await persistDatabase()
+  response.json({ ok: true })
+})
+
+app.post('/api/decks/:id/subscribe', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  const deck = database.decks[String(request.params.id ?? '')]
+  if (!user || !deck || (!deck.published && !deck.subscribers[auth.account])) {
+    response.status(404).json({ error: 'deck not found' })
+    return
+  }
+  if (deck.owner === auth.account) {
+    response.status(400).json({ error: '不能訂閱自己的牌組' })
+    return
+  }
+
+  const now = new Date().toISOString()
+  deck.subscribers[auth.account] ??= { subscribedAt: now, deliveredEntryIds: [] }
+  const added = deck.published ? deliverDeckEntries(deck, user, now) : 0
+  if (added > 0) refreshOwnedDecks(user, now)
+
+  await persistDatabase()
+  response.json({ deck: summarizeDeck(deck, auth.account), added })
+})
+
+app.delete('/api/decks/:id/subscribe', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const deck = database.decks[String(request.params.id ?? '')]
+  if (deck?.subscribers[auth.account]) {
+    delete deck.subscribers[auth.account]
+    await persistDatabase()
+  }
   response.json({ ok: true })
 })
 
-app.get('/api/admin/users', requireAuth, requireAdmin, (_request, response) => {
+app.get('/api/admin/users', requireAuth, requirePermission('users:manage'), (_request, response) => {
   response.json({
     users: Object.values(database.users)
       .sort((a, b) => a.account.localeCompare(b.account))
@@ -269,6 +717,7 @@ app.get('/api/admin/users', requireAuth, requireAdmin, (_request, response) => {
         active: user.active,
         name: user.name,
         role: user.role,
+        teacher: user.teacher,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         englishCount: user.data.englishWords.length,
@@ -277,19 +726,20 @@ app.get('/api/admin/users', requireAuth, requireAdmin, (_request, response) => {
   })
 })
 
-app.post('/api/admin/users', requireAuth, requireAdmin, async (request, response) => {
+app.post('/api/admin/users', requireAuth, requirePermission('users:manage'), async (request, response) => {
   const account = String(request.body?.account ?? '').trim()
   const password = String(request.body?.password ?? '').trim()
   const name = String(request.body?.name ?? '').trim() || account
-  const role = request.body?.role === 'admin' ? 'admin' : 'user'
+  const role = parseUserRole(request.body?.role)
 
   if (!/^[a-zA-Z0-9_-]{3,32}$/.test(account)) {
     response.status(400).json({ error: 'account 格式需為 3-32 位英文數字或 _ -' })
     return
   }
 
-  if (password.length < 4) {
-    response.status(400).json({ error: 'password 至少 4 碼' })
+  const policyError = checkPasswordPolicy(password, account)
+  if (policyError) {
+    response.status(400).json({ error: policyError })
     return
   }
 
@@ -301,20 +751,25 @@ app.post('/api/admin/users', requireAuth, requireAdmin, async (request, response
   const now = new Date().toISOString()
   database.users[account] = {
     account,
-    password,
+    password: await hashPassword(password),
+    mustChangePassword: false,
     active: true,
     role,
+    teacher: null,
     name,
     createdAt: now,
     updatedAt: now,
-    data: createInitialUserData()
+    data: createInitialUserData(),
+    reviews: [],
+    podcastFeed: null
   }
 
+  recordAudit(request, 'user.create', account, `建立帳號（${ROLE_LABELS[role]}）`, { role, name })
   await persistDatabase()
   response.status(201).json({ ok: true })
 })
 
-app.delete('/api/admin/users/:account', requireAuth, requireAdmin, async (request, response) => {
+app.delete('/api/admin/users/:account', requireAuth, requirePermission('users:manage'), async (request, response) => {
   const target = String(request.params.account ?? '').trim()
   const auth = (request as AuthRequest).auth!
 
@@ -333,12 +788,28 @@ app.delete('/api/admin/users/:account', requireAuth, requireAdmin, async (reques
     return
   }
 
+  const removed = database.users[target]
   delete database.users[target]
+  const revoked = revokeSessions(target, null)
+  for (const user of Object.values(database.users)) {
+    if (user.teacher === target) user.teacher = null
+  }
+  for (const deck of Object.values(database.decks)) {
+    if (deck.owner === target) delete database.decks[deck.id]
+    else delete deck.subscribers[target]
+  }
+  recordAudit(request, 'user.delete', target, `刪除帳號（${ROLE_LABELS[removed.role]}）`, {
+    role: removed.role,
+    englishCount: removed.data.englishWords.length,
+    japaneseCount: removed.data.japaneseSentences.length,
+    revokedSessions: revoked
+  })
   await persistDatabase()
+  await feedEpisodes.remove(target)
   response.json({ ok: true })
 })
 
-app.patch('/api/admin/users/:account/password', requireAuth, requireAdmin, async (request, response) => {
+app.patch('/api/admin/users/:account/password', requireAuth, requirePermission('users:manage'), async (request, response) => {
   const target = String(request.params.account ?? '').trim()
   const password = String(request.body?.password ?? '').trim()
 
@@ -346,19 +817,23 @@ app.patch('/api/admin/users/:account/password', requireAuth, requireAdmin, async
     response.status(404).json({ error: 'user not found' })
     return
   }
-  if (password.length < 4) {
-    response.status(400).json({ error: 'password 至少 4 碼' })
+  const policyError = checkPasswordPolicy(password, target)
+  if (policyError) {
+    response.status(400).json({ error: policyError })
     return
   }
 
   const user = database.users[target]
-  user.password = password
+  user.password = await hashPassword(password)
   user.updatedAt = new Date().toISOString()
+  const auth = (request as AuthRequest).auth!
+  const revoked = revokeSessions(target, target === auth.account ? auth.sessionId : null)
+  recordAudit(request, 'user.password_reset', target, '重設密碼並登出其他裝置', { revokedSessions: revoked })
   await persistDatabase()
   response.json({ ok: true })
 })
 
-app.patch('/api/admin/users/:account/status', requireAuth, requireAdmin, async (request, response) => {
+app.patch('/api/admin/users/:account/status', requireAuth, requirePermission('users:manage'), async (request, response) => {
   const target = String(request.params.account ?? '').trim()
   const auth = (request as AuthRequest).auth!
   const active = Boolean(request.body?.active)
@@ -377,46 +852,241 @@ app.patch('/api/admin/users/:account/status', requireAuth, requireAdmin, async (
   }
 
   const user = database.users[target]
+  const wasActive = user.active
   user.active = active
   user.updatedAt = new Date().toISOString()
+  const revoked = active ? 0 : revokeSessions(target, null)
+  if (wasActive !== active) {
+    recordAudit(request, 'user.status', target, active ? '啟用帳號' : '停用帳號', { from: wasActive, to: active, revokedSessions: revoked })
+  }
   await persistDatabase()
 
-  if (!active) {
-    for (const [token, session] of sessions.entries()) {
-      if (session.account === target) sessions.delete(token)
-    }
+  response.json({ ok: true })
+})
+
+app.patch('/api/admin/users/:account/teacher', requireAuth, requirePermission('users:manage'), async (request, response) => {
+  const target = String(request.params.account ?? '').trim()
+  const teacher = String(request.body?.teacher ?? '').trim() || null
+
+  const user = database.users[target]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+  if (user.role !== 'user') {
+    response.status(400).json({ error: '只有一般使用者可以指派老師' })
+    return
+  }
+  if (teacher && database.users[teacher]?.role !== 'teacher') {
+    response.status(400).json({ error: '指定的帳號不是老師' })
+    return
   }
 
+  const previous = user.teacher
+  user.teacher = teacher
+  user.updatedAt = new Date().toISOString()
+  if (previous !== teacher) {
+    recordAudit(request, 'user.teacher', target, teacher ? `指派老師 ${teacher}` : '取消指派老師', { from: previous, to: teacher })
+  }
+  await persistDatabase()
   response.json({ ok: true })
 })
 
-app.get('/api/admin/backups', requireAuth, requireAdmin, async (_request, response) => {
-  await fs.mkdir(BACKUP_DIR, { recursive: true })
-  const entries = await fs.readdir(BACKUP_DIR, { withFileTypes: true })
-
-  const files = await Promise.all(
-    entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
-      .map(async (entry) => {
-        const fullPath = path.join(BACKUP_DIR, entry.name)
-        const stats = await fs.stat(fullPath)
-        return {
-          fileName: entry.name,
-          size: stats.size,
-          mtime: stats.mtime.toISOString()
-        }
-      })
-  )
+app.get('/api/teacher/students', requireAuth, requirePermission('students:view'), (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const now = Date.now()
+
+  response.json({
+    students: Object.values(database.users)
+      .filter((user) => canReachStudent(auth, user))
+      .sort((a, b) => a.account.localeCompare(b.account))
+      .map((user) => summarizeStudentProgress(user, now))
+  })
+})
+
+// Adds a teacher-supplied list to a student's own collections; entries the student already has are skipped.
+app.post('/api/teacher/students/:account/items', requireAuth, requirePermission('students:push'), async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const student = database.users[String(request.params.account ?? '').trim()]
+  if (!student || !canReachStudent(auth, student)) {
+    response.status(404).json({ error: 'student not found' })
+    return
+  }
+
+  const body = (request.body && typeof request.body === 'object' ? request.body : {}) as Record<string, unknown>
+  const rawWords = Array.isArray(body.englishWords) ? body.englishWords : []
+  const rawSentences = Array.isArray(body.japaneseSentences) ? body.japaneseSentences : []
+  if (rawWords.length + rawSentences.length > MAX_PUSH_ITEMS_PER_REQUEST) {
+    response.status(413).json({ error: `一次最多推送 ${MAX_PUSH_ITEMS_PER_REQUEST} 筆` })
+    return
+  }
+
+  const englishWords = rawWords
+    .map((item, index) => sanitizeEnglishWord(item, index))
+    .filter((item): item is EnglishWord => item !== null)
+    .map((item) => ({ ...item, id: `en-push-${crypto.randomUUID()}` }))
+  const japaneseSentences = rawSentences
+    .map((item, index) => sanitizeJapaneseSentence(item, index))
+    .filter((item): item is JapaneseSentence => item !== null)
+    .map((item) => ({ ...item, id: `ja-push-${crypto.randomUUID()}` }))
+
+  const now = new Date().toISOString()
+  const added = appendNewItems(student, englishWords, japaneseSentences, now)
+  if (added.englishWords + added.japaneseSentences > 0) {
+    refreshOwnedDecks(student, now)
+    recordAudit(request, 'students.push', student.account, `推送英文 ${added.englishWords} 筆、日文 ${added.japaneseSentences} 筆`, { ...added })
+    await persistDatabase()
+  }
+
+  response.json({
+    ok: true,
+    added,
+    skipped: rawWords.length + rawSentences.length - added.englishWords - added.japaneseSentences
+  })
+})
+
+app.get('/api/admin/backups', requireAuth, requirePermission('backups:manage'), async (_request, response) => {
+  const files = await listBackupFiles()
+  response.json({
+    files: files.map((file) => ({ ...file, kind: parseBackupKind(file.fileName) })),
+    retention: database.meta.backupRetention,
+    upload: {
+      target: backupTarget ? { kind: backupTarget.kind, location: backupTarget.location } : null,
+      gzip: BACKUP_ENCODING.gzip,
+      encrypted: Boolean(BACKUP_ENCODING.passphrase),
+      last: database.meta.lastBackupUpload
+    }
+  })
+})
+
+// Retries the off-disk copy of one file, e.g. after the last upload failed.
+app.post('/api/admin/backups/:fileName/upload', requireAuth, requirePermission('backups:manage'), async (request, response) => {
+  if (!backupTarget) {
+    response.status(400).json({ error: '尚未設定 BACKUP_TARGET' })
+    return
+  }
 
-  files.sort((a, b) => Date.parse(b.mtime) - Date.parse(a.mtime))
-  response.json({ files })
+  const fileName = String(request.params.fileName ?? '')
+  const fullPath = await resolveBackupPath(fileName)
+  if (!fullPath) {
+    response.status(404).json({ error: 'backup not found' })
+    return
+  }
+
+  const status = await uploadBackup(fullPath, fileName)
+  database.meta.lastBackupUpload = status
+  await persistDatabase()
+  response.status(status?.ok ? 200 : 502).json({ upload: status })
 })
 
-app.post('/api/admin/backup', requireAuth, requireAdmin, async (_request, response) => {
+app.get('/api/admin/backups/:fileName/download', requireAuth, requirePermission('backups:manage'), async (request, response) => {
+  const fileName = String(request.params.fileName ?? '')
+  const fullPath = await resolveBackupPath(fileName)
+  if (!fullPath) {
+    response.status(404).json({ error: 'backup not found' })
+    return
+  }
+
+  response.setHeader('Content-Type', fileName.endsWith('.json') ? 'application/json; charset=utf-8' : 'application/vnd.sqlite3')
+  response.setHeader('Content-Disposition', `attachment; filename="${fileName}"`)
+  response.send(await fs.readFile(fullPath))
+})
+
+// Dry run unless `dryRun: false`. With `account`, only that user's learning data is restored; otherwise the
+// whole database is, keeping the current sessions, audit log and backup settings.
+app.post('/api/admin/backups/:fileName/restore', requireAuth, requirePermission('backups:manage'), async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const fileName = String(request.params.fileName ?? '')
+  const account = String(request.body?.account ?? '').trim() || null
+  const dryRun = request.body?.dryRun !== false
+
+  const fullPath = await resolveBackupPath(fileName)
+  if (!fullPath) {
+    response.status(404).json({ error: 'backup not found' })
+    return
+  }
+
+  let backup: AppDatabase
+  try {
+    backup = normalizeDatabase(await readBackupFile(fullPath))
+  } catch {
+    response.status(422).json({ error: '無法讀取備份檔' })
+    return
+  }
+
+  if (account && (!database.users[account] || !backup.users[account])) {
+    response.status(404).json({ error: database.users[account] ? '備份中沒有這個帳號' : 'user not found' })
+    return
+  }
+  if (!account && backup.users[auth.account]?.role !== 'admin') {
+    response.status(400).json({ error: '備份中目前登入的帳號不是管理員，還原後將無法管理系統' })
+    return
+  }
+
+  const users = diffForRestore(database, backup, account)
+  const decks = { current: Object.keys(database.decks).length, backup: Object.keys(backup.decks).length }
+  if (dryRun) {
+    response.json({ dryRun: true, fileName, account, users, decks })
+    return
+  }
+
+  // Restores are undone by restoring this copy.
+  const restorePoint = await writeRestorePoint()
+  const now = new Date().toISOString()
+
+  if (account) {
+    const user = database.users[account]
+    user.data = supersedeUserData(user.data, backup.users[account].data, now)
+    user.updatedAt = now
+  } else {
+    for (const user of Object.values(backup.users)) {
+      const current = database.users[user.account]
+      if (current) user.data = supersedeUserData(current.data, user.data, now)
+    }
+    backup.sessions = Object.fromEntries(
+      Object.entries(database.sessions).filter(([, session]) => backup.users[session.account]?.active)
+    )
+    backup.meta = database.meta
+    backup.auditLog = database.auditLog
+    database = backup
+  }
+
+  const changed = users.filter((user) => user.status !== 'unchanged').length
+  recordAudit(request, 'backup.restore', account ?? '', account ? `從 ${fileName} 還原學習資料` : `從 ${fileName} 還原整個資料庫（${changed} 個帳號有變動）`, {
+    fileName,
+    restorePoint
+  })
+  await persistDatabase()
+  console.log(`[Backup] ${auth.account} restored ${account ? `${account} data` : 'database'} from ${fileName}`)
+  response.json({ dryRun: false, fileName, account, users, decks, restorePoint })
+})
+
+app.put('/api/admin/backups/retention', requireAuth, requirePermission('backups:manage'), async (request, response) => {
+  const previous = database.meta.backupRetention
+  const retention = sanitizeBackupRetention(request.body, previous)
+  database.meta.backupRetention = retention
+
+  recordAudit(request, 'backup.retention', '', `保留 ${retention.daily} 天、${retention.weekly} 週、手動 ${retention.manual} 份`, {
+    daily: retention.daily,
+    weekly: retention.weekly,
+    manual: retention.manual
+  })
+  await persistDatabase()
+  const pruned = await pruneBackups()
+  response.json({ retention, pruned })
+})
+
+app.post('/api/admin/backup', requireAuth, requirePermission('backups:manage'), async (request, response) => {
   await ensureDailyBackup(true)
+  recordAudit(request, 'backup.create', '', '手動建立備份', { storage: storage.kind })
+  await persistDatabase()
   response.json({ ok: true })
 })
 
+app.get('/api/admin/audit', requireAuth, requirePermission('audit:view'), (request, response) => {
+  response.json(filterAuditEntries(database.auditLog, parseAuditFilter(request.query as Record<string, unknown>)))
+})
+
 app.get('/api/user/export', requireAuth, (request, response) => {
   const auth = (request as AuthRequest).auth!
   const user = database.users[auth.account]
@@ -446,194 +1116,629 @@ app.post('/api/user/import', requireAuth, async (request, response) => {
     return
   }
 
-  const body = request.body as { data?: unknown } | undefined
-  const rawData = body && typeof body === 'object' && 'data' in body ? body.data : request.body
+  const body = request.body as { data?: unknown } | undefined
+  const rawData = body && typeof body === 'object' && 'data' in body ? body.data : request.body
+
+  const previous = user.data
+  const imported = sanitizeUserData(rawData)
+
+  user.data = supersedeUserData(previous, imported, new Date().toISOString())
+  user.updatedAt = new Date().toISOString()
+  refreshOwnedDecks(user, user.updatedAt)
+
+  recordAudit(request, 'data.import', user.account, `匯入資料：英文 ${previous.englishWords.length} → ${user.data.englishWords.length} 筆、日文 ${previous.japaneseSentences.length} → ${user.data.japaneseSentences.length} 筆`, {
+    englishBefore: previous.englishWords.length,
+    englishAfter: user.data.englishWords.length,
+    japaneseBefore: previous.japaneseSentences.length,
+    japaneseAfter: user.data.japaneseSentences.length
+  })
+  await persistDatabase()
+  response.json({
+    ok: true,
+    englishCount: user.data.englishWords.length,
+    japaneseCount: user.data.japaneseSentences.length
+  })
+})
+
+app.get('/api/news/headlines', requireAuth, async (request, response) => {
+  const lang = request.query.lang === 'ja' ? 'ja' : 'en'
+  const source = request.query.source === 'newsapi' ? 'newsapi' : 'rss'
+  const limit = clampNumber(Number(request.query.limit ?? 8), 1, 50)
+  const query = String(request.query.q ?? '').trim()
+
+  try {
+    const items = source === 'newsapi'
+      ? await fetchNewsApiHeadlines(lang, limit, query)
+      : await fetchRssHeadlines(lang, limit, query)
+
+    response.json({ lang, source, query, count: items.length, items })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '無法取得新聞內容'
+    response.status(500).json({ error: message })
+  }
+})
+
+app.get('/api/translate', requireAuth, async (request, response) => {
+  const text = String(request.query.text ?? '').trim()
+  const from = String(request.query.from ?? 'en').trim()
+  const to = String(request.query.to ?? 'zh-TW').trim()
+
+  if (!text) {
+    response.status(400).json({ error: 'text required' })
+    return
+  }
+
+  try {
+    const translatedText = await translateWithMyMemory(text, from, to)
+    response.json({ translatedText })
+  } catch {
+    response.status(500).json({ error: '翻譯失敗' })
+  }
+})
+
+// GET (query string) lets the browser cache the audio by URL; POST remains for long texts.
+app.get('/api/tts', requireAuth, async (request, response) => {
+  await respondWithTts(request, response, request.query)
+})
+
+app.post('/api/tts', requireAuth, async (request, response) => {
+  await respondWithTts(request, response, request.body ?? {})
+})
+
+// One MP3 of a review queue with a chapter per item, for listening offline in a podcast player.
+app.post('/api/user/session-audio', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const options = parseSessionAudioOptions(request.body)
+  const chapters = buildSessionScript(user.data, options, countDailyReviews(user.reviews, startOfLocalDay().getTime()))
+  if (chapters.length === 0) {
+    response.status(404).json({ error: 'no items in this group' })
+    return
+  }
+
+  const synthesize = sessionSynthesizer(user)
+  if (!synthesize) {
+    response.status(503).json({ error: 'no server TTS engine configured' })
+    return
+  }
+
+  const startMs = Date.now()
+  const groupLabel = options.group.replace(/^tag:/, '').replace(/[^\w-]+/g, '-') || 'queue'
+  const date = new Date().toISOString().slice(0, 10)
+  const title = `EchoLingo ${options.itemType === 'english' ? 'English' : '日本語'} · ${options.group} · ${date}`
+
+  try {
+    const rendered = await renderSessionAudio(title, chapters, options.gapMs, synthesize)
+    console.log(`[TTS] ${auth.account} session audio: ${chapters.length} items, ${Math.round(rendered.durationMs / 1000)}s (${Date.now() - startMs}ms)`)
+
+    response.setHeader('Content-Type', 'audio/mpeg')
+    response.setHeader('Content-Disposition', `attachment; filename="echolingo-${options.itemType}-${groupLabel}-${date}.mp3"`)
+    response.setHeader('X-Session-Items', String(chapters.length))
+    response.send(rendered.audio)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error(`[TTS] ${auth.account} session audio failed (${Date.now() - startMs}ms): ${message.slice(0, 300)}`)
+    response.status(502).json({ error: `session audio failed: ${message}` })
+  }
+})
+
+app.get('/api/user/feed', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  response.json({
+    enabled: user.podcastFeed !== null,
+    createdAt: user.podcastFeed?.createdAt ?? null,
+    utcOffsetMinutes: user.podcastFeed?.utcOffsetMinutes ?? null,
+    episodes: user.podcastFeed ? await feedEpisodes.list(user.account) : []
+  })
+})
+
+// `utcOffset` (minutes, east positive) keeps the feed's idea of the learner's day current, e.g. across DST.
+app.patch('/api/user/feed', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user?.podcastFeed) {
+    response.status(404).json({ error: 'feed not found' })
+    return
+  }
+
+  user.podcastFeed.utcOffsetMinutes = parseUtcOffset(request.body?.utcOffset)
+  await persistDatabase()
+  response.json({ ok: true })
+})
+
+// Creates the feed, or replaces its token so the old URL stops working. The URL is only shown now.
+app.post('/api/user/feed', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  const token = createToken()
+  user.podcastFeed = {
+    tokenHash: hashToken(token),
+    createdAt: new Date().toISOString(),
+    utcOffsetMinutes: parseUtcOffset(request.body?.utcOffset)
+  }
+  await persistDatabase()
+  void ensureTodayEpisode(user.account)
+  response.json({ path: `/api/feeds/${token}/review.xml` })
+})
+
+app.delete('/api/user/feed', requireAuth, async (request, response) => {
+  const auth = (request as AuthRequest).auth!
+  const user = database.users[auth.account]
+  if (!user) {
+    response.status(404).json({ error: 'user not found' })
+    return
+  }
+
+  user.podcastFeed = null
+  await persistDatabase()
+  await feedEpisodes.remove(user.account)
+  response.json({ ok: true })
+})
+
+// Podcast apps cannot sign in, so the token in the path is the only credential.
+app.get('/api/feeds/:token/review.xml', async (request, response) => {
+  const user = findFeedUser(String(request.params.token))
+  if (!user) {
+    response.status(404).json({ error: 'feed not found' })
+    return
+  }
+
+  // Today's episode shows up on a later poll once it is rendered.
+  void ensureTodayEpisode(user.account)
+  const feedUrl = `${request.protocol}://${request.get('host')}${request.originalUrl.split('?')[0]}`
+  response.setHeader('Content-Type', 'application/rss+xml; charset=utf-8')
+  response.setHeader('Cache-Control', 'no-cache')
+  response.send(buildFeedXml({
+    title: `EchoLingo 每日複習 · ${user.name}`,
+    description: '每天的英文單字與日文句子待複習項目，依個人朗讀模板產生。',
+    feedUrl,
+    episodes: await feedEpisodes.list(user.account)
+  }))
+})
+
+app.get('/api/feeds/:token/episodes/:fileName', async (request, response) => {
+  const user = findFeedUser(String(request.params.token))
+  const date = String(request.params.fileName).replace(/\.mp3$/, '')
+  if (!user || !isEpisodeDate(date) || !(await feedEpisodes.has(user.account, date))) {
+    response.status(404).json({ error: 'episode not found' })
+    return
+  }
+
+  // sendFile answers the range requests podcast apps use to resume downloads.
+  response.sendFile(feedEpisodes.audioPath(user.account, date), { headers: { 'Content-Type': 'audio/mpeg' } })
+})
+
+app.use((error: unknown, _request: Request, response: Response, _next: NextFunction) => {
+  const message = error instanceof Error ? error.message : 'internal error'
+  response.status(500).json({ error: message })
+})
+
+app.listen(port, () => {
+  console.log(`EchoLingo Lab API listening on http://localhost:${port}`)
+})
+
+function requireAuth(request: Request, response: Response, next: NextFunction): void {
+  const token = readBearerToken(request)
+  if (!token) {
+    response.status(401).json({ error: 'missing token' })
+    return
+  }
+
+  const session = findSession('accessTokenHash', hashToken(token))
+  if (!session) {
+    response.status(401).json({ error: 'invalid session' })
+    return
+  }
+
+  const now = Date.now()
+  if (session.expiresAt <= now) {
+    delete database.sessions[session.id]
+    void persistDatabase()
+    response.status(401).json({ error: 'session expired' })
+    return
+  }
+  // The client answers this one with POST /api/auth/refresh.
+  if (session.accessExpiresAt <= now) {
+    response.status(401).json({ error: 'token expired' })
+    return
+  }
+  const user = database.users[session.account]
+  if (!user) {
+    delete database.sessions[session.id]
+    void persistDatabase()
+    response.status(401).json({ error: 'user not found' })
+    return
+  }
+  if (!user.active) {
+    delete database.sessions[session.id]
+    void persistDatabase()
+    response.status(403).json({ error: 'account disabled' })
+    return
+  }
+
+  if (user.mustChangePassword && !PASSWORD_CHANGE_ALLOWED_PATHS.has(request.path)) {
+    response.status(403).json({ error: 'password change required' })
+    return
+  }
+
+  if (now - Date.parse(session.lastSeenAt) >= SESSION_TOUCH_INTERVAL_MS) {
+    Object.assign(session, readClientInfo(request), { lastSeenAt: new Date(now).toISOString() })
+    void persistDatabase()
+  }
+
+  ;(request as AuthRequest).auth = { account: session.account, role: user.role, sessionId: session.id }
+  next()
+}
+
+function requirePermission(permission: Permission) {
+  return (request: Request, response: Response, next: NextFunction): void => {
+    const auth = (request as AuthRequest).auth
+    if (!auth || !hasPermission(auth.role, permission)) {
+      response.status(403).json({ error: 'permission denied' })
+      return
+    }
+
+    next()
+  }
+}
+
+function findOwnDeck(request: Request, response: Response): DeckRecord | null {
+  const auth = (request as AuthRequest).auth!
+  const deck = database.decks[String(request.params.id ?? '')]
+  if (!deck || deck.owner !== auth.account) {
+    response.status(404).json({ error: 'deck not found' })
+    return null
+  }
+  return deck
+}
+
+/** Reads the editable deck fields present in a request body. */
+function readDeckFields(raw: unknown): Partial<Pick<DeckRecord, 'name' | 'description' | 'tags' | 'itemTypes'>> | { error: string } {
+  const body = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const fields: Partial<Pick<DeckRecord, 'name' | 'description' | 'tags' | 'itemTypes'>> = {}
+
+  if (body.name !== undefined) {
+    fields.name = String(body.name).trim()
+    if (!fields.name || fields.name.length > 60) return { error: '牌組名稱需為 1-60 字' }
+  }
+  if (body.description !== undefined) fields.description = String(body.description).trim().slice(0, 500)
+  if (body.tags !== undefined) {
+    fields.tags = sanitizeTags(body.tags)
+    if (fields.tags.length === 0) return { error: '牌組至少需要一個標籤' }
+  }
+  if (body.itemTypes !== undefined) {
+    const requested = Array.isArray(body.itemTypes) ? body.itemTypes : []
+    fields.itemTypes = DECK_ITEM_TYPES.filter((type) => requested.includes(type))
+    if (fields.itemTypes.length === 0) return { error: '請至少選擇英文或日文' }
+  }
+
+  return fields
+}
+
+// Called wherever a user's own items change, so their published decks never wait for another publish.
+function refreshOwnedDecks(owner: UserRecord, now: string, visited = new Set<string>()): void {
+  visited.add(owner.account)
+  for (const deck of Object.values(database.decks)) {
+    if (deck.owner !== owner.account || !deck.published) continue
+    refreshDeck(deck, owner, database.users, now)
+    passOnDeliveries(deck, now, visited)
+  }
+}
+
+// Delivered copies are the subscribers' own items, so decks the subscribers publish follow them as well.
+// `visited` keeps subscriptions that loop back to an owner from going round forever.
+function passOnDeliveries(deck: DeckRecord, now: string, visited = new Set([deck.owner])): void {
+  for (const account of Object.keys(deck.subscribers)) {
+    const subscriber = database.users[account]
+    if (subscriber && !visited.has(account)) refreshOwnedDecks(subscriber, now, visited)
+  }
+}
+
+function summarizeDeck(deck: DeckRecord, account: string) {
+  return {
+    id: deck.id,
+    name: deck.name,
+    description: deck.description,
+    owner: deck.owner,
+    ownerName: database.users[deck.owner]?.name ?? deck.owner,
+    tags: deck.tags,
+    itemTypes: deck.itemTypes,
+    published: deck.published,
+    version: deck.version,
+    entryCount: deck.entries.length,
+    subscriberCount: Object.keys(deck.subscribers).length,
+    mine: deck.owner === account,
+    subscribed: Boolean(deck.subscribers[account]),
+    updatedAt: deck.updatedAt
+  }
+}
+
+/** Admins reach every student; teachers only those assigned to them. */
+function canReachStudent(auth: NonNullable<AuthRequest['auth']>, user: UserRecord): boolean {
+  if (user.role !== 'user') return false
+  return auth.role === 'admin' || user.teacher === auth.account
+}
+
+function summarizeStudentProgress(user: UserRecord, now: number) {
+  const items = [...user.data.englishWords, ...user.data.japaneseSentences]
+  const recent = user.reviews.filter((event) => now - Date.parse(event.reviewedAt) <= STUDENT_PROGRESS_WINDOW_MS)
+  const lastReviewedAt = user.reviews.reduce<string | null>((latest, event) => (!latest || event.reviewedAt > latest ? event.reviewedAt : latest), null)
+
+  return {
+    account: user.account,
+    name: user.name,
+    teacher: user.teacher,
+    englishCount: user.data.englishWords.length,
+    japaneseCount: user.data.japaneseSentences.length,
+    dueCount: items.filter((item) => isSrsDue(item, now)).length,
+    learnedCount: items.filter((item) => item.lastReviewedAt !== null).length,
+    reviewsLast7Days: recent.length,
+    accuracyLast7Days: recent.length > 0 ? recent.filter((event) => event.grade !== 'again').length / recent.length : null,
+    lastReviewedAt
+  }
+}
+
+function readBearerToken(request: Request): string | null {
+  const header = request.headers.authorization
+  if (!header || !header.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function findSession(field: 'accessTokenHash' | 'refreshTokenHash', hash: string): SessionRecord | undefined {
+  return Object.values(database.sessions).find((session) => session[field] === hash)
+}
+
+function recordAudit(request: Request, action: AuditAction, target: string, summary: string, details: AuditEntry['details'] = {}): void {
+  const auth = (request as AuthRequest).auth
+  appendAuditEntry(database.auditLog, { actor: auth?.account ?? '', action, target, ip: request.ip ?? '', summary, details })
+}
+
+function readClientInfo(request: Request): { userAgent: string; ip: string } {
+  return {
+    userAgent: String(request.headers['user-agent'] ?? '').slice(0, 300),
+    ip: request.ip ?? ''
+  }
+}
+
+function issueSession(account: string, request: Request): { token: string; refreshToken: string } {
+  const now = new Date().toISOString()
+  const session: SessionRecord = {
+    id: crypto.randomUUID(),
+    account,
+    accessTokenHash: '',
+    accessExpiresAt: 0,
+    refreshTokenHash: '',
+    expiresAt: 0,
+    createdAt: now,
+    lastSeenAt: now,
+    ...readClientInfo(request)
+  }
+  database.sessions[session.id] = session
+
+  // Oldest devices are signed out first once an account has too many.
+  const owned = Object.values(database.sessions)
+    .filter((item) => item.account === account)
+    .sort((a, b) => Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt))
+  for (const stale of owned.slice(MAX_SESSIONS_PER_USER)) delete database.sessions[stale.id]
+
+  return rotateSessionTokens(session, request)
+}
 
-  user.data = sanitizeUserData({
-    ...(rawData as Record<string, unknown>),
-    updatedAt: new Date().toISOString()
-  })
-  user.updatedAt = new Date().toISOString()
+function rotateSessionTokens(session: SessionRecord, request: Request): { token: string; refreshToken: string } {
+  const token = createToken()
+  const refreshToken = createToken()
+  const now = Date.now()
 
-  await persistDatabase()
-  response.json({
-    ok: true,
-    englishCount: user.data.englishWords.length,
-    japaneseCount: user.data.japaneseSentences.length
+  Object.assign(session, readClientInfo(request), {
+    accessTokenHash: hashToken(token),
+    accessExpiresAt: now + ACCESS_TOKEN_TTL_MS,
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: now + SESSION_TTL_MS,
+    lastSeenAt: new Date(now).toISOString()
   })
-})
-
-app.get('/api/news/headlines', requireAuth, async (request, response) => {
-  const lang = request.query.lang === 'ja' ? 'ja' : 'en'
-  const source = request.query.source === 'newsapi' ? 'newsapi' : 'rss'
-  const limit = clampNumber(Number(request.query.limit ?? 8), 1, 50)
-  const query = String(request.query.q ?? '').trim()
 
-  try {
-    const items = source === 'newsapi'
-      ? await fetchNewsApiHeadlines(lang, limit, query)
-      : await fetchRssHeadlines(lang, limit, query)
+  return { token, refreshToken }
+}
 
-    response.json({ lang, source, query, count: items.length, items })
-  } catch (error) {
-    const message = error instanceof Error ? error.message : '無法取得新聞內容'
-    response.status(500).json({ error: message })
+/** Removes expired sessions; returns whether anything was removed. */
+function pruneSessions(): boolean {
+  const now = Date.now()
+  let removed = false
+  for (const session of Object.values(database.sessions)) {
+    if (session.expiresAt > now) continue
+    delete database.sessions[session.id]
+    removed = true
   }
-})
-
-app.get('/api/translate', requireAuth, async (request, response) => {
-  const text = String(request.query.text ?? '').trim()
-  const from = String(request.query.from ?? 'en').trim()
-  const to = String(request.query.to ?? 'zh-TW').trim()
+  return removed
+}
 
-  if (!text) {
-    response.status(400).json({ error: 'text required' })
-    return
+function revokeSessions(account: string, keepSessionId: string | null): number {
+  let revoked = 0
+  for (const session of Object.values(database.sessions)) {
+    if (session.account !== account || session.id === keepSessionId) continue
+    delete database.sessions[session.id]
+    revoked += 1
   }
+  return revoked
+}
 
-  try {
-    const translatedText = await translateWithMyMemory(text, from, to)
-    response.json({ translatedText })
-  } catch {
-    response.status(500).json({ error: '翻譯失敗' })
-  }
-})
+function createToken(): string {
+  return crypto.randomBytes(24).toString('hex')
+}
 
-app.post('/api/tts', requireAuth, async (request, response) => {
-  const text = String(request.body?.text ?? '').trim()
-  const voice = String(request.body?.voice ?? 'alloy').trim() || 'alloy'
-  const speed = clampNumber(Number(request.body?.speed ?? 1), 0.5, 1.5)
+async function respondWithTts(request: Request, response: Response, input: Record<string, unknown>): Promise<void> {
+  const text = String(input.text ?? '').trim()
+  const engine = SERVER_TTS_ENGINES.find((item) => item === input.engine) ?? 'openai'
+  const lang = toTtsLangBucket(input.lang)
+  const speed = clampNumber(Number(input.speed ?? 1), 0.5, 1.5)
   const account = (request as AuthRequest).auth?.account ?? '?'
   const startMs = Date.now()
+  // Errors must not be cached like audio.
+  const fail = (status: number, error: string) => {
+    response.removeHeader('ETag')
+    response.setHeader('Cache-Control', 'no-store')
+    response.status(status).json({ error })
+  }
 
   if (!text) {
     console.warn(`[TTS] ${account} → 400 text required`)
-    response.status(400).json({ error: 'text required' })
+    fail(400, 'text required')
     return
   }
 
-  if (!OPENAI_API_KEY) {
-    console.warn(`[TTS] ${account} → 503 OPENAI_API_KEY not configured`)
-    response.status(503).json({ error: 'OPENAI_API_KEY not configured' })
+  const provider = ttsProviders[engine]
+  if (!provider) {
+    console.warn(`[TTS] ${account} → 503 ${engine} not configured`)
+    fail(503, engine === 'openai' ? 'OPENAI_API_KEY not configured' : `${engine} TTS not configured`)
     return
   }
 
-  const preview = text.length > 60 ? text.slice(0, 60) + '…' : text
-  console.log(`[TTS] ${account} request: voice=${voice} speed=${speed} len=${text.length} "${preview}"`)
+  const voice = provider.resolveVoice({ voice: String(input.voice ?? 'alloy').trim() || 'alloy', lang })
+  const cacheKey = ttsCacheKey({ model: provider.cacheTag, voice, speed, text })
+  // The key covers everything that shapes the audio, so a cached copy never goes stale.
+  response.setHeader('ETag', `"${cacheKey}"`)
+  response.setHeader('Cache-Control', 'private, max-age=31536000, immutable')
+  if (request.get('If-None-Match') === `"${cacheKey}"`) {
+    response.status(304).end()
+    return
+  }
 
   try {
-    const ttsResponse = await fetch('https://api.openai.com/v1/audio/speech', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: OPENAI_TTS_MODEL,
-        voice,
-        speed,
-        input: text
-      })
-    })
-
-    if (!ttsResponse.ok) {
-      const message = await ttsResponse.text()
-      const elapsed = Date.now() - startMs
-      console.error(`[TTS] ${account} → OpenAI ${ttsResponse.status} (${elapsed}ms): ${message.slice(0, 300)}`)
-      response.status(500).json({ error: `openai tts failed: ${message}` })
-      return
-    }
-
-    const arrayBuffer = await ttsResponse.arrayBuffer()
-    const elapsed = Date.now() - startMs
-    const sizeKb = Math.round(arrayBuffer.byteLength / 1024)
-    console.log(`[TTS] ${account} → 200 OK (${elapsed}ms, ${sizeKb}KB)`)
-    response.setHeader('Content-Type', 'audio/mpeg')
-    response.send(Buffer.from(arrayBuffer))
+    const result = await synthesizeWithCache(provider, { text, voice, speed, lang }, account)
+    response.setHeader('Content-Type', result.contentType)
+    response.setHeader('X-TTS-Cache', result.cached ? 'hit' : 'miss')
+    response.send(result.audio)
   } catch (err) {
     const elapsed = Date.now() - startMs
-    console.error(`[TTS] ${account} → exception (${elapsed}ms):`, err)
-    response.status(500).json({ error: 'openai tts request failed' })
+    const message = err instanceof Error ? err.message : String(err)
+    console.error(`[TTS] ${account} → ${engine} failed (${elapsed}ms): ${message.slice(0, 300)}`)
+    fail(500, `${provider.label} failed: ${message}`)
   }
-})
+}
 
-app.use((error: unknown, _request: Request, response: Response, _next: NextFunction) => {
-  const message = error instanceof Error ? error.message : 'internal error'
-  response.status(500).json({ error: message })
-})
+/** Audio for `request` from the disk cache, or synthesized by `provider` and then cached. */
+async function synthesizeWithCache(provider: TtsProvider, request: TtsRequest, account: string): Promise<TtsAudio & { cached: boolean }> {
+  const cacheKey = ttsCacheKey({ model: provider.cacheTag, voice: request.voice, speed: request.speed, text: request.text })
+  const cached = await ttsCache.get(cacheKey)
+  if (cached) return { ...cached, cached: true }
 
-app.listen(port, () => {
-  console.log(`EchoLingo Lab API listening on http://localhost:${port}`)
-})
+  const startMs = Date.now()
+  const preview = request.text.length > 60 ? request.text.slice(0, 60) + '…' : request.text
+  console.log(`[TTS] ${account} request: engine=${provider.engine} voice=${request.voice} speed=${request.speed} len=${request.text.length} "${preview}"`)
+  const result = await provider.synthesize(request)
+  console.log(`[TTS] ${account} → 200 OK ${provider.engine} (${Date.now() - startMs}ms, ${Math.round(result.audio.length / 1024)}KB)`)
+  await ttsCache.put(cacheKey, result).catch((err) => console.error('[TTS] cache write failed:', err))
+  return { ...result, cached: false }
+}
 
-function requireAuth(request: Request, response: Response, next: NextFunction): void {
-  const token = readBearerToken(request)
-  if (!token) {
-    response.status(401).json({ error: 'missing token' })
-    return
-  }
+/**
+ * The engine a rendered session uses for one language: the user's own choice when it runs on the server,
+ * otherwise the first configured one (MP3 engines first, since only MP3 clips can be joined).
+ */
+function sessionProviderFor(settings: SpeechSettings, lang: TtsLangBucket): TtsProvider | null {
+  const chosen = settings.engines[lang]
+  if (chosen !== 'browser' && ttsProviders[chosen]) return ttsProviders[chosen]
+  return ttsProviders.openai ?? ttsProviders.http ?? ttsProviders.local ?? null
+}
 
-  const session = sessions.get(token)
-  if (!session) {
-    response.status(401).json({ error: 'invalid session' })
-    return
-  }
+/** Speaks session parts with the user's voice and rates; null when the server has no TTS engine at all. */
+function sessionSynthesizer(user: UserRecord): ((text: string, lang: TtsLangBucket) => Promise<TtsAudio>) | null {
+  const settings = user.data.speechSettings
+  if (!sessionProviderFor(settings, 'en')) return null
 
-  if (session.expiresAt <= Date.now()) {
-    sessions.delete(token)
-    response.status(401).json({ error: 'session expired' })
-    return
-  }
-  const user = database.users[session.account]
-  if (!user) {
-    sessions.delete(token)
-    response.status(401).json({ error: 'user not found' })
-    return
-  }
-  if (!user.active) {
-    sessions.delete(token)
-    response.status(403).json({ error: 'account disabled' })
-    return
+  return (text, lang) => {
+    const provider = sessionProviderFor(settings, lang)!
+    const voice = provider.resolveVoice({ voice: settings.openAiVoice, lang })
+    const speed = clampNumber(settings.rates[lang], 0.5, 1.5)
+    return synthesizeWithCache(provider, { text, voice, speed, lang }, user.account)
   }
+}
 
-  session.expiresAt = Date.now() + SESSION_TTL_MS
-  sessions.set(token, session)
-  ;(request as AuthRequest).auth = { account: session.account, role: session.role }
-  next()
+function findFeedUser(token: string): UserRecord | undefined {
+  const hash = hashToken(token)
+  return Object.values(database.users).find((user) => user.active && user.podcastFeed?.tokenHash === hash)
 }
 
-function requireAdmin(request: Request, response: Response, next: NextFunction): void {
-  const auth = (request as AuthRequest).auth
-  if (!auth || auth.role !== 'admin') {
-    response.status(403).json({ error: 'admin only' })
-    return
-  }
+function ensureTodayEpisode(account: string): Promise<void> {
+  const running = episodeRenders.get(account)
+  if (running) return running
 
-  next()
+  const job = renderTodayEpisode(account)
+    .catch((err) => console.error(`[Feed] ${account} episode failed: ${err instanceof Error ? err.message : String(err)}`))
+    .finally(() => episodeRenders.delete(account))
+  episodeRenders.set(account, job)
+  return job
 }
 
-function readBearerToken(request: Request): string | null {
-  const header = request.headers.authorization
-  if (!header || !header.startsWith('Bearer ')) return null
-  return header.slice('Bearer '.length).trim() || null
-}
+/**
+ * One episode per learner's day of the due queue at render time, within the daily limits; days with nothing
+ * due have none.
+ */
+async function renderTodayEpisode(account: string): Promise<void> {
+  const user = database.users[account]
+  if (!user?.podcastFeed) return
+  const offsetMs = user.podcastFeed.utcOffsetMinutes * 60 * 1000
+  const date = new Date(Date.now() + offsetMs).toISOString().slice(0, 10)
+  if (await feedEpisodes.has(account, date)) return
+
+  const done = countDailyReviews(user.reviews, Date.parse(`${date}T00:00:00Z`) - offsetMs)
+  const scriptFor = (itemType: 'english' | 'japanese'): SessionChapter[] =>
+    buildSessionScript(user.data, { itemType, group: 'due', limit: MAX_SESSION_ITEMS, gapMs: DEFAULT_SESSION_GAP_MS }, done)
+  const english = scriptFor('english')
+  const japanese = scriptFor('japanese')
+  const chapters = [...english, ...japanese]
+  if (chapters.length === 0) return
+
+  const synthesize = sessionSynthesizer(user)
+  if (!synthesize) throw new Error('no server TTS engine configured')
 
-function pruneSessions(): void {
-  const now = Date.now()
-  for (const [token, session] of sessions.entries()) {
-    if (session.expiresAt <= now) sessions.delete(token)
-  }
+  const startMs = Date.now()
+  const rendered = await renderSessionAudio(`EchoLingo ${date} 今日複習`, chapters, DEFAULT_SESSION_GAP_MS, synthesize)
+  await feedEpisodes.write(account, {
+    date,
+    publishedAt: new Date().toISOString(),
+    bytes: rendered.audio.length,
+    durationMs: Math.round(rendered.durationMs),
+    englishCount: english.length,
+    japaneseCount: japanese.length,
+    titles: chapters.map((chapter) => chapter.title)
+  }, rendered.audio)
+  console.log(`[Feed] ${account} episode ${date}: ${chapters.length} items, ${Math.round(rendered.durationMs / 1000)}s (${Date.now() - startMs}ms)`)
 }
 
-function createToken(): string {
-  return crypto.randomBytes(24).toString('hex')
+async function renderFeedEpisodes(): Promise<void> {
+  for (const user of Object.values(database.users)) {
+    if (user.podcastFeed && user.active) await ensureTodayEpisode(user.account)
+  }
 }
 
-function getProviderStatus(): { tts: { browser: boolean; openai: boolean }; news: { rss: boolean; newsapi: boolean } } {
+function getProviderStatus(): { tts: Record<TtsEngine, boolean>; news: { rss: boolean; newsapi: boolean } } {
   return {
     tts: {
       browser: true,
-      openai: Boolean(OPENAI_API_KEY)
+      openai: Boolean(ttsProviders.openai),
+      local: Boolean(ttsProviders.local),
+      http: Boolean(ttsProviders.http)
     },
     news: {
       rss: true,
@@ -855,22 +1960,20 @@ async function translateWithMyMemory(text: string, from: string, to: string): Pr
 }
 
 async function initDatabase(): Promise<AppDatabase> {
-  await fs.mkdir(DATA_DIR, { recursive: true })
   await fs.mkdir(BACKUP_DIR, { recursive: true })
 
-  try {
-    const raw = await fs.readFile(DB_PATH, 'utf8')
-    const parsed = JSON.parse(raw) as unknown
-    const normalized = normalizeDatabase(parsed)
-    await fs.writeFile(DB_PATH, JSON.stringify(normalized, null, 2), 'utf8')
-    await ensureDailyBackup(false, normalized)
-    return normalized
-  } catch {
-    const fresh = createDefaultDatabase()
-    await fs.writeFile(DB_PATH, JSON.stringify(fresh, null, 2), 'utf8')
-    await ensureDailyBackup(false, fresh)
-    return fresh
+  const stored = await storage.load()
+  let initial: AppDatabase | null = stored === null ? null : normalizeDatabase(stored)
+
+  // First start on SQLite: carry over an existing app-db.json.
+  if (!initial && storage.kind === 'sqlite') {
+    initial = await importJsonDatabase(storage, DATA_DIR, normalizeDatabase)
   }
+  initial ??= createDefaultDatabase()
+
+  await storage.save(initial)
+  await ensureDailyBackup(false, initial)
+  return initial
 }
 
 function createDefaultDatabase(): AppDatabase {
@@ -878,20 +1981,29 @@ function createDefaultDatabase(): AppDatabase {
 
   return {
     meta: {
-      lastBackupDate: null
+      lastBackupDate: null,
+      backupRetention: INITIAL_BACKUP_RETENTION,
+      lastBackupUpload: null
     },
     users: {
       admin: {
         account: 'admin',
         password: 'admin',
+        mustChangePassword: true,
         active: true,
         role: 'admin',
+        teacher: null,
         name: 'System Admin',
         createdAt: now,
         updatedAt: now,
-        data: createInitialUserData()
+        data: createInitialUserData(),
+        reviews: [],
+        podcastFeed: null
       }
-    }
+    },
+    sessions: {},
+    decks: {},
+    auditLog: []
   }
 }
 
@@ -899,7 +2011,7 @@ function normalizeDatabase(raw: unknown): AppDatabase {
   const fallback = createDefaultDatabase()
   if (!raw || typeof raw !== 'object') return fallback
 
-  const source = raw as { meta?: { lastBackupDate?: unknown }; users?: unknown }
+  const source = raw as { meta?: { lastBackupDate?: unknown; backupRetention?: unknown; lastBackupUpload?: unknown }; users?: unknown; sessions?: unknown; decks?: unknown; auditLog?: unknown }
   const users: Record<string, UserRecord> = {}
 
   if (source.users && typeof source.users === 'object') {
@@ -911,9 +2023,10 @@ function normalizeDatabase(raw: unknown): AppDatabase {
       if (!account) continue
       if (account.startsWith('user-')) continue
 
-      const role: UserRole = rawUser.role === 'admin' ? 'admin' : 'user'
+      const role: UserRole = parseUserRole(rawUser.role)
       const now = new Date().toISOString()
-      const password = String(rawUser.password ?? getDefaultPasswordByAccount(account)).trim() || getDefaultPasswordByAccount(account)
+      const storedPassword = String(rawUser.password ?? '').trim()
+      const password = storedPassword || getDefaultPasswordByAccount(account)
 
       let data = sanitizeUserData(rawUser.data)
       if (isFakeSeedData(data)) {
@@ -923,23 +2036,58 @@ function normalizeDatabase(raw: unknown): AppDatabase {
       users[account] = {
         account,
         password,
+        mustChangePassword: rawUser.mustChangePassword === true || !storedPassword,
         active: rawUser.active === false ? false : true,
         role,
+        teacher: typeof rawUser.teacher === 'string' && rawUser.teacher.trim() ? rawUser.teacher.trim() : null,
         name: String(rawUser.name ?? account).trim() || account,
         createdAt: parseIsoOr(rawUser.createdAt, now),
         updatedAt: parseIsoOr(rawUser.updatedAt, now),
-        data
+        data,
+        reviews: Array.isArray(rawUser.reviews)
+          ? rawUser.reviews.map((item) => sanitizeReviewEvent(item)).filter((item): item is ReviewEvent => item !== null)
+          : [],
+        podcastFeed: sanitizePodcastFeed(rawUser.podcastFeed)
       }
     }
   }
 
   ensureDefaultAdmin(users, fallback)
 
+  // Only plain users can be students, and only of an existing teacher.
+  for (const user of Object.values(users)) {
+    if (user.teacher && (user.role !== 'user' || users[user.teacher]?.role !== 'teacher')) user.teacher = null
+  }
+
+  const sessions: Record<string, SessionRecord> = {}
+  if (source.sessions && typeof source.sessions === 'object') {
+    for (const value of Object.values(source.sessions as Record<string, unknown>)) {
+      const session = sanitizeSession(value)
+      if (session && users[session.account]) sessions[session.id] = session
+    }
+  }
+
+  const decks: Record<string, DeckRecord> = {}
+  if (source.decks && typeof source.decks === 'object') {
+    const accounts = new Set(Object.keys(users))
+    for (const value of Object.values(source.decks as Record<string, unknown>)) {
+      const deck = sanitizeDeck(value, accounts)
+      if (deck) decks[deck.id] = deck
+    }
+  }
+
   return {
     meta: {
-      lastBackupDate: typeof source.meta?.lastBackupDate === 'string' ? source.meta.lastBackupDate : null
+      lastBackupDate: typeof source.meta?.lastBackupDate === 'string' ? source.meta.lastBackupDate : null,
+      backupRetention: source.meta?.backupRetention ? sanitizeBackupRetention(source.meta.backupRetention, INITIAL_BACKUP_RETENTION) : INITIAL_BACKUP_RETENTION,
+      lastBackupUpload: sanitizeUploadStatus(source.meta?.lastBackupUpload)
     },
-    users
+    users,
+    sessions,
+    decks,
+    auditLog: Array.isArray(source.auditLog)
+      ? source.auditLog.map((item) => sanitizeAuditEntry(item)).filter((item): item is AuditEntry => item !== null)
+      : []
   }
 }
 
@@ -961,6 +2109,8 @@ function ensureDefaultAdmin(
   admin.role = 'admin'
   admin.active = true
   if (!admin.password.trim()) admin.password = 'admin'
+  // The well-known default password must be replaced before the admin can do anything else.
+  if (!isPasswordHash(admin.password) && admin.password === 'admin') admin.mustChangePassword = true
 }
 
 function isFakeSeedData(data: UserDataRecord): boolean {
@@ -976,8 +2126,8 @@ function createInitialUserData(): UserDataRecord {
     meaningZh: item.meaningZh,
     tags: sanitizeTags(item.tags),
     needsWork: false,
-    level: 0,
-    lastReviewedAt: null
+    ...createSrsState(),
+    ...createSyncMeta()
   }))
 
   const japaneseSentences: JapaneseSentence[] = generateJapaneseSeedSentences(220).map((item, index) => ({
@@ -990,8 +2140,8 @@ function createInitialUserData(): UserDataRecord {
       word: String(vocab.word),
       meaningZh: String(vocab.meaningZh)
     })),
-    level: 0,
-    lastReviewedAt: null
+    ...createSrsState(),
+    ...createSyncMeta()
   }))
 
   return {
@@ -999,13 +2149,17 @@ function createInitialUserData(): UserDataRecord {
     japaneseSentences,
     speechSettings: {
       ...defaultSpeechSettings,
+      engines: { ...defaultSpeechSettings.engines },
       browserVoices: { ...defaultSpeechSettings.browserVoices },
       rates: { ...defaultSpeechSettings.rates },
       pitches: { ...defaultSpeechSettings.pitches },
       browserVolumes: { ...defaultSpeechSettings.browserVolumes },
-      openAiVolumes: { ...defaultSpeechSettings.openAiVolumes }
+      openAiVolumes: { ...defaultSpeechSettings.openAiVolumes },
+      templates: sanitizePlaybackTemplates(defaultSpeechSettings.templates),
+      dailyLimits: sanitizeDailyLimits(defaultSpeechSettings.dailyLimits)
     },
     theme: 'light',
+    settingsRevision: 0,
     updatedAt: now
   }
 }
@@ -1016,6 +2170,7 @@ function sanitizeUserData(raw: unknown): UserDataRecord {
     japaneseSentences?: unknown
     speechSettings?: unknown
     theme?: unknown
+    settingsRevision?: unknown
     updatedAt?: unknown
   }
 
@@ -1034,6 +2189,7 @@ function sanitizeUserData(raw: unknown): UserDataRecord {
     japaneseSentences: japaneseSentences.length > 0 ? japaneseSentences : createInitialUserData().japaneseSentences,
     speechSettings: sanitizeSpeechSettings(source.speechSettings),
     theme: source.theme === 'dark' ? 'dark' : 'light',
+    settingsRevision: Math.max(0, Math.floor(Number(source.settingsRevision ?? 0)) || 0),
     updatedAt: parseIsoOr(source.updatedAt, now)
   }
 }
@@ -1051,8 +2207,8 @@ function sanitizeEnglishWord(raw: unknown, index: number): EnglishWord | null {
     meaningZh: String(source.meaningZh ?? '').trim() || '（未填寫）',
     tags: sanitizeTags(source.tags),
     needsWork: Boolean(source.needsWork),
-    level: clampNumber(Number(source.level ?? 0), 0, 6),
-    lastReviewedAt: typeof source.lastReviewedAt === 'string' ? source.lastReviewedAt : null
+    ...normalizeSrsState(source),
+    ...normalizeSyncMeta(source)
   }
 }
 
@@ -1064,11 +2220,13 @@ function sanitizeJapaneseSentence(raw: unknown, index: number): JapaneseSentence
   if (!sentence) return null
 
   const vocabularyRaw = Array.isArray(source.vocabulary) ? source.vocabulary : []
+  // Clients without a dictionary send romaji that still holds the sentence's kanji; read it properly here.
+  const romaji = String(source.romaji ?? '').trim()
 
   return {
     id: String(source.id ?? `ja-${index}-${crypto.randomUUID()}`),
     sentence,
-    romaji: String(source.romaji ?? '').trim() || sentence,
+    romaji: romaji && !hasKanji(romaji) ? romaji : romajiFor(japaneseReader, sentence),
     meaningZh: String(source.meaningZh ?? '').trim() || '（未填寫）',
     tags: sanitizeTags(source.tags),
     vocabulary: vocabularyRaw
@@ -1081,17 +2239,275 @@ function sanitizeJapaneseSentence(raw: unknown, index: number): JapaneseSentence
         return { word, meaningZh }
       })
       .filter((item): item is { word: string; meaningZh: string } => item !== null),
-    level: clampNumber(Number(source.level ?? 0), 0, 6),
-    lastReviewedAt: typeof source.lastReviewedAt === 'string' ? source.lastReviewedAt : null
+    ...normalizeSrsState(source),
+    ...normalizeSyncMeta(source)
   }
 }
 
+function sanitizeReviewEvent(raw: unknown): ReviewEvent | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+
+  const itemId = String(source.itemId ?? '').trim()
+  const grade = REVIEW_GRADES.find((item) => item === source.grade)
+  if (!itemId || !grade) return null
+
+  return {
+    id: typeof source.id === 'string' && source.id.trim() ? source.id.trim() : crypto.randomUUID(),
+    itemId,
+    itemType: source.itemType === 'japanese' ? 'japanese' : 'english',
+    reviewedAt: parseIsoOr(source.reviewedAt, new Date().toISOString()),
+    grade,
+    mode: REVIEW_MODES.find((item) => item === source.mode) ?? 'manual',
+    durationMs: Math.round(clampNumber(Number(source.durationMs ?? 0), 0, MAX_REVIEW_DURATION_MS)),
+    engine: TTS_ENGINES.find((item) => item === source.engine) ?? 'browser'
+  }
+}
+
+// Marks `id` as seen, so a batch that repeats an event id keeps only its first copy.
+function isNewEventId(knownIds: Set<string>, id: string): boolean {
+  if (knownIds.has(id)) return false
+  knownIds.add(id)
+  return true
+}
+
+function sanitizePodcastFeed(raw: unknown): PodcastFeedRecord | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+  const tokenHash = String(source.tokenHash ?? '')
+  if (!/^[0-9a-f]{64}$/.test(tokenHash)) return null
+  return {
+    tokenHash,
+    createdAt: parseIsoOr(source.createdAt, new Date().toISOString()),
+    utcOffsetMinutes: parseUtcOffset(source.utcOffsetMinutes)
+  }
+}
+
+function sanitizeSession(raw: unknown): SessionRecord | null {
+  if (!raw || typeof raw !== 'object') return null
+  const source = raw as Record<string, unknown>
+
+  const id = String(source.id ?? '').trim()
+  const account = String(source.account ?? '').trim()
+  const accessTokenHash = String(source.accessTokenHash ?? '')
+  const refreshTokenHash = String(source.refreshTokenHash ?? '')
+  const expiresAt = Number(source.expiresAt ?? 0)
+  if (!id || !account || !accessTokenHash || !refreshTokenHash || !(expiresAt > Date.now())) return null
+
+  const now = new Date().toISOString()
+  return {
+    id,
+    account,
+    accessTokenHash,
+    accessExpiresAt: Number(source.accessExpiresAt ?? 0) || 0,
+    refreshTokenHash,
+    expiresAt,
+    createdAt: parseIsoOr(source.createdAt, now),
+    lastSeenAt: parseIsoOr(source.lastSeenAt, now),
+    userAgent: String(source.userAgent ?? '').slice(0, 300),
+    ip: String(source.ip ?? '')
+  }
+}
+
+function sanitizeSyncChanges<T extends { id: string }>(
+  raw: unknown,
+  sanitizeItem: (raw: unknown, index: number) => T | null
+): SyncChanges<T> {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as { upserts?: unknown; deletes?: unknown }
+
+  // Sync writes always address existing ids; the sanitizers would otherwise invent one.
+  const upserts = (Array.isArray(source.upserts) ? source.upserts : [])
+    .filter((item) => item && typeof item === 'object' && typeof (item as { id?: unknown }).id === 'string')
+    .map((item, index) => sanitizeItem(item, index))
+    .filter((item): item is T => item !== null)
+
+  const deletes = (Array.isArray(source.deletes) ? source.deletes : [])
+    .map((item) => {
+      if (!item || typeof item !== 'object') return null
+      const entry = item as Record<string, unknown>
+      const id = String(entry.id ?? '').trim()
+      if (!id) return null
+      return { id, revision: Math.max(0, Math.floor(Number(entry.revision ?? 0)) || 0) }
+    })
+    .filter((item): item is { id: string; revision: number } => item !== null)
+
+  return { upserts, deletes }
+}
+
+function findSyncConflicts<T extends { id: string; revision: number }>(items: T[], changes: SyncChanges<T>): Array<SyncConflict<T>> {
+  const current = new Map(items.map((item) => [item.id, item]))
+  const conflicts: Array<SyncConflict<T>> = []
+
+  for (const item of changes.upserts) {
+    const stored = current.get(item.id)
+    if (stored ? stored.revision !== item.revision : item.revision !== 0) {
+      conflicts.push({ id: item.id, server: stored ?? null })
+    }
+  }
+
+  // Deleting something that is already gone is not a conflict.
+  for (const entry of changes.deletes) {
+    const stored = current.get(entry.id)
+    if (stored && stored.revision !== entry.revision) {
+      conflicts.push({ id: entry.id, server: stored })
+    }
+  }
+
+  return conflicts
+}
+
+function applySyncChanges<T extends { id: string; revision: number; updatedAt: string }>(
+  items: T[],
+  changes: SyncChanges<T>,
+  now: string
+): { items: T[]; saved: T[] } {
+  const current = new Map(items.map((item) => [item.id, item]))
+  const deleted = new Set(changes.deletes.map((entry) => entry.id))
+
+  const saved = changes.upserts.map((item) => ({
+    ...item,
+    revision: (current.get(item.id)?.revision ?? 0) + 1,
+    // Client clocks decide edit order, but never let one claim an edit from the future.
+    updatedAt: item.updatedAt > now ? now : item.updatedAt
+  }))
+  const savedById = new Map(saved.map((item) => [item.id, item]))
+
+  const created = saved.filter((item) => !current.has(item.id))
+  const updated = items
+    .filter((item) => !deleted.has(item.id))
+    .map((item) => savedById.get(item.id) ?? item)
+
+  return { items: [...created, ...updated], saved }
+}
+
+/**
+ * Item-level CRUD for one collection: `POST /:id` creates, `PATCH /:id` applies a partial update based on
+ * `revision`, `DELETE /:id?revision=` removes. Stale revisions get 409 with the stored item.
+ */
+function registerItemRoutes<T extends EnglishWord | JapaneseSentence>(
+  basePath: string,
+  getItems: (data: UserDataRecord) => T[],
+  setItems: (data: UserDataRecord, items: T[]) => void,
+  sanitizeItem: (raw: unknown, index: number) => T | null
+): void {
+  const findUser = (request: Request, response: Response): UserRecord | null => {
+    const auth = (request as AuthRequest).auth!
+    const user = database.users[auth.account]
+    if (!user) response.status(404).json({ error: 'user not found' })
+    return user ?? null
+  }
+
+  const touch = async (user: UserRecord): Promise<void> => {
+    const now = new Date().toISOString()
+    user.data.updatedAt = now
+    user.updatedAt = now
+    refreshOwnedDecks(user, now)
+    await persistDatabase()
+  }
+
+  app.post(`${basePath}/:id`, requireAuth, async (request, response) => {
+    const user = findUser(request, response)
+    if (!user) return
+
+    const id = String(request.params.id)
+    const stored = getItems(user.data).find((item) => item.id === id)
+    if (stored) {
+      response.status(409).json({ error: 'conflict', server: stored })
+      return
+    }
+
+    const body = (request.body && typeof request.body === 'object' ? request.body : {}) as Record<string, unknown>
+    const item = sanitizeItem({ ...body, id, updatedAt: body.updatedAt ?? new Date().toISOString() }, 0)
+    if (!item) {
+      response.status(400).json({ error: 'invalid item' })
+      return
+    }
+
+    const now = new Date().toISOString()
+    const saved = { ...item, revision: 1, updatedAt: item.updatedAt > now ? now : item.updatedAt }
+    setItems(user.data, [saved, ...getItems(user.data)])
+    await touch(user)
+    response.status(201).json({ ok: true, item: saved })
+  })
+
+  app.patch(`${basePath}/:id`, requireAuth, async (request, response) => {
+    const user = findUser(request, response)
+    if (!user) return
+
+    const id = String(request.params.id)
+    const stored = getItems(user.data).find((item) => item.id === id)
+    if (!stored) {
+      response.status(404).json({ error: 'item not found' })
+      return
+    }
+
+    const body = (request.body && typeof request.body === 'object' ? request.body : {}) as Record<string, unknown>
+    if (Number(body.revision) !== stored.revision) {
+      response.status(409).json({ error: 'conflict', server: stored })
+      return
+    }
+
+    const item = sanitizeItem({ ...stored, ...body, id, updatedAt: body.updatedAt ?? new Date().toISOString() }, 0)
+    if (!item) {
+      response.status(400).json({ error: 'invalid item' })
+      return
+    }
+
+    const now = new Date().toISOString()
+    const saved = { ...item, revision: stored.revision + 1, updatedAt: item.updatedAt > now ? now : item.updatedAt }
+    setItems(user.data, getItems(user.data).map((entry) => (entry.id === id ? saved : entry)))
+    await touch(user)
+    response.json({ ok: true, item: saved })
+  })
+
+  app.delete(`${basePath}/:id`, requireAuth, async (request, response) => {
+    const user = findUser(request, response)
+    if (!user) return
+
+    const id = String(request.params.id)
+    const stored = getItems(user.data).find((item) => item.id === id)
+    if (!stored) {
+      response.json({ ok: true })
+      return
+    }
+
+    if (Number(request.query.revision) !== stored.revision) {
+      response.status(409).json({ error: 'conflict', server: stored })
+      return
+    }
+
+    setItems(user.data, getItems(user.data).filter((item) => item.id !== id))
+    await touch(user)
+    response.json({ ok: true })
+  })
+}
+
+/** Replaces a user's data so that the result supersedes whatever other devices last synced. */
+function supersedeUserData(previous: UserDataRecord, next: UserDataRecord, now: string): UserDataRecord {
+  return {
+    ...next,
+    englishWords: bumpRevisions(previous.englishWords, next.englishWords),
+    japaneseSentences: bumpRevisions(previous.japaneseSentences, next.japaneseSentences),
+    settingsRevision: Math.max(previous.settingsRevision, next.settingsRevision) + 1,
+    updatedAt: now
+  }
+}
+
+function bumpRevisions<T extends { id: string; revision: number }>(previous: T[], next: T[]): T[] {
+  const revisions = new Map(previous.map((item) => [item.id, item.revision]))
+  return next.map((item) => ({ ...item, revision: Math.max(item.revision, revisions.get(item.id) ?? 0) + 1 }))
+}
+
 function sanitizeSpeechSettings(raw: unknown): SpeechSettings {
   const source = (raw && typeof raw === 'object' ? raw : {}) as Partial<SpeechSettings>
   const legacyVolumes = (source as unknown as { volumes?: Partial<Record<'en' | 'zh' | 'ja', number>> }).volumes
+  // Settings saved before per-language engines had a single `engine` for every language.
+  const legacyEngine = (source as unknown as { engine?: unknown }).engine
+  const readEngine = (bucket: 'en' | 'zh' | 'ja') =>
+    TTS_ENGINES.find((item) => item === (source.engines?.[bucket] ?? legacyEngine)) ?? 'browser'
 
   return {
-    engine: source.engine === 'openai' ? 'openai' : 'browser',
+    engines: { en: readEngine('en'), zh: readEngine('zh'), ja: readEngine('ja') },
     openAiVoice: typeof source.openAiVoice === 'string' && source.openAiVoice.trim() ? source.openAiVoice.trim() : 'alloy',
     browserVoices: {
       en: typeof source.browserVoices?.en === 'string' ? source.browserVoices.en : '',
@@ -1117,7 +2533,9 @@ function sanitizeSpeechSettings(raw: unknown): SpeechSettings {
       en: clampNumber(Number(source.openAiVolumes?.en ?? legacyVolumes?.en ?? 0.9), 0, 1),
       zh: clampNumber(Number(source.openAiVolumes?.zh ?? legacyVolumes?.zh ?? 0.9), 0, 1),
       ja: clampNumber(Number(source.openAiVolumes?.ja ?? legacyVolumes?.ja ?? 0.9), 0, 1)
-    }
+    },
+    templates: sanitizePlaybackTemplates(source.templates),
+    dailyLimits: sanitizeDailyLimits(source.dailyLimits)
   }
 }
 
@@ -1143,7 +2561,7 @@ function parseIsoOr(value: unknown, fallback: string): string {
 async function persistDatabase(): Promise<void> {
   writeLock = writeLock
     .then(async () => {
-      await fs.writeFile(DB_PATH, JSON.stringify(database, null, 2), 'utf8')
+      await storage.save(database)
     })
     .catch(() => undefined)
 
@@ -1157,20 +2575,94 @@ async function ensureDailyBackup(force: boolean, dbOverride?: AppDatabase): Prom
   const today = new Date().toISOString().slice(0, 10)
   if (!force && targetDb.meta.lastBackupDate === today) return
 
-  const stamp = new Date().toISOString().replaceAll(':', '-').replaceAll('.', '-')
-  const fileName = force ? `db-backup-manual-${stamp}.json` : `db-backup-${today}.json`
+  const fileName = force ? `db-backup-manual-${backupStamp()}${storage.backupExtension}` : `db-backup-${today}${storage.backupExtension}`
   const fullPath = path.join(BACKUP_DIR, fileName)
 
-  await fs.writeFile(fullPath, JSON.stringify(targetDb, null, 2), 'utf8')
+  await storage.backup(targetDb, fullPath)
+  const upload = await uploadBackup(fullPath, fileName)
 
   if (dbOverride) {
     dbOverride.meta.lastBackupDate = today
-    await fs.writeFile(DB_PATH, JSON.stringify(dbOverride, null, 2), 'utf8')
-    return
+    if (upload) dbOverride.meta.lastBackupUpload = upload
+    await storage.save(dbOverride)
+  } else {
+    database.meta.lastBackupDate = today
+    if (upload) database.meta.lastBackupUpload = upload
+    await persistDatabase()
   }
 
-  database.meta.lastBackupDate = today
-  await persistDatabase()
+  await pruneBackups(targetDb.meta.backupRetention)
+}
+
+/** Copies a backup file to the configured target; null when there is none. Failures are reported, not thrown. */
+async function uploadBackup(fullPath: string, fileName: string): Promise<BackupUploadStatus | null> {
+  if (!backupTarget) return null
+
+  const startedAt = Date.now()
+  const status = { fileName, storedAs: fileName, target: `${backupTarget.kind}: ${backupTarget.location}`, bytes: 0 }
+  try {
+    const encoded = await encodeBackup(fileName, await fs.readFile(fullPath), BACKUP_ENCODING)
+    status.storedAs = encoded.fileName
+    status.bytes = encoded.body.length
+    await backupTarget.upload(encoded.fileName, encoded.body)
+    console.log(`[Backup] uploaded ${encoded.fileName} to ${backupTarget.kind} (${Math.round(encoded.body.length / 1024)}KB)`)
+    return { ...status, at: new Date().toISOString(), ok: true, error: null, durationMs: Date.now() - startedAt }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error(`[Backup] upload of ${fileName} to ${backupTarget.kind} failed: ${message}`)
+    return { ...status, at: new Date().toISOString(), ok: false, error: message.slice(0, 300), durationMs: Date.now() - startedAt }
+  }
+}
+
+async function writeRestorePoint(): Promise<string> {
+  await fs.mkdir(BACKUP_DIR, { recursive: true })
+  const fileName = `db-backup-restore-${backupStamp()}${storage.backupExtension}`
+  await storage.backup(database, path.join(BACKUP_DIR, fileName))
+  return fileName
+}
+
+function backupStamp(): string {
+  return new Date().toISOString().replaceAll(':', '-').replaceAll('.', '-')
+}
+
+async function listBackupFiles(): Promise<BackupFileInfo[]> {
+  await fs.mkdir(BACKUP_DIR, { recursive: true })
+  const entries = await fs.readdir(BACKUP_DIR, { withFileTypes: true })
+
+  const files = await Promise.all(
+    entries
+      .filter((entry) => entry.isFile() && /\.(json|sqlite)$/.test(entry.name))
+      .map(async (entry) => {
+        const stats = await fs.stat(path.join(BACKUP_DIR, entry.name))
+        return {
+          fileName: entry.name,
+          size: stats.size,
+          mtime: stats.mtime.toISOString()
+        }
+      })
+  )
+
+  return files.sort((a, b) => Date.parse(b.mtime) - Date.parse(a.mtime))
+}
+
+/** Only names this server writes are accepted, so request paths cannot reach outside BACKUP_DIR. */
+async function resolveBackupPath(fileName: string): Promise<string | null> {
+  if (!parseBackupKind(fileName)) return null
+  const fullPath = path.join(BACKUP_DIR, fileName)
+  try {
+    return (await fs.stat(fullPath)).isFile() ? fullPath : null
+  } catch {
+    return null
+  }
+}
+
+async function pruneBackups(policy = database.meta.backupRetention): Promise<string[]> {
+  const pruned = selectBackupsToPrune(await listBackupFiles(), policy)
+  for (const fileName of pruned) {
+    await fs.rm(path.join(BACKUP_DIR, fileName), { force: true })
+  }
+  if (pruned.length > 0) console.log(`[Backup] pruned ${pruned.length} file(s) past the retention policy`)
+  return pruned
 }
 
 function clampNumber(value: number, min: number, max: number): number {
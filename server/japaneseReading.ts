@@ -0,0 +1,46 @@
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import kuromoji from 'kuromoji'
+import { toHiragana, toRomaji } from 'wanakana'
+
+// Kana readings for Japanese sentences. Romaji converted straight from a sentence keeps its kanji, which
+// leaves dictation nothing to check a kana answer against, so readings come from a morphological analyzer.
+
+export type JapaneseReader = {
+  /** Hiragana reading; katakana words stay katakana and tokens the dictionary does not know pass through. */
+  reading(sentence: string): string
+}
+
+const KANJI_PATTERN = /[\u3400-\u9fff\uf900-\ufaff\u3005\u3006]/
+
+export function hasKanji(text: string): boolean {
+  return KANJI_PATTERN.test(text)
+}
+
+/** Loads the dictionary shipped with kuromoji; takes a second or two and about 100 MB. */
+export function openJapaneseReader(): Promise<JapaneseReader> {
+  const dicPath = path.join(path.dirname(createRequire(import.meta.url).resolve('kuromoji/package.json')), 'dict')
+
+  return new Promise((resolve, reject) => {
+    kuromoji.builder({ dicPath }).build((error, tokenizer) => {
+      if (error) {
+        reject(error)
+        return
+      }
+      resolve({
+        reading: (sentence) => tokenizer.tokenize(sentence)
+          .map((token) => {
+            if (!token.reading || token.reading === '*') return token.surface_form
+            // Keep katakana loanwords as written so their romaji spells long vowels out.
+            return token.surface_form === token.reading ? token.surface_form : toHiragana(token.reading, { passRomaji: true })
+          })
+          .join('')
+      })
+    })
+  })
+}
+
+/** Romaji for `sentence`, read through `reader` when it contains kanji. */
+export function romajiFor(reader: JapaneseReader | null, sentence: string): string {
+  return toRomaji(reader && hasKanji(sentence) ? reader.reading(sentence) : sentence)
+}
@@ -0,0 +1,191 @@
+// Just enough MPEG audio Layer III handling to join TTS clips into one file without an encoder:
+// frame parsing (for durations), generated silence, and an ID3v2.4 tag with chapter frames.
+
+export type Mp3Format = {
+  // 1 = MPEG-1, 2 = MPEG-2, 2.5 = MPEG-2.5
+  version: 1 | 2 | 2.5
+  sampleRate: number
+  mono: boolean
+}
+
+export type Mp3Clip = {
+  format: Mp3Format
+  // Audio frames only: ID3 tags and Xing/Info header frames are dropped, since they would describe
+  // the single clip rather than the joined file.
+  frames: Buffer
+  durationMs: number
+}
+
+export type Mp3Chapter = {
+  title: string
+  startMs: number
+  endMs: number
+}
+
+const BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+const SAMPLE_RATES: Record<Mp3Format['version'], number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000]
+}
+const VERSION_BITS: Record<Mp3Format['version'], number> = { 1: 0b11, 2: 0b10, 2.5: 0b00 }
+
+type FrameHeader = Mp3Format & { length: number; samples: number; sideInfoOffset: number }
+
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length) return null
+  const header = buffer.readUInt32BE(offset)
+  if ((header >>> 21) !== 0x7ff) return null
+
+  const versionBits = (header >>> 19) & 0b11
+  const layerBits = (header >>> 17) & 0b11
+  const bitrateIndex = (header >>> 12) & 0b1111
+  const sampleRateIndex = (header >>> 10) & 0b11
+  if (versionBits === 0b01 || layerBits !== 0b01 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null
+
+  const version = versionBits === 0b11 ? 1 : versionBits === 0b10 ? 2 : 2.5
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+  const bitrate = (version === 1 ? BITRATES_V1 : BITRATES_V2)[bitrateIndex] * 1000
+  const padding = (header >>> 9) & 1
+  const mono = ((header >>> 6) & 0b11) === 0b11
+  const hasCrc = ((header >>> 16) & 1) === 0
+
+  return {
+    version,
+    sampleRate,
+    mono,
+    length: Math.floor(((version === 1 ? 144 : 72) * bitrate) / sampleRate) + padding,
+    samples: version === 1 ? 1152 : 576,
+    sideInfoOffset: 4 + (hasCrc ? 2 : 0)
+  }
+}
+
+function sideInfoLength(format: Mp3Format): number {
+  if (format.version === 1) return format.mono ? 17 : 32
+  return format.mono ? 9 : 17
+}
+
+function skipId3v2(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0
+  const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f)
+  const hasFooter = (buffer[5] & 0x10) !== 0
+  return 10 + size + (hasFooter ? 10 : 0)
+}
+
+function isInfoFrame(buffer: Buffer, offset: number, header: FrameHeader): boolean {
+  const tagAt = offset + header.sideInfoOffset + sideInfoLength(header)
+  const tag = buffer.toString('latin1', tagAt, tagAt + 4)
+  return tag === 'Xing' || tag === 'Info' || buffer.toString('latin1', offset + 36, offset + 40) === 'VBRI'
+}
+
+/** Splits an MP3 file into its audio frames; throws when it holds none or mixes formats. */
+export function parseMp3(buffer: Buffer): Mp3Clip {
+  const chunks: Buffer[] = []
+  let format: Mp3Format | null = null
+  let samples = 0
+  let offset = skipId3v2(buffer)
+
+  while (offset < buffer.length) {
+    const header = readFrameHeader(buffer, offset)
+    if (!header) {
+      // A trailing ID3v1 tag ends the audio; other garbage is skipped up to the next frame sync.
+      if (buffer.toString('latin1', offset, offset + 3) === 'TAG') break
+      offset += 1
+      continue
+    }
+    if (offset + header.length > buffer.length) break
+
+    if (!format) {
+      format = { version: header.version, sampleRate: header.sampleRate, mono: header.mono }
+      if (isInfoFrame(buffer, offset, header)) {
+        offset += header.length
+        continue
+      }
+    } else if (!isSameFormat(format, header)) {
+      throw new Error('mp3 clip changes format mid-stream')
+    }
+
+    chunks.push(buffer.subarray(offset, offset + header.length))
+    samples += header.samples
+    offset += header.length
+  }
+
+  if (!format || chunks.length === 0) throw new Error('no mp3 audio frames found')
+  return { format, frames: Buffer.concat(chunks), durationMs: (samples / format.sampleRate) * 1000 }
+}
+
+export function isSameFormat(a: Mp3Format, b: Mp3Format): boolean {
+  return a.version === b.version && a.sampleRate === b.sampleRate && a.mono === b.mono
+}
+
+/**
+ * Frames that decode to silence: the lowest bitrate, and all-zero side information so no audio data is
+ * read. Rounded up to whole frames, so the returned duration may be slightly longer than asked for.
+ */
+export function createSilence(format: Mp3Format, ms: number): Mp3Clip {
+  const samplesPerFrame = format.version === 1 ? 1152 : 576
+  const count = Math.ceil((ms / 1000) * format.sampleRate / samplesPerFrame)
+  const sampleRateIndex = SAMPLE_RATES[format.version].indexOf(format.sampleRate)
+
+  const header = (0x7ff << 21)
+    | (VERSION_BITS[format.version] << 19)
+    | (0b01 << 17) // Layer III
+    | (1 << 16) // no CRC
+    | (1 << 12) // lowest bitrate
+    | (sampleRateIndex << 10)
+    | ((format.mono ? 0b11 : 0b00) << 6)
+  const frame = Buffer.alloc(Math.floor(((format.version === 1 ? 144 : 72) * (format.version === 1 ? 32000 : 8000)) / format.sampleRate))
+  frame.writeUInt32BE(header >>> 0, 0)
+
+  return {
+    format,
+    frames: Buffer.concat(Array.from({ length: count }, () => frame)),
+    durationMs: (count * samplesPerFrame / format.sampleRate) * 1000
+  }
+}
+
+/** An ID3v2.4 tag with the file title and one CHAP frame per chapter, listed in order by a CTOC frame. */
+export function buildChapterTag(title: string, chapters: Mp3Chapter[]): Buffer {
+  // CTOC keeps its entry count in one byte.
+  const listed = chapters.slice(0, 255)
+  const ids = listed.map((_chapter, index) => `ch${index}`)
+
+  const frames = [
+    textFrame('TIT2', title),
+    textFrame('TPE1', 'EchoLingo Lab'),
+    id3Frame('CTOC', Buffer.concat([
+      Buffer.from('toc\0', 'latin1'),
+      // top-level, ordered
+      Buffer.from([0x03, listed.length]),
+      ...ids.map((id) => Buffer.from(`${id}\0`, 'latin1'))
+    ])),
+    ...listed.map((chapter, index) => {
+      const times = Buffer.alloc(16, 0xff)
+      times.writeUInt32BE(Math.round(chapter.startMs), 0)
+      times.writeUInt32BE(Math.round(chapter.endMs), 4)
+      return id3Frame('CHAP', Buffer.concat([Buffer.from(`${ids[index]}\0`, 'latin1'), times, textFrame('TIT2', chapter.title)]))
+    })
+  ]
+
+  const body = Buffer.concat(frames)
+  const header = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0])
+  header.set(syncsafe(body.length), 6)
+  return Buffer.concat([header, body])
+}
+
+function textFrame(id: string, text: string): Buffer {
+  // Encoding byte 3 = UTF-8.
+  return id3Frame(id, Buffer.concat([Buffer.from([3]), Buffer.from(text, 'utf8')]))
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10)
+  header.write(id, 0, 'latin1')
+  header.set(syncsafe(body.length), 4)
+  return Buffer.concat([header, body])
+}
+
+function syncsafe(value: number): Buffer {
+  return Buffer.from([(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f])
+}
@@ -0,0 +1,64 @@
+import crypto from 'node:crypto'
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>. Records written before hashing was
+// introduced hold the plaintext password; they are accepted once and rehashed at the next login.
+
+const SCRYPT_PREFIX = 'scrypt'
+const SCRYPT_COST = 16384
+const SCRYPT_BLOCK_SIZE = 8
+const SCRYPT_PARALLELISM = 1
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelism: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_BYTES, { N: cost, r: blockSize, p: parallelism, maxmem: 256 * cost * blockSize }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${SCRYPT_PREFIX}$`)
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM)
+  return [SCRYPT_PREFIX, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+/**
+ * Checks a password against a stored record. `needsRehash` is set when the record is plaintext or was
+ * hashed with weaker parameters than the current ones.
+ */
+export async function verifyPassword(stored: string, password: string): Promise<{ ok: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) {
+    const ok = timingSafeCompare(stored, password)
+    return { ok, needsRehash: ok }
+  }
+
+  const [, rawCost, rawBlockSize, rawParallelism, rawSalt, rawKey] = stored.split('$')
+  const cost = Number(rawCost)
+  const blockSize = Number(rawBlockSize)
+  const parallelism = Number(rawParallelism)
+  const expected = Buffer.from(rawKey ?? '', 'base64')
+  if (!cost || !blockSize || !parallelism || expected.length !== KEY_BYTES) return { ok: false, needsRehash: false }
+
+  const key = await deriveKey(password, Buffer.from(rawSalt ?? '', 'base64'), cost, blockSize, parallelism)
+  const ok = crypto.timingSafeEqual(key, expected)
+  return { ok, needsRehash: ok && (cost < SCRYPT_COST || blockSize < SCRYPT_BLOCK_SIZE || parallelism < SCRYPT_PARALLELISM) }
+}
+
+/** Spends about as long as a real check, so unknown accounts are not told apart by response time. */
+export async function burnPasswordCheck(password: string): Promise<void> {
+  await deriveKey(password, crypto.randomBytes(SALT_BYTES), SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM)
+}
+
+function timingSafeCompare(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  if (left.length !== right.length) return false
+  return crypto.timingSafeEqual(left, right)
+}
@@ -0,0 +1,144 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+// Private podcast feeds: one MP3 episode per day of a user's due items, kept on disk next to a small JSON
+// description so the feed can be listed without reading the audio.
+
+export type FeedEpisode = {
+  date: string
+  publishedAt: string
+  bytes: number
+  durationMs: number
+  englishCount: number
+  japaneseCount: number
+  // Chapter titles, listed in the episode notes.
+  titles: string[]
+}
+
+export type FeedEpisodeStore = {
+  list(account: string): Promise<FeedEpisode[]>
+  has(account: string, date: string): Promise<boolean>
+  audioPath(account: string, date: string): string
+  write(account: string, episode: FeedEpisode, audio: Buffer): Promise<void>
+  remove(account: string): Promise<void>
+}
+
+export type FeedDescription = {
+  title: string
+  description: string
+  // Absolute URL of the feed itself; episode enclosures sit next to it.
+  feedUrl: string
+  episodes: FeedEpisode[]
+}
+
+// Episodes older than this are deleted when a new one is written.
+export const FEED_EPISODE_DAYS = 7
+// Episode notes list the first few items only; apps show them in a small box.
+const NOTES_TITLE_LIMIT = 20
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isEpisodeDate(value: string): boolean {
+  return DATE_PATTERN.test(value)
+}
+
+/** Episodes under `dir/<account>/`, newest first. */
+export function openFeedEpisodeStore(dir: string): FeedEpisodeStore {
+  const accountDir = (account: string) => path.join(dir, account)
+
+  const list = async (account: string): Promise<FeedEpisode[]> => {
+    let names: string[]
+    try {
+      names = await fs.readdir(accountDir(account))
+    } catch {
+      return []
+    }
+
+    const episodes: FeedEpisode[] = []
+    for (const name of names) {
+      if (!name.endsWith('.json') || !isEpisodeDate(name.slice(0, -5))) continue
+      try {
+        episodes.push(JSON.parse(await fs.readFile(path.join(accountDir(account), name), 'utf8')) as FeedEpisode)
+      } catch {
+        // Half-written or hand-edited; the next render replaces it.
+      }
+    }
+    return episodes.sort((a, b) => b.date.localeCompare(a.date))
+  }
+
+  return {
+    list,
+
+    async has(account, date) {
+      try {
+        await fs.access(path.join(accountDir(account), `${date}.json`))
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    audioPath(account, date) {
+      return path.join(accountDir(account), `${date}.mp3`)
+    },
+
+    async write(account, episode, audio) {
+      await fs.mkdir(accountDir(account), { recursive: true })
+      // The description goes last: an episode is listed only once its audio is complete.
+      await fs.writeFile(path.join(accountDir(account), `${episode.date}.mp3`), audio)
+      await fs.writeFile(path.join(accountDir(account), `${episode.date}.json`), JSON.stringify(episode))
+
+      for (const old of (await list(account)).slice(FEED_EPISODE_DAYS)) {
+        await fs.rm(path.join(accountDir(account), `${old.date}.json`), { force: true })
+        await fs.rm(path.join(accountDir(account), `${old.date}.mp3`), { force: true })
+      }
+    },
+
+    async remove(account) {
+      await fs.rm(accountDir(account), { recursive: true, force: true })
+    }
+  }
+}
+
+/** RSS 2.0 with the iTunes tags podcast apps look for. */
+export function buildFeedXml(feed: FeedDescription): string {
+  const base = feed.feedUrl.replace(/[^/]*$/, '')
+  const items = feed.episodes.map((episode) => {
+    const counts = [
+      episode.englishCount > 0 ? `${episode.englishCount} 個英文單字` : '',
+      episode.japaneseCount > 0 ? `${episode.japaneseCount} 句日文` : ''
+    ].filter(Boolean).join('、')
+    const more = episode.titles.length > NOTES_TITLE_LIMIT ? '…' : ''
+
+    return `
+    <item>
+      <title>${escapeXml(`${episode.date} 今日複習`)}</title>
+      <description>${escapeXml(`${counts}：${episode.titles.slice(0, NOTES_TITLE_LIMIT).join('、')}${more}`)}</description>
+      <guid isPermaLink="false">${escapeXml(`echolingo-review-${episode.date}`)}</guid>
+      <pubDate>${new Date(episode.publishedAt).toUTCString()}</pubDate>
+      <enclosure url="${escapeXml(`${base}episodes/${episode.date}.mp3`)}" length="${episode.bytes}" type="audio/mpeg" />
+      <itunes:duration>${Math.round(episode.durationMs / 1000)}</itunes:duration>
+    </item>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.feedUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>zh-tw</language>
+    <itunes:block>Yes</itunes:block>
+    <itunes:explicit>false</itunes:explicit>${items.join('')}
+  </channel>
+</rss>
+`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
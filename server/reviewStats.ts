@@ -0,0 +1,157 @@
+import { MAX_LEVEL } from '../src/scheduler'
+import type { EnglishWord, JapaneseSentence, ReviewEvent, UserDataRecord } from './types'
+
+// Aggregates behind the progress dashboard. Days are the learner's: `utcOffsetMinutes` is applied to every
+// timestamp before it is cut into dates, as the server may run in another time zone.
+
+type ItemType = ReviewEvent['itemType']
+
+export type LevelCounts = {
+  // Never reviewed.
+  fresh: number
+  // Reviewed items by `level`, 0 to MAX_LEVEL.
+  levels: number[]
+}
+
+export type TagRetention = {
+  // '' for items without tags.
+  tag: string
+  reviews: number
+  retained: number
+}
+
+export type ReviewStats = {
+  // One entry per day, oldest first, ending today.
+  heatmap: Array<{ date: string; reviews: number }>
+  streak: { current: number; longest: number }
+  totalReviews: number
+  levels: Record<ItemType, LevelCounts>
+  // Reviews falling due per day from today; today includes everything overdue.
+  forecast: Array<{ date: string; english: number; japanese: number }>
+  retention: { reviews: number; retained: number; tags: TagRetention[] }
+}
+
+export const HEATMAP_DAYS = 365
+export const FORECAST_DAYS = 30
+// Retention only looks at recent recall, so old habits do not mask how a tag is doing now.
+export const RETENTION_WINDOW_DAYS = 90
+const RETENTION_TAG_LIMIT = 20
+const MAX_UTC_OFFSET_MINUTES = 14 * 60
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function parseUtcOffset(raw: unknown): number {
+  const minutes = Math.round(Number(raw ?? 0))
+  if (!Number.isFinite(minutes)) return 0
+  return Math.max(-MAX_UTC_OFFSET_MINUTES, Math.min(MAX_UTC_OFFSET_MINUTES, minutes))
+}
+
+/** `reviews` must be the user's whole history, oldest first. */
+export function buildReviewStats(data: UserDataRecord, reviews: ReviewEvent[], utcOffsetMinutes: number, now = Date.now()): ReviewStats {
+  const dayOf = (timestamp: number) => Math.floor((timestamp + utcOffsetMinutes * 60 * 1000) / DAY_MS)
+  const dateOf = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+  const today = dayOf(now)
+
+  const perDay = new Map<number, number>()
+  for (const event of reviews) {
+    const day = dayOf(Date.parse(event.reviewedAt))
+    perDay.set(day, (perDay.get(day) ?? 0) + 1)
+  }
+
+  return {
+    heatmap: Array.from({ length: HEATMAP_DAYS }, (_value, index) => {
+      const day = today - HEATMAP_DAYS + 1 + index
+      return { date: dateOf(day), reviews: perDay.get(day) ?? 0 }
+    }),
+    streak: countStreaks(perDay, today),
+    totalReviews: reviews.length,
+    levels: {
+      english: countLevels(data.englishWords),
+      japanese: countLevels(data.japaneseSentences)
+    },
+    forecast: buildForecast(data, today, dayOf, dateOf),
+    retention: measureRetention(data, reviews, now - RETENTION_WINDOW_DAYS * DAY_MS)
+  }
+}
+
+// A streak still counts as current until today ends without a review.
+function countStreaks(perDay: Map<number, number>, today: number): ReviewStats['streak'] {
+  let current = 0
+  for (let day = perDay.has(today) ? today : today - 1; perDay.has(day); day -= 1) current += 1
+
+  let longest = 0
+  let run = 0
+  let previous = Number.NaN
+  for (const day of [...perDay.keys()].sort((a, b) => a - b)) {
+    run = day === previous + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  }
+
+  return { current, longest }
+}
+
+function countLevels(items: Array<EnglishWord | JapaneseSentence>): LevelCounts {
+  const counts: LevelCounts = { fresh: 0, levels: Array.from({ length: MAX_LEVEL + 1 }, () => 0) }
+  for (const item of items) {
+    if (item.lastReviewedAt === null) counts.fresh += 1
+    else counts.levels[Math.max(0, Math.min(MAX_LEVEL, item.level))] += 1
+  }
+  return counts
+}
+
+function buildForecast(data: UserDataRecord, today: number, dayOf: (timestamp: number) => number, dateOf: (day: number) => string): ReviewStats['forecast'] {
+  const forecast = Array.from({ length: FORECAST_DAYS }, (_value, index) => ({ date: dateOf(today + index), english: 0, japanese: 0 }))
+  const add = (items: Array<EnglishWord | JapaneseSentence>, itemType: ItemType) => {
+    for (const item of items) {
+      // New items follow the daily new-item limit rather than a due date.
+      if (item.lastReviewedAt === null || !item.dueAt) continue
+      const offset = Math.max(0, dayOf(Date.parse(item.dueAt)) - today)
+      if (offset < FORECAST_DAYS) forecast[offset][itemType] += 1
+    }
+  }
+
+  add(data.englishWords, 'english')
+  add(data.japaneseSentences, 'japanese')
+  return forecast
+}
+
+/**
+ * Share of recall reviews since `since` not graded "again", per tag of the item's current tags. An item's
+ * first review is learning rather than recall, and passive playback is exposure only, so both are left out.
+ */
+function measureRetention(data: UserDataRecord, reviews: ReviewEvent[], since: number): ReviewStats['retention'] {
+  const tagsOf = new Map<string, string[]>([
+    ...data.englishWords.map((item): [string, string[]] => [`english:${item.id}`, item.tags]),
+    ...data.japaneseSentences.map((item): [string, string[]] => [`japanese:${item.id}`, item.tags])
+  ])
+  const seen = new Set<string>()
+  const byTag = new Map<string, TagRetention>()
+  let total = 0
+  let retained = 0
+
+  for (const event of reviews) {
+    if (event.mode === 'playback') continue
+    const key = `${event.itemType}:${event.itemId}`
+    const firstReview = !seen.has(key)
+    seen.add(key)
+
+    const tags = tagsOf.get(key)
+    if (firstReview || !tags || Date.parse(event.reviewedAt) < since) continue
+
+    const kept = event.grade !== 'again'
+    total += 1
+    if (kept) retained += 1
+    for (const tag of tags.length > 0 ? tags : ['']) {
+      const entry = byTag.get(tag) ?? { tag, reviews: 0, retained: 0 }
+      entry.reviews += 1
+      if (kept) entry.retained += 1
+      byTag.set(tag, entry)
+    }
+  }
+
+  return {
+    reviews: total,
+    retained,
+    tags: [...byTag.values()].sort((a, b) => b.reviews - a.reviews).slice(0, RETENTION_TAG_LIMIT)
+  }
+}
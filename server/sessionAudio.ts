@@ -0,0 +1,197 @@
+import { toHiragana } from 'wanakana'
+import { buildDailyQueue } from '../src/dailyLimits'
+import { buildChapterTag, createSilence, isSameFormat, parseMp3, type Mp3Chapter, type Mp3Clip, type Mp3Format } from './mp3'
+import type { TtsAudio, TtsLangBucket } from './ttsProviders'
+import type { DailyTally, EnglishWord, JapaneseSentence, PlaybackStep, UserDataRecord } from './types'
+
+// A review queue rendered into one MP3 with a chapter per item, so it can be listened to offline in
+// any podcast player. The script follows the user's playback templates, like the in-app player.
+
+export type SessionItemType = 'english' | 'japanese'
+
+export type SessionAudioOptions = {
+  itemType: SessionItemType
+  // Same groups as the player: 'due', 'needs-work', 'all' or 'tag:<name>'.
+  group: string
+  limit: number
+  gapMs: number
+}
+
+type SessionPart = { text: string; lang: TtsLangBucket } | { pauseMs: number }
+
+export type SessionChapter = {
+  title: string
+  parts: SessionPart[]
+}
+
+export type RenderedSession = {
+  audio: Buffer
+  chapters: Mp3Chapter[]
+  durationMs: number
+}
+
+export const MAX_SESSION_ITEMS = 200
+export const DEFAULT_SESSION_ITEMS = 50
+export const MAX_SESSION_GAP_MS = 10000
+export const DEFAULT_SESSION_GAP_MS = 2000
+// Between the spoken parts of one item, as the in-app player pauses briefly between parts.
+const PART_GAP_MS = 300
+
+export function parseSessionAudioOptions(raw: unknown): SessionAudioOptions {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const limit = Math.floor(Number(source.limit ?? DEFAULT_SESSION_ITEMS))
+  const gapMs = Math.floor(Number(source.gapMs ?? DEFAULT_SESSION_GAP_MS))
+
+  return {
+    itemType: source.itemType === 'japanese' ? 'japanese' : 'english',
+    group: typeof source.group === 'string' && source.group.trim() ? source.group.trim() : 'due',
+    limit: Number.isFinite(limit) ? Math.max(1, Math.min(MAX_SESSION_ITEMS, limit)) : DEFAULT_SESSION_ITEMS,
+    gapMs: Number.isFinite(gapMs) ? Math.max(0, Math.min(MAX_SESSION_GAP_MS, gapMs)) : DEFAULT_SESSION_GAP_MS
+  }
+}
+
+function inGroup(item: EnglishWord | JapaneseSentence, group: string): boolean {
+  if (group === 'all') return true
+  if (group === 'needs-work') return 'needsWork' in item && item.needsWork
+  if (group.startsWith('tag:')) return item.tags.includes(group.slice(4))
+  return true
+}
+
+/**
+ * The chapters to read for `options`; empty when the group has no items. Groups keep list order except
+ * 'due', which is today's queue within the daily limits given what the user has reviewed today (`done`).
+ */
+export function buildSessionScript(
+  data: UserDataRecord,
+  options: SessionAudioOptions,
+  done: Record<SessionItemType, DailyTally>,
+  now = Date.now()
+): SessionChapter[] {
+  const { templates, dailyLimits } = data.speechSettings
+  const pick = <T extends EnglishWord | JapaneseSentence>(items: T[]): T[] =>
+    (options.group === 'due'
+      ? buildDailyQueue(items, dailyLimits[options.itemType], done[options.itemType], now)
+      : items.filter((item) => inGroup(item, options.group)))
+      .slice(0, options.limit)
+
+  if (options.itemType === 'english') {
+    return pick(data.englishWords)
+      .map((item) => ({
+        title: item.word,
+        parts: scriptParts(templates.en, (field) => {
+          if (field === 'word') return { text: item.word, lang: 'en' }
+          // Comma-separated so server engines read the letters one by one.
+          if (field === 'spelling') return { text: spellingOf(item.word).join(', '), lang: 'en' }
+          if (field === 'meaning') return { text: item.meaningZh, lang: 'zh' }
+          return null
+        })
+      }))
+  }
+
+  return pick(data.japaneseSentences)
+    .map((item) => ({
+      title: item.sentence,
+      parts: scriptParts(templates.ja, (field) => {
+        if (field === 'sentence') return { text: item.sentence, lang: 'ja' }
+        if (field === 'meaning') return { text: item.meaningZh, lang: 'zh' }
+        if (field === 'romaji') return { text: toHiragana(item.romaji), lang: 'ja' }
+        if (field === 'vocabulary') {
+          return { text: item.vocabulary.map((vocab) => `${vocab.word}、${vocab.meaningZh}`).join('。'), lang: 'zh' }
+        }
+        return null
+      })
+    }))
+}
+
+function spellingOf(word: string): string[] {
+  const letters = Array.from(word.replace(/[^A-Za-z]/g, '').toUpperCase())
+  return letters.length > 0 ? letters : Array.from(word)
+}
+
+function scriptParts(steps: PlaybackStep[], partFor: (field: PlaybackStep['kind']) => { text: string; lang: TtsLangBucket } | null): SessionPart[] {
+  const parts: SessionPart[] = []
+  for (const step of steps) {
+    if (step.kind === 'pause') {
+      if (step.ms > 0) parts.push({ pauseMs: step.ms })
+      continue
+    }
+
+    const part = partFor(step.kind)
+    if (!part || !part.text.trim()) continue
+    for (let count = 0; count < step.repeat; count += 1) parts.push(part)
+  }
+  return parts
+}
+
+/**
+ * Synthesizes every spoken part (through `synthesize`, which is expected to cache) and joins the clips.
+ * All clips must be MP3 in one format, since they are joined frame by frame without re-encoding.
+ */
+export async function renderSessionAudio(
+  title: string,
+  chapters: SessionChapter[],
+  gapMs: number,
+  synthesize: (text: string, lang: TtsLangBucket) => Promise<TtsAudio>
+): Promise<RenderedSession> {
+  const clips: Mp3Clip[] = []
+  const marks: Mp3Chapter[] = []
+  let format: Mp3Format | null = null
+  let totalMs = 0
+  // Pauses before the first clip are known only once its format is.
+  let pendingSilenceMs = 0
+
+  const append = (clip: Mp3Clip) => {
+    clips.push(clip)
+    totalMs += clip.durationMs
+  }
+  const addSilence = (ms: number) => {
+    if (ms <= 0) return
+    if (format) append(createSilence(format, ms))
+    else pendingSilenceMs += ms
+  }
+
+  for (const [index, chapter] of chapters.entries()) {
+    if (index > 0) addSilence(gapMs)
+    const startMs = totalMs + pendingSilenceMs
+
+    let spokenBefore = false
+    for (const part of chapter.parts) {
+      if ('pauseMs' in part) {
+        addSilence(part.pauseMs)
+        continue
+      }
+
+      const result = await synthesize(part.text, part.lang)
+      if (result.contentType !== 'audio/mpeg') {
+        throw new Error(`the ${part.lang} engine returns ${result.contentType}; only MP3 clips can be joined`)
+      }
+      const clip = parseMp3(result.audio)
+      if (!format) {
+        format = clip.format
+        addSilence(pendingSilenceMs)
+        pendingSilenceMs = 0
+      } else if (!isSameFormat(format, clip.format)) {
+        throw new Error('engines return MP3 in different sample rates; use one engine for every language')
+      }
+
+      if (spokenBefore) addSilence(PART_GAP_MS)
+      append(clip)
+      spokenBefore = true
+    }
+
+    marks.push({ title: chapter.title, startMs, endMs: totalMs })
+  }
+
+  if (!format) throw new Error('nothing to read in this session')
+
+  // Each chapter runs until the next one starts, so skipping forward never lands in a gap.
+  for (const [index, mark] of marks.entries()) {
+    mark.endMs = marks[index + 1]?.startMs ?? totalMs
+  }
+
+  return {
+    audio: Buffer.concat([buildChapterTag(title, marks), ...clips.map((clip) => clip.frames)]),
+    chapters: marks,
+    durationMs: totalMs
+  }
+}
@@ -0,0 +1,771 @@
+import Database from 'better-sqlite3'
+import { parseUserRole } from '../src/permissions'
+import { REVIEW_GRADES, REVIEW_MODES } from '../src/scheduler'
+import type { StorageBackend } from './storage'
+import { TTS_ENGINES } from './ttsProviders'
+import type { AppDatabase, AuditEntry, DeckRecord, DeckSubscription, EnglishWord, JapaneseSentence, ReviewEvent, SessionRecord, UserRecord } from './types'
+
+type Migration = {
+  version: number
+  name: string
+  sql: string
+}
+
+// Applied in order; the schema version is kept in `PRAGMA user_version`. Never edit a released entry,
+// append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+
+      CREATE TABLE users (
+        account TEXT PRIMARY KEY,
+        password TEXT NOT NULL,
+        active INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        speech_settings TEXT NOT NULL,
+        theme TEXT NOT NULL,
+        settings_revision INTEGER NOT NULL DEFAULT 0,
+        data_updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        token TEXT PRIMARY KEY,
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE english_words (
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        position REAL NOT NULL,
+        word TEXT NOT NULL,
+        meaning_zh TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        needs_work INTEGER NOT NULL,
+        level INTEGER NOT NULL,
+        ease REAL NOT NULL,
+        stability REAL NOT NULL,
+        due_at TEXT,
+        lapses INTEGER NOT NULL,
+        last_reviewed_at TEXT,
+        revision INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (account, id)
+      );
+
+      CREATE TABLE japanese_sentences (
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        position REAL NOT NULL,
+        sentence TEXT NOT NULL,
+        romaji TEXT NOT NULL,
+        meaning_zh TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        vocabulary TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        ease REAL NOT NULL,
+        stability REAL NOT NULL,
+        due_at TEXT,
+        lapses INTEGER NOT NULL,
+        last_reviewed_at TEXT,
+        revision INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (account, id)
+      );
+
+      CREATE TABLE review_events (
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        item_type TEXT NOT NULL,
+        reviewed_at TEXT NOT NULL,
+        grade TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        engine TEXT NOT NULL,
+        PRIMARY KEY (account, id)
+      );
+
+      CREATE INDEX english_words_position ON english_words (account, position);
+      CREATE INDEX japanese_sentences_position ON japanese_sentences (account, position);
+      CREATE INDEX review_events_reviewed_at ON review_events (account, reviewed_at);
+    `
+  },
+  {
+    version: 2,
+    name: 'forced password change',
+    sql: `
+      ALTER TABLE users ADD COLUMN must_change_password INTEGER NOT NULL DEFAULT 0;
+    `
+  },
+  {
+    version: 3,
+    name: 'persistent sessions',
+    sql: `
+      DROP TABLE sessions;
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        access_token_hash TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        refresh_token_hash TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        ip TEXT NOT NULL
+      );
+
+      CREATE INDEX sessions_account ON sessions (account);
+    `
+  },
+  {
+    version: 4,
+    name: 'teacher assignment',
+    sql: `
+      ALTER TABLE users ADD COLUMN teacher TEXT;
+    `
+  },
+  {
+    version: 5,
+    name: 'shared decks',
+    sql: `
+      CREATE TABLE decks (
+        id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        item_types TEXT NOT NULL,
+        published INTEGER NOT NULL,
+        version INTEGER NOT NULL,
+        entries TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE deck_subscriptions (
+        deck_id TEXT NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+        account TEXT NOT NULL REFERENCES users(account) ON DELETE CASCADE,
+        subscribed_at TEXT NOT NULL,
+        delivered_entry_ids TEXT NOT NULL,
+        PRIMARY KEY (deck_id, account)
+      );
+
+      CREATE INDEX decks_owner ON decks (owner);
+      CREATE INDEX deck_subscriptions_account ON deck_subscriptions (account);
+    `
+  },
+  {
+    version: 6,
+    name: 'audit log',
+    sql: `
+      CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        at TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target TEXT NOT NULL,
+        ip TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        details TEXT NOT NULL
+      );
+
+      CREATE INDEX audit_log_at ON audit_log (at);
+    `
+  },
+  {
+    version: 7,
+    name: 'podcast feeds',
+    sql: `
+      ALTER TABLE users ADD COLUMN feed_token_hash TEXT;
+      ALTER TABLE users ADD COLUMN feed_created_at TEXT;
+      ALTER TABLE users ADD COLUMN feed_utc_offset INTEGER NOT NULL DEFAULT 0;
+    `
+  }
+]
+
+type Row = Record<string, string | number | null>
+
+type ItemTable<T extends { id: string }> = {
+  name: string
+  columns: string[]
+  toRow: (account: string, item: T, position: number) => Row
+  fromRow: (row: Row) => T
+}
+
+const srsColumns = (item: EnglishWord | JapaneseSentence) => ({
+  level: item.level,
+  ease: item.ease,
+  stability: item.stability,
+  due_at: item.dueAt,
+  lapses: item.lapses,
+  last_reviewed_at: item.lastReviewedAt,
+  revision: item.revision,
+  updated_at: item.updatedAt
+})
+
+const srsFields = (row: Row) => ({
+  level: Number(row.level),
+  ease: Number(row.ease),
+  stability: Number(row.stability),
+  dueAt: row.due_at === null ? null : String(row.due_at),
+  lapses: Number(row.lapses),
+  lastReviewedAt: row.last_reviewed_at === null ? null : String(row.last_reviewed_at),
+  revision: Number(row.revision),
+  updatedAt: String(row.updated_at)
+})
+
+const englishTable: ItemTable<EnglishWord> = {
+  name: 'english_words',
+  columns: ['account', 'id', 'position', 'word', 'meaning_zh', 'tags', 'needs_work', 'level', 'ease', 'stability', 'due_at', 'lapses', 'last_reviewed_at', 'revision', 'updated_at'],
+  toRow: (account, item, position) => ({
+    account,
+    id: item.id,
+    position,
+    word: item.word,
+    meaning_zh: item.meaningZh,
+    tags: JSON.stringify(item.tags),
+    needs_work: item.needsWork ? 1 : 0,
+    ...srsColumns(item)
+  }),
+  fromRow: (row) => ({
+    id: String(row.id),
+    word: String(row.word),
+    meaningZh: String(row.meaning_zh),
+    tags: JSON.parse(String(row.tags)) as string[],
+    needsWork: row.needs_work === 1,
+    ...srsFields(row)
+  })
+}
+
+const japaneseTable: ItemTable<JapaneseSentence> = {
+  name: 'japanese_sentences',
+  columns: ['account', 'id', 'position', 'sentence', 'romaji', 'meaning_zh', 'tags', 'vocabulary', 'level', 'ease', 'stability', 'due_at', 'lapses', 'last_reviewed_at', 'revision', 'updated_at'],
+  toRow: (account, item, position) => ({
+    account,
+    id: item.id,
+    position,
+    sentence: item.sentence,
+    romaji: item.romaji,
+    meaning_zh: item.meaningZh,
+    tags: JSON.stringify(item.tags),
+    vocabulary: JSON.stringify(item.vocabulary),
+    ...srsColumns(item)
+  }),
+  fromRow: (row) => ({
+    id: String(row.id),
+    sentence: String(row.sentence),
+    romaji: String(row.romaji),
+    meaningZh: String(row.meaning_zh),
+    tags: JSON.parse(String(row.tags)) as string[],
+    vocabulary: JSON.parse(String(row.vocabulary)) as JapaneseSentence['vocabulary'],
+    ...srsFields(row)
+  })
+}
+
+function migrate(db: Database.Database): void {
+  const current = Number(db.pragma('user_version', { simple: true }))
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue
+    db.transaction(() => {
+      db.exec(migration.sql)
+      db.pragma(`user_version = ${migration.version}`)
+    })()
+    console.log(`[Storage] applied migration ${migration.version}: ${migration.name}`)
+  }
+}
+
+function upsertSql(table: string, columns: string[], keys: string[]): string {
+  const updates = columns.filter((column) => !keys.includes(column)).map((column) => `${column} = excluded.${column}`)
+  return `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((column) => `@${column}`).join(', ')})
+    ON CONFLICT (${keys.join(', ')}) DO UPDATE SET ${updates.join(', ')}`
+}
+
+/**
+ * Orders items by a REAL `position` so that the usual edits (prepend a new item, delete one) only
+ * write the rows involved. Items keep their stored position while it is still in order; the rest get
+ * positions spaced between their neighbours.
+ */
+function assignPositions(ids: string[], known: Map<string, number>): number[] {
+  const positions: number[] = []
+  let previous = Number.NEGATIVE_INFINITY
+  let index = 0
+
+  while (index < ids.length) {
+    const own = known.get(ids[index])
+    if (own !== undefined && own > previous) {
+      positions.push(own)
+      previous = own
+      index += 1
+      continue
+    }
+
+    let end = index
+    while (end < ids.length && !((known.get(ids[end]) ?? Number.NEGATIVE_INFINITY) > previous)) end += 1
+
+    const count = end - index
+    const next = end < ids.length ? known.get(ids[end])! : Number.POSITIVE_INFINITY
+    const lower = Number.isFinite(previous) ? previous : (Number.isFinite(next) ? next - count - 1 : 0)
+    const upper = Number.isFinite(next) ? next : lower + count + 1
+    const step = (upper - lower) / (count + 1)
+
+    for (let offset = 1; offset <= count; offset += 1) positions.push(lower + step * offset)
+    previous = lower + step * count
+    index = end
+  }
+
+  return positions
+}
+
+/**
+ * SQLite backend. Each save diffs the in-memory database against fingerprints of what was last
+ * written and only touches rows that changed, inside a single transaction.
+ */
+export function createSqliteStorage(filePath: string): StorageBackend {
+  const db = new Database(filePath)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+  migrate(db)
+
+  const userColumns = ['account', 'password', 'must_change_password', 'active', 'role', 'teacher', 'name', 'created_at', 'updated_at', 'speech_settings', 'theme', 'settings_revision', 'data_updated_at', 'feed_token_hash', 'feed_created_at', 'feed_utc_offset']
+  const reviewColumns = ['account', 'id', 'item_id', 'item_type', 'reviewed_at', 'grade', 'mode', 'duration_ms', 'engine']
+  const deckColumns = ['id', 'owner', 'name', 'description', 'tags', 'item_types', 'published', 'version', 'entries', 'created_at', 'updated_at']
+  const subscriptionColumns = ['deck_id', 'account', 'subscribed_at', 'delivered_entry_ids']
+  const auditColumns = ['id', 'at', 'actor', 'action', 'target', 'ip', 'summary', 'details']
+  const sessionColumns = ['id', 'account', 'access_token_hash', 'access_expires_at', 'refresh_token_hash', 'expires_at', 'created_at', 'last_seen_at', 'user_agent', 'ip']
+
+  const statements = {
+    getMeta: db.prepare('SELECT value FROM meta WHERE key = ?'),
+    setMeta: db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'),
+    users: db.prepare('SELECT * FROM users ORDER BY created_at'),
+    upsertUser: db.prepare(upsertSql('users', userColumns, ['account'])),
+    deleteUser: db.prepare('DELETE FROM users WHERE account = ?'),
+    reviews: db.prepare('SELECT * FROM review_events WHERE account = ? ORDER BY reviewed_at'),
+    insertReview: db.prepare(`INSERT OR IGNORE INTO review_events (${reviewColumns.join(', ')}) VALUES (${reviewColumns.map((column) => `@${column}`).join(', ')})`),
+    deleteReview: db.prepare('DELETE FROM review_events WHERE account = ? AND id = ?'),
+    sessions: db.prepare('SELECT * FROM sessions'),
+    upsertSession: db.prepare(upsertSql('sessions', sessionColumns, ['id'])),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE id = ?'),
+    decks: db.prepare('SELECT * FROM decks ORDER BY created_at'),
+    upsertDeck: db.prepare(upsertSql('decks', deckColumns, ['id'])),
+    deleteDeck: db.prepare('DELETE FROM decks WHERE id = ?'),
+    subscriptions: db.prepare('SELECT * FROM deck_subscriptions'),
+    upsertSubscription: db.prepare(upsertSql('deck_subscriptions', subscriptionColumns, ['deck_id', 'account'])),
+    deleteSubscription: db.prepare('DELETE FROM deck_subscriptions WHERE deck_id = ? AND account = ?'),
+    auditLog: db.prepare('SELECT * FROM audit_log ORDER BY at, rowid'),
+    insertAudit: db.prepare(`INSERT OR IGNORE INTO audit_log (${auditColumns.join(', ')}) VALUES (${auditColumns.map((column) => `@${column}`).join(', ')})`),
+    deleteAudit: db.prepare('DELETE FROM audit_log WHERE id = ?')
+  }
+
+  const itemStatements = (table: ItemTable<{ id: string }>) => ({
+    select: db.prepare(`SELECT * FROM ${table.name} WHERE account = ? ORDER BY position`),
+    upsert: db.prepare(upsertSql(table.name, table.columns, ['account', 'id'])),
+    remove: db.prepare(`DELETE FROM ${table.name} WHERE account = ? AND id = ?`)
+  })
+  const englishStatements = itemStatements(englishTable as unknown as ItemTable<{ id: string }>)
+  const japaneseStatements = itemStatements(japaneseTable as unknown as ItemTable<{ id: string }>)
+
+  // What is on disk, per account: row fingerprints (and positions) for users/items, ids for reviews.
+  const userRows = new Map<string, string>()
+  const itemRows = new Map<string, Map<string, { fingerprint: string; position: number }>>()
+  const reviewIds = new Map<string, Set<string>>()
+  const sessionRows = new Map<string, string>()
+  const deckRows = new Map<string, string>()
+  // Keyed by `${deckId}/${account}`.
+  const subscriptionRows = new Map<string, string>()
+  // Audit entries never change once written, so ids are enough.
+  const auditIds = new Set<string>()
+
+  const userRow = (user: UserRecord): Row => ({
+    account: user.account,
+    password: user.password,
+    must_change_password: user.mustChangePassword ? 1 : 0,
+    active: user.active ? 1 : 0,
+    role: user.role,
+    teacher: user.teacher,
+    name: user.name,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+    speech_settings: JSON.stringify(user.data.speechSettings),
+    theme: user.data.theme,
+    settings_revision: user.data.settingsRevision,
+    data_updated_at: user.data.updatedAt,
+    feed_token_hash: user.podcastFeed?.tokenHash ?? null,
+    feed_created_at: user.podcastFeed?.createdAt ?? null,
+    feed_utc_offset: user.podcastFeed?.utcOffsetMinutes ?? 0
+  })
+
+  const reviewRow = (account: string, event: ReviewEvent): Row => ({
+    account,
+    id: event.id,
+    item_id: event.itemId,
+    item_type: event.itemType,
+    reviewed_at: event.reviewedAt,
+    grade: event.grade,
+    mode: event.mode,
+    duration_ms: event.durationMs,
+    engine: event.engine
+  })
+
+  const sessionRow = (session: SessionRecord): Row => ({
+    id: session.id,
+    account: session.account,
+    access_token_hash: session.accessTokenHash,
+    access_expires_at: session.accessExpiresAt,
+    refresh_token_hash: session.refreshTokenHash,
+    expires_at: session.expiresAt,
+    created_at: session.createdAt,
+    last_seen_at: session.lastSeenAt,
+    user_agent: session.userAgent,
+    ip: session.ip
+  })
+
+  const deckRow = (deck: DeckRecord): Row => ({
+    id: deck.id,
+    owner: deck.owner,
+    name: deck.name,
+    description: deck.description,
+    tags: JSON.stringify(deck.tags),
+    item_types: JSON.stringify(deck.itemTypes),
+    published: deck.published ? 1 : 0,
+    version: deck.version,
+    entries: JSON.stringify(deck.entries),
+    created_at: deck.createdAt,
+    updated_at: deck.updatedAt
+  })
+
+  const subscriptionRow = (deckId: string, account: string, subscription: DeckSubscription): Row => ({
+    deck_id: deckId,
+    account,
+    subscribed_at: subscription.subscribedAt,
+    delivered_entry_ids: JSON.stringify(subscription.deliveredEntryIds)
+  })
+
+  const auditRow = (entry: AuditEntry): Row => ({
+    id: entry.id,
+    at: entry.at,
+    actor: entry.actor,
+    action: entry.action,
+    target: entry.target,
+    ip: entry.ip,
+    summary: entry.summary,
+    details: JSON.stringify(entry.details)
+  })
+
+  function saveItems<T extends { id: string }>(
+    table: ItemTable<T>,
+    sql: ReturnType<typeof itemStatements>,
+    account: string,
+    items: T[]
+  ): void {
+    const cacheKey = `${table.name}:${account}`
+    const stored = itemRows.get(cacheKey) ?? new Map<string, { fingerprint: string; position: number }>()
+    const known = new Map([...stored].map(([id, entry]) => [id, entry.position]))
+    const positions = assignPositions(items.map((item) => item.id), known)
+    const next = new Map<string, { fingerprint: string; position: number }>()
+
+    items.forEach((item, index) => {
+      const row = table.toRow(account, item, positions[index])
+      const fingerprint = JSON.stringify(row)
+      if (stored.get(item.id)?.fingerprint !== fingerprint) sql.upsert.run(row)
+      next.set(item.id, { fingerprint, position: positions[index] })
+    })
+
+    for (const id of stored.keys()) {
+      if (!next.has(id)) sql.remove.run(account, id)
+    }
+
+    itemRows.set(cacheKey, next)
+  }
+
+  function saveReviews(account: string, events: ReviewEvent[]): void {
+    const stored = reviewIds.get(account) ?? new Set<string>()
+    const next = new Set<string>()
+
+    for (const event of events) {
+      if (!stored.has(event.id)) statements.insertReview.run(reviewRow(account, event))
+      next.add(event.id)
+    }
+    for (const id of stored) {
+      if (!next.has(id)) statements.deleteReview.run(account, id)
+    }
+
+    reviewIds.set(account, next)
+  }
+
+  const writeAll = db.transaction((database: AppDatabase) => {
+    statements.setMeta.run('lastBackupDate', database.meta.lastBackupDate)
+    statements.setMeta.run('backupRetention', JSON.stringify(database.meta.backupRetention))
+    statements.setMeta.run('lastBackupUpload', JSON.stringify(database.meta.lastBackupUpload))
+
+    for (const account of userRows.keys()) {
+      if (database.users[account]) continue
+      statements.deleteUser.run(account)
+      userRows.delete(account)
+      itemRows.delete(`${englishTable.name}:${account}`)
+      itemRows.delete(`${japaneseTable.name}:${account}`)
+      reviewIds.delete(account)
+    }
+
+    for (const user of Object.values(database.users)) {
+      const row = userRow(user)
+      const fingerprint = JSON.stringify(row)
+      if (userRows.get(user.account) !== fingerprint) statements.upsertUser.run(row)
+      userRows.set(user.account, fingerprint)
+
+      saveItems(englishTable, englishStatements, user.account, user.data.englishWords)
+      saveItems(japaneseTable, japaneseStatements, user.account, user.data.japaneseSentences)
+      saveReviews(user.account, user.reviews)
+    }
+
+    // After the users, so new sessions find their account row; sessions of deleted users are already
+    // gone through the cascade.
+    for (const id of sessionRows.keys()) {
+      if (database.sessions[id]) continue
+      statements.deleteSession.run(id)
+      sessionRows.delete(id)
+    }
+    for (const session of Object.values(database.sessions)) {
+      const row = sessionRow(session)
+      const fingerprint = JSON.stringify(row)
+      if (sessionRows.get(session.id) !== fingerprint) statements.upsertSession.run(row)
+      sessionRows.set(session.id, fingerprint)
+    }
+
+    saveDecks(database)
+    saveAuditLog(database.auditLog)
+  })
+
+  // Inner item maps and review id sets are replaced, never edited, so copying the outer maps is enough.
+  const rowCaches: Array<Map<string, unknown>> = [userRows, itemRows, reviewIds, sessionRows, deckRows, subscriptionRows]
+
+  // The caches are updated as rows are written. A failed transaction rolls the rows back, so the caches go
+  // back too; otherwise the next save would skip rows that never reached the disk.
+  function saveAll(database: AppDatabase): void {
+    const cached = rowCaches.map((cache) => new Map(cache))
+    const cachedAuditIds = new Set(auditIds)
+    try {
+      writeAll(database)
+    } catch (error) {
+      rowCaches.forEach((cache, index) => {
+        cache.clear()
+        for (const [key, value] of cached[index]) cache.set(key, value)
+      })
+      auditIds.clear()
+      for (const id of cachedAuditIds) auditIds.add(id)
+      throw error
+    }
+  }
+
+  function saveDecks(database: AppDatabase): void {
+    for (const id of deckRows.keys()) {
+      if (database.decks[id]) continue
+      statements.deleteDeck.run(id)
+      deckRows.delete(id)
+    }
+
+    const subscriptionKeys = new Set<string>()
+    for (const deck of Object.values(database.decks)) {
+      const row = deckRow(deck)
+      const fingerprint = JSON.stringify(row)
+      if (deckRows.get(deck.id) !== fingerprint) statements.upsertDeck.run(row)
+      deckRows.set(deck.id, fingerprint)
+
+      for (const [account, subscription] of Object.entries(deck.subscribers)) {
+        const key = `${deck.id}/${account}`
+        const subscriptionValues = subscriptionRow(deck.id, account, subscription)
+        const subscriptionFingerprint = JSON.stringify(subscriptionValues)
+        if (subscriptionRows.get(key) !== subscriptionFingerprint) statements.upsertSubscription.run(subscriptionValues)
+        subscriptionRows.set(key, subscriptionFingerprint)
+        subscriptionKeys.add(key)
+      }
+    }
+
+    for (const key of subscriptionRows.keys()) {
+      if (subscriptionKeys.has(key)) continue
+      const [deckId, account] = key.split('/')
+      statements.deleteSubscription.run(deckId, account)
+      subscriptionRows.delete(key)
+    }
+  }
+
+  function saveAuditLog(log: AuditEntry[]): void {
+    const next = new Set<string>()
+    for (const entry of log) {
+      if (!auditIds.has(entry.id)) statements.insertAudit.run(auditRow(entry))
+      next.add(entry.id)
+    }
+    for (const id of auditIds) {
+      if (!next.has(id)) statements.deleteAudit.run(id)
+    }
+
+    auditIds.clear()
+    for (const id of next) auditIds.add(id)
+  }
+
+  function loadItems<T extends { id: string }>(table: ItemTable<T>, sql: ReturnType<typeof itemStatements>, account: string): T[] {
+    const rows = sql.select.all(account) as Row[]
+    const stored = new Map<string, { fingerprint: string; position: number }>()
+    const items = rows.map((row) => {
+      const item = table.fromRow(row)
+      const position = Number(row.position)
+      stored.set(item.id, { fingerprint: JSON.stringify(table.toRow(account, item, position)), position })
+      return item
+    })
+    itemRows.set(`${table.name}:${account}`, stored)
+    return items
+  }
+
+  return {
+    kind: 'sqlite',
+    backupExtension: '.sqlite',
+
+    async load() {
+      const rows = statements.users.all() as Row[]
+      if (rows.length === 0) return null
+
+      const users: Record<string, UserRecord> = {}
+      for (const row of rows) {
+        const account = String(row.account)
+        // Rows without a known grade cannot be replayed by the scheduler, so they are left out.
+        const reviews = (statements.reviews.all(account) as Row[]).flatMap((review): ReviewEvent[] => {
+          const grade = REVIEW_GRADES.find((item) => item === review.grade)
+          if (!grade) return []
+          return [{
+            id: String(review.id),
+            itemId: String(review.item_id),
+            itemType: review.item_type === 'japanese' ? 'japanese' : 'english',
+            reviewedAt: String(review.reviewed_at),
+            grade,
+            mode: REVIEW_MODES.find((item) => item === review.mode) ?? 'manual',
+            durationMs: Number(review.duration_ms),
+            engine: TTS_ENGINES.find((engine) => engine === review.engine) ?? 'browser'
+          }]
+        })
+
+        const user: UserRecord = {
+          account,
+          password: String(row.password),
+          mustChangePassword: row.must_change_password === 1,
+          active: row.active === 1,
+          role: parseUserRole(row.role),
+          teacher: row.teacher === null ? null : String(row.teacher),
+          name: String(row.name),
+          createdAt: String(row.created_at),
+          updatedAt: String(row.updated_at),
+          data: {
+            englishWords: loadItems(englishTable, englishStatements, account),
+            japaneseSentences: loadItems(japaneseTable, japaneseStatements, account),
+            speechSettings: JSON.parse(String(row.speech_settings)) as UserRecord['data']['speechSettings'],
+            theme: row.theme === 'dark' ? 'dark' : 'light',
+            settingsRevision: Number(row.settings_revision),
+            updatedAt: String(row.data_updated_at)
+          },
+          reviews,
+          podcastFeed: row.feed_token_hash === null
+            ? null
+            : { tokenHash: String(row.feed_token_hash), createdAt: String(row.feed_created_at), utcOffsetMinutes: Number(row.feed_utc_offset) }
+        }
+
+        users[account] = user
+        userRows.set(account, JSON.stringify(userRow(user)))
+        reviewIds.set(account, new Set(reviews.map((event) => event.id)))
+      }
+
+      const sessions: Record<string, SessionRecord> = {}
+      for (const row of statements.sessions.all() as Row[]) {
+        const session: SessionRecord = {
+          id: String(row.id),
+          account: String(row.account),
+          accessTokenHash: String(row.access_token_hash),
+          accessExpiresAt: Number(row.access_expires_at),
+          refreshTokenHash: String(row.refresh_token_hash),
+          expiresAt: Number(row.expires_at),
+          createdAt: String(row.created_at),
+          lastSeenAt: String(row.last_seen_at),
+          userAgent: String(row.user_agent),
+          ip: String(row.ip)
+        }
+        sessions[session.id] = session
+        sessionRows.set(session.id, JSON.stringify(sessionRow(session)))
+      }
+
+      const decks: Record<string, DeckRecord> = {}
+      for (const row of statements.decks.all() as Row[]) {
+        const deck: DeckRecord = {
+          id: String(row.id),
+          owner: String(row.owner),
+          name: String(row.name),
+          description: String(row.description),
+          tags: JSON.parse(String(row.tags)) as DeckRecord['tags'],
+          itemTypes: JSON.parse(String(row.item_types)) as DeckRecord['itemTypes'],
+          published: row.published === 1,
+          version: Number(row.version),
+          entries: JSON.parse(String(row.entries)) as DeckRecord['entries'],
+          subscribers: {},
+          createdAt: String(row.created_at),
+          updatedAt: String(row.updated_at)
+        }
+        decks[deck.id] = deck
+        deckRows.set(deck.id, JSON.stringify(deckRow(deck)))
+      }
+      for (const row of statements.subscriptions.all() as Row[]) {
+        const deck = decks[String(row.deck_id)]
+        if (!deck) continue
+        const account = String(row.account)
+        const subscription: DeckSubscription = {
+          subscribedAt: String(row.subscribed_at),
+          deliveredEntryIds: JSON.parse(String(row.delivered_entry_ids)) as string[]
+        }
+        deck.subscribers[account] = subscription
+        subscriptionRows.set(`${deck.id}/${account}`, JSON.stringify(subscriptionRow(deck.id, account, subscription)))
+      }
+
+      const auditLog = (statements.auditLog.all() as Row[]).map((row): AuditEntry => ({
+        id: String(row.id),
+        at: String(row.at),
+        actor: String(row.actor),
+        action: String(row.action) as AuditEntry['action'],
+        target: String(row.target),
+        ip: String(row.ip),
+        summary: String(row.summary),
+        details: JSON.parse(String(row.details)) as AuditEntry['details']
+      }))
+      for (const entry of auditLog) auditIds.add(entry.id)
+
+      const readMeta = (key: string) => (statements.getMeta.get(key) as { value: string | null } | undefined)?.value ?? null
+      const lastBackupDate = readMeta('lastBackupDate')
+      const storedRetention = readMeta('backupRetention')
+      // Sanitized by normalizeDatabase; absent in databases written before the retention policy existed.
+      const backupRetention = (storedRetention ? JSON.parse(storedRetention) : null) as AppDatabase['meta']['backupRetention']
+      const lastBackupUpload = JSON.parse(readMeta('lastBackupUpload') ?? 'null') as AppDatabase['meta']['lastBackupUpload']
+      return { meta: { lastBackupDate, backupRetention, lastBackupUpload }, users, sessions, decks, auditLog } satisfies AppDatabase
+    },
+
+    async save(database) {
+      saveAll(database)
+    },
+
+    async backup(database, backupPath) {
+      saveAll(database)
+      await db.backup(backupPath)
+    },
+
+    close() {
+      db.close()
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { AppDatabase } from './types'
+import { createSqliteStorage } from './sqliteStorage'
+
+export type StorageKind = 'json' | 'sqlite'
+
+/**
+ * Persistence for the in-memory `AppDatabase`. Routes mutate the loaded object and call `save`;
+ * backends decide how much of it actually has to be written.
+ */
+export type StorageBackend = {
+  kind: StorageKind
+  backupExtension: string
+  /** Returns the stored database (not yet normalized), or null when nothing has been stored. */
+  load(): Promise<unknown | null>
+  save(database: AppDatabase): Promise<void>
+  backup(database: AppDatabase, filePath: string): Promise<void>
+  close(): void
+}
+
+export const JSON_DB_FILE = 'app-db.json'
+export const SQLITE_DB_FILE = 'app.db'
+
+export function resolveStorageKind(raw: string | undefined): StorageKind {
+  return String(raw ?? '').trim().toLowerCase() === 'json' ? 'json' : 'sqlite'
+}
+
+export function openStorage(kind: StorageKind, dataDir: string): StorageBackend {
+  if (kind === 'json') return createJsonStorage(path.join(dataDir, JSON_DB_FILE))
+  return createSqliteStorage(path.join(dataDir, SQLITE_DB_FILE))
+}
+
+/**
+ * One-time import of the legacy `app-db.json` into an empty backend. The JSON file is left in place so
+ * switching `STORAGE_BACKEND` back to `json` still works.
+ */
+export async function importJsonDatabase(
+  storage: StorageBackend,
+  dataDir: string,
+  normalize: (raw: unknown) => AppDatabase
+): Promise<AppDatabase | null> {
+  const jsonPath = path.join(dataDir, JSON_DB_FILE)
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(jsonPath, 'utf8')) as unknown
+  } catch {
+    return null
+  }
+
+  const database = normalize(raw)
+  await storage.save(database)
+  console.log(`[Storage] imported ${Object.keys(database.users).length} users from ${JSON_DB_FILE} into ${storage.kind}`)
+  return database
+}
+
+/**
+ * Reads a backup file of either kind (not yet normalized). SQLite backups may predate the current schema,
+ * so they are migrated on a scratch copy and the file itself is never written.
+ */
+export async function readBackupFile(filePath: string): Promise<unknown> {
+  if (filePath.endsWith('.json')) return JSON.parse(await fs.readFile(filePath, 'utf8')) as unknown
+
+  const scratchPath = path.join(os.tmpdir(), `echolingo-restore-${crypto.randomUUID()}.db`)
+  await fs.copyFile(filePath, scratchPath)
+  const scratch = createSqliteStorage(scratchPath)
+  try {
+    return await scratch.load()
+  } finally {
+    scratch.close()
+    await Promise.all(['', '-wal', '-shm'].map((suffix) => fs.rm(`${scratchPath}${suffix}`, { force: true })))
+  }
+}
+
+function createJsonStorage(filePath: string): StorageBackend {
+  return {
+    kind: 'json',
+    backupExtension: '.json',
+
+    async load() {
+      try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as unknown
+      } catch {
+        return null
+      }
+    },
+
+    async save(database) {
+      await fs.writeFile(filePath, JSON.stringify(database, null, 2), 'utf8')
+    },
+
+    async backup(database, backupPath) {
+      await fs.writeFile(backupPath, JSON.stringify(database, null, 2), 'utf8')
+    },
+
+    close() {}
+  }
+}
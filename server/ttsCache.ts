@@ -0,0 +1,158 @@
+import crypto from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+// Content-addressed cache of synthesized audio. A file's name is the hash of everything that changes the
+// audio, so entries never go stale; the only policy needed is least-recently-used eviction by total size.
+
+export type TtsCacheKeyParts = {
+  model: string
+  voice: string
+  speed: number
+  text: string
+}
+
+export type TtsCacheStats = {
+  enabled: boolean
+  entries: number
+  bytes: number
+  maxBytes: number
+  // Counted since the server started.
+  hits: number
+  misses: number
+  since: string
+}
+
+export type CachedAudio = {
+  audio: Buffer
+  contentType: string
+}
+
+export type TtsCache = {
+  get(key: string): Promise<CachedAudio | null>
+  put(key: string, entry: CachedAudio): Promise<void>
+  stats(): TtsCacheStats
+  clear(): Promise<number>
+}
+
+type CacheEntry = { size: number; extension: string }
+
+// Engines return different formats; the file extension records which one a cached file holds.
+const CONTENT_TYPES: Record<string, string> = { '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.ogg': 'audio/ogg' }
+const KEY_PATTERN = /^[0-9a-f]{64}$/
+
+export function ttsCacheKey(parts: TtsCacheKeyParts): string {
+  // Speed is rounded the same way for every caller so 0.95 and 0.9500001 share one entry.
+  const speed = Math.round(parts.speed * 100) / 100
+  return crypto.createHash('sha256').update(JSON.stringify([parts.model, parts.voice, speed, parts.text])).digest('hex')
+}
+
+function isTtsCacheKey(value: string): boolean {
+  return KEY_PATTERN.test(value)
+}
+
+/** Opens the cache in `dir`, indexing existing files oldest-access first. `maxBytes` 0 disables caching. */
+export async function openTtsCache(dir: string, maxBytes: number): Promise<TtsCache> {
+  // Map order is the LRU order: the first key is the next one evicted.
+  const entries = new Map<string, CacheEntry>()
+  let totalBytes = 0
+  let hits = 0
+  let misses = 0
+  const since = new Date().toISOString()
+
+  if (maxBytes > 0) {
+    await fs.mkdir(dir, { recursive: true })
+    const found: Array<{ key: string; extension: string; size: number; lastUsed: number }> = []
+    for (const name of await fs.readdir(dir)) {
+      const extension = path.extname(name)
+      const key = path.basename(name, extension)
+      if (!CONTENT_TYPES[extension] || !isTtsCacheKey(key)) continue
+      const stat = await fs.stat(path.join(dir, name))
+      found.push({ key, extension, size: stat.size, lastUsed: stat.mtimeMs })
+    }
+    found.sort((a, b) => a.lastUsed - b.lastUsed)
+    for (const item of found) {
+      entries.set(item.key, { size: item.size, extension: item.extension })
+      totalBytes += item.size
+    }
+  }
+
+  const filePath = (key: string, entry: CacheEntry) => path.join(dir, `${key}${entry.extension}`)
+
+  const remove = async (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return
+    entries.delete(key)
+    totalBytes -= entry.size
+    await fs.rm(filePath(key, entry), { force: true })
+  }
+
+  const evict = async () => {
+    for (const key of entries.keys()) {
+      if (totalBytes <= maxBytes) break
+      await remove(key)
+    }
+  }
+
+  // Startup may find more on disk than a lowered limit allows.
+  if (maxBytes > 0) await evict()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (maxBytes <= 0 || !entry) {
+        misses += 1
+        return null
+      }
+
+      let audio: Buffer
+      try {
+        audio = await fs.readFile(filePath(key, entry))
+      } catch {
+        // Removed behind our back; forget it and synthesize again.
+        entries.delete(key)
+        totalBytes -= entry.size
+        misses += 1
+        return null
+      }
+
+      hits += 1
+      entries.delete(key)
+      entries.set(key, entry)
+      // mtime doubles as the last-access time, so the LRU order survives a restart.
+      const now = new Date()
+      void fs.utimes(filePath(key, entry), now, now).catch(() => undefined)
+      return { audio, contentType: CONTENT_TYPES[entry.extension] }
+    },
+
+    async put(key, { audio, contentType }) {
+      const extension = Object.keys(CONTENT_TYPES).find((item) => CONTENT_TYPES[item] === contentType)
+      if (maxBytes <= 0 || audio.length > maxBytes || !isTtsCacheKey(key) || !extension) return
+
+      const entry: CacheEntry = { size: audio.length, extension }
+      const partial = path.join(dir, `.${key}.partial`)
+      await fs.writeFile(partial, audio)
+      await fs.rename(partial, filePath(key, entry))
+
+      const previous = entries.get(key)
+      if (previous) {
+        entries.delete(key)
+        totalBytes -= previous.size
+        if (previous.extension !== extension) await fs.rm(filePath(key, previous), { force: true })
+      }
+      entries.set(key, entry)
+      totalBytes += audio.length
+      await evict()
+    },
+
+    stats() {
+      return { enabled: maxBytes > 0, entries: entries.size, bytes: totalBytes, maxBytes, hits, misses, since }
+    },
+
+    async clear() {
+      const count = entries.size
+      for (const key of [...entries.keys()]) await remove(key)
+      return count
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { execFile } from 'node:child_process'
+import crypto from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { TtsEngine } from './types'
+
+// Server-side speech engines behind `/api/tts`. Each user picks one per language bucket in their
+// speech settings; 'browser' never reaches the server.
+
+export type ServerTtsEngine = 'openai' | 'local' | 'http'
+export type TtsLangBucket = 'en' | 'zh' | 'ja'
+
+export type TtsRequest = {
+  text: string
+  voice: string
+  speed: number
+  lang: TtsLangBucket
+}
+
+export type TtsAudio = {
+  audio: Buffer
+  contentType: string
+}
+
+export type TtsProvider = {
+  engine: ServerTtsEngine
+  label: string
+  // Everything besides the request that shapes the audio (model, command, endpoint); part of the cache key.
+  cacheTag: string
+  /** The voice actually used for `request`, so cache entries for different voices never collide. */
+  resolveVoice(request: Pick<TtsRequest, 'voice' | 'lang'>): string
+  synthesize(request: TtsRequest): Promise<TtsAudio>
+}
+
+export const SERVER_TTS_ENGINES: ServerTtsEngine[] = ['openai', 'local', 'http']
+export const TTS_ENGINES: TtsEngine[] = ['browser', ...SERVER_TTS_ENGINES]
+
+const REQUEST_TIMEOUT_MS = 60 * 1000
+const LOCAL_CONTENT_TYPES: Record<string, string> = { wav: 'audio/wav', mp3: 'audio/mpeg', ogg: 'audio/ogg' }
+
+/** Providers configured in the environment; engines without configuration are left out. */
+export function createTtsProviders(env: NodeJS.ProcessEnv): Partial<Record<ServerTtsEngine, TtsProvider>> {
+  const providers: Partial<Record<ServerTtsEngine, TtsProvider>> = {}
+
+  const openAiKey = String(env.OPENAI_API_KEY ?? '')
+  if (openAiKey) {
+    const model = env.OPENAI_TTS_MODEL ?? 'gpt-4o-mini-tts'
+    // The bare model name keeps cache entries written before other engines existed valid.
+    providers.openai = createSpeechApiProvider('openai', 'OpenAI TTS', 'https://api.openai.com/v1/audio/speech', openAiKey, model, model)
+  }
+
+  const httpUrl = String(env.TTS_HTTP_URL ?? '').trim()
+  if (httpUrl) {
+    const model = String(env.TTS_HTTP_MODEL ?? '').trim() || 'tts-1'
+    providers.http = createSpeechApiProvider('http', 'HTTP TTS', httpUrl, String(env.TTS_HTTP_API_KEY ?? ''), model, `http:${httpUrl}:${model}`)
+  }
+
+  const command = String(env.TTS_LOCAL_COMMAND ?? '').trim()
+  if (command) {
+    const format = String(env.TTS_LOCAL_FORMAT ?? '').trim().toLowerCase() || 'wav'
+    if (!LOCAL_CONTENT_TYPES[format]) throw new Error(`unsupported TTS_LOCAL_FORMAT: ${format}`)
+    providers.local = createLocalProvider(command, format, {
+      en: String(env.TTS_LOCAL_VOICE_EN ?? '').trim(),
+      zh: String(env.TTS_LOCAL_VOICE_ZH ?? '').trim(),
+      ja: String(env.TTS_LOCAL_VOICE_JA ?? '').trim()
+    })
+  }
+
+  return providers
+}
+
+export function toTtsLangBucket(raw: unknown): TtsLangBucket {
+  const lang = String(raw ?? '').toLowerCase()
+  if (lang.startsWith('ja')) return 'ja'
+  if (lang.startsWith('zh')) return 'zh'
+  return 'en'
+}
+
+// OpenAI's `/v1/audio/speech`, or any self-hosted server that speaks the same API (the HTTP stand-in).
+function createSpeechApiProvider(
+  engine: ServerTtsEngine,
+  label: string,
+  url: string,
+  apiKey: string,
+  model: string,
+  cacheTag: string
+): TtsProvider {
+  return {
+    engine,
+    label,
+    cacheTag,
+
+    resolveVoice(request) {
+      return request.voice
+    },
+
+    async synthesize(request) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ model, voice: request.voice, speed: request.speed, input: request.text }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        throw new Error(`${label} ${response.status}: ${(await response.text()).slice(0, 300)}`)
+      }
+
+      return {
+        audio: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type')?.split(';')[0] || 'audio/mpeg'
+      }
+    }
+  }
+}
+
+/**
+ * Runs a command-line engine such as Piper or espeak-ng. The text is written to its stdin; the command
+ * template's placeholders are filled per request: {voice}, {speed}, {wpm} (espeak words per minute),
+ * {lengthScale} (Piper, the inverse of speed) and {output}, the file it must write.
+ */
+function createLocalProvider(command: string, format: string, voices: Record<TtsLangBucket, string>): TtsProvider {
+  // Parsed once and run without a shell, so neither the text nor the settings can inject arguments.
+  const [program, ...args] = command.split(/\s+/)
+  // One synthesis at a time: these engines are CPU-bound and parallel runs only slow each other down.
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const run = async (request: TtsRequest): Promise<TtsAudio> => {
+    const output = path.join(os.tmpdir(), `echolingo-tts-${crypto.randomUUID()}.${format}`)
+    const values: Record<string, string> = {
+      voice: request.voice,
+      speed: String(request.speed),
+      wpm: String(Math.round(175 * request.speed)),
+      lengthScale: (1 / request.speed).toFixed(2),
+      output
+    }
+    const filledArgs = args.map((arg) => arg.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match))
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const child = execFile(program, filledArgs, { timeout: REQUEST_TIMEOUT_MS }, (error, _stdout, stderr) => {
+          if (error) reject(new Error(`${program} failed: ${String(stderr || error.message).trim().slice(0, 300)}`))
+          else resolve()
+        })
+        child.stdin?.end(request.text)
+      })
+      return { audio: await fs.readFile(output), contentType: LOCAL_CONTENT_TYPES[format] }
+    } finally {
+      await fs.rm(output, { force: true })
+    }
+  }
+
+  return {
+    engine: 'local',
+    label: `Local TTS (${path.basename(program)})`,
+    cacheTag: `local:${command}`,
+
+    resolveVoice(request) {
+      return voices[request.lang]
+    },
+
+    synthesize(request) {
+      const job = queue.then(() => run(request))
+      queue = job.catch(() => undefined)
+      return job
+    }
+  }
+}
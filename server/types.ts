@@ -0,0 +1,225 @@
+// Records persisted by the storage backends.
+
+export type UserRole = 'admin' | 'teacher' | 'user'
+export type ThemeMode = 'light' | 'dark'
+
+export type EnglishWord = {
+  id: string
+  word: string
+  meaningZh: string
+  tags: string[]
+  needsWork: boolean
+  level: number
+  ease: number
+  stability: number
+  dueAt: string | null
+  lapses: number
+  lastReviewedAt: string | null
+  revision: number
+  updatedAt: string
+}
+
+export type JapaneseSentence = {
+  id: string
+  sentence: string
+  romaji: string
+  meaningZh: string
+  tags: string[]
+  vocabulary: Array<{ word: string; meaningZh: string }>
+  level: number
+  ease: number
+  stability: number
+  dueAt: string | null
+  lapses: number
+  lastReviewedAt: string | null
+  revision: number
+  updatedAt: string
+}
+
+export type PlaybackField = 'word' | 'spelling' | 'meaning' | 'sentence' | 'romaji' | 'vocabulary'
+
+export type PlaybackStep =
+  | { kind: PlaybackField; repeat: number }
+  | { kind: 'pause'; ms: number }
+
+export type PlaybackTemplates = Record<'en' | 'ja', PlaybackStep[]>
+
+// 'browser' speaks on the device; the others are synthesized by the server (`/api/tts`).
+export type TtsEngine = 'browser' | 'openai' | 'local' | 'http'
+
+// A day's budget for one content type, or what has been used of it.
+export type DailyTally = {
+  newItems: number
+  reviews: number
+}
+
+export type DailyLimits = Record<'english' | 'japanese', DailyTally>
+
+export type SpeechSettings = {
+  engines: Record<'en' | 'zh' | 'ja', TtsEngine>
+  openAiVoice: string
+  browserVoices: Record<'en' | 'zh' | 'ja', string>
+  rates: Record<'en' | 'zh' | 'ja', number>
+  pitches: Record<'en' | 'zh' | 'ja', number>
+  browserVolumes: Record<'en' | 'zh' | 'ja', number>
+  // Applies to every server engine; the name predates the local and HTTP ones.
+  openAiVolumes: Record<'en' | 'zh' | 'ja', number>
+  templates: PlaybackTemplates
+  dailyLimits: DailyLimits
+}
+
+export type UserDataRecord = {
+  englishWords: EnglishWord[]
+  japaneseSentences: JapaneseSentence[]
+  speechSettings: SpeechSettings
+  theme: ThemeMode
+  settingsRevision: number
+  updatedAt: string
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+// 'playback' events record exposure only: they never reschedule the item and their grade is not used.
+export type ReviewMode = 'manual' | 'playback' | 'quiz' | 'dictation'
+
+export type ReviewEvent = {
+  id: string
+  itemId: string
+  itemType: 'english' | 'japanese'
+  reviewedAt: string
+  grade: ReviewGrade
+  mode: ReviewMode
+  durationMs: number
+  engine: TtsEngine
+}
+
+export type UserRecord = {
+  account: string
+  // scrypt hash; plaintext only for records not yet upgraded at login
+  password: string
+  mustChangePassword: boolean
+  active: boolean
+  role: UserRole
+  // Teacher account this user is assigned to as a student.
+  teacher: string | null
+  name: string
+  createdAt: string
+  updatedAt: string
+  data: UserDataRecord
+  reviews: ReviewEvent[]
+  // Private podcast feed of the daily due items; null until the user turns it on.
+  podcastFeed: PodcastFeedRecord | null
+}
+
+// Like sessions, only the SHA-256 digest of the feed token is stored.
+export type PodcastFeedRecord = {
+  tokenHash: string
+  createdAt: string
+  // The learner's offset from UTC in minutes (east positive), kept current by the app. Episodes are dated
+  // and counted by the learner's day, not the server's.
+  utcOffsetMinutes: number
+}
+
+// One signed-in device. Only SHA-256 digests of the tokens are kept, so a leaked database or backup
+// cannot be replayed as a login.
+export type SessionRecord = {
+  id: string
+  account: string
+  accessTokenHash: string
+  accessExpiresAt: number
+  refreshTokenHash: string
+  // Sliding: pushed forward every time the refresh token is used.
+  expiresAt: number
+  createdAt: string
+  lastSeenAt: string
+  userAgent: string
+  ip: string
+}
+
+export type DeckItemType = ReviewEvent['itemType']
+
+// Content of one deck item as published; subscribers get their own copy with fresh scheduler state.
+export type DeckEntry =
+  | { id: string; itemType: 'english'; word: string; meaningZh: string; tags: string[] }
+  | { id: string; itemType: 'japanese'; sentence: string; romaji: string; meaningZh: string; tags: string[]; vocabulary: JapaneseSentence['vocabulary'] }
+
+export type DeckSubscription = {
+  subscribedAt: string
+  // Entry ids already copied to the subscriber, so deleted copies are not delivered again.
+  deliveredEntryIds: string[]
+}
+
+export type DeckRecord = {
+  id: string
+  owner: string
+  name: string
+  description: string
+  // The owner's items carrying any of these tags (within `itemTypes`) make up the deck.
+  tags: string[]
+  itemTypes: DeckItemType[]
+  published: boolean
+  // Bumped whenever a publish changes `entries`.
+  version: number
+  entries: DeckEntry[]
+  subscribers: Record<string, DeckSubscription>
+  createdAt: string
+  updatedAt: string
+}
+
+export type AuditAction =
+  | 'user.create'
+  | 'user.delete'
+  | 'user.password_reset'
+  | 'user.status'
+  | 'user.teacher'
+  | 'data.import'
+  | 'students.push'
+  | 'backup.create'
+  | 'backup.restore'
+  | 'backup.retention'
+  | 'tts.cache_clear'
+
+// One administrative or bulk data change. Append-only; `actor` and `target` are plain account names so
+// entries outlive the accounts they mention.
+export type AuditEntry = {
+  id: string
+  at: string
+  actor: string
+  action: AuditAction
+  target: string
+  ip: string
+  summary: string
+  details: Record<string, string | number | boolean | null>
+}
+
+// How many backup files `ensureDailyBackup` keeps per kind; see selectBackupsToPrune.
+export type BackupRetention = {
+  daily: number
+  weekly: number
+  manual: number
+}
+
+// Outcome of the last off-disk copy of a backup file.
+export type BackupUploadStatus = {
+  fileName: string
+  // Name on the target, with `.gz` / `.enc` when those are enabled.
+  storedAs: string
+  target: string
+  at: string
+  ok: boolean
+  error: string | null
+  bytes: number
+  durationMs: number
+}
+
+export type AppDatabase = {
+  meta: {
+    lastBackupDate: string | null
+    backupRetention: BackupRetention
+    lastBackupUpload: BackupUploadStatus | null
+  }
+  users: Record<string, UserRecord>
+  sessions: Record<string, SessionRecord>
+  decks: Record<string, DeckRecord>
+  // Oldest first, capped at MAX_AUDIT_ENTRIES.
+  auditLog: AuditEntry[]
+}
@@ -0,0 +1,40 @@
+import { createSrsState } from '../src/scheduler'
+import type { EnglishWord, JapaneseSentence, UserRecord } from './types'
+
+/**
+ * Prepends items that come from outside the user's own devices (teacher lists, deck deliveries). Words or
+ * sentences the user already has are skipped; added items start with fresh scheduler state.
+ */
+export function appendNewItems(
+  user: UserRecord,
+  englishWords: EnglishWord[],
+  japaneseSentences: JapaneseSentence[],
+  now: string
+): { englishWords: number; japaneseSentences: number } {
+  const fresh = { ...createSrsState(), revision: 1, updatedAt: now }
+  const knownWords = new Set(user.data.englishWords.map((item) => item.word.toLowerCase()))
+  const knownSentences = new Set(user.data.japaneseSentences.map((item) => item.sentence))
+
+  const addedWords: EnglishWord[] = []
+  for (const item of englishWords) {
+    if (knownWords.has(item.word.toLowerCase())) continue
+    knownWords.add(item.word.toLowerCase())
+    addedWords.push({ ...item, ...fresh, needsWork: false })
+  }
+
+  const addedSentences: JapaneseSentence[] = []
+  for (const item of japaneseSentences) {
+    if (knownSentences.has(item.sentence)) continue
+    knownSentences.add(item.sentence)
+    addedSentences.push({ ...item, ...fresh })
+  }
+
+  if (addedWords.length + addedSentences.length > 0) {
+    user.data.englishWords = [...addedWords, ...user.data.englishWords]
+    user.data.japaneseSentences = [...addedSentences, ...user.data.japaneseSentences]
+    user.data.updatedAt = now
+    user.updatedAt = now
+  }
+
+  return { englishWords: addedWords.length, japaneseSentences: addedSentences.length }
+}
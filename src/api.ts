@@ -1,15 +1,18 @@
-import { token, clearAuth } from './state'
+import {
+  token, refreshToken, clearAuth, setToken, setRefreshToken, AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY
+} from './state'
 import { triggerRender } from './renderBus'
 import { toast } from './utils'
 
+let refreshInFlight: Promise<boolean> | null = null
+
 export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
-  const headers = new Headers(init.headers)
-  if (token) headers.set('Authorization', `Bearer ${token}`)
+  let response = await send(path, init)
 
-  const response = await fetch(path, {
-    ...init,
-    headers
-  })
+  // An expired access token is renewed once with the refresh token, then the request is retried.
+  if (response.status === 401 && token && await refreshSession()) {
+    response = await send(path, init)
+  }
 
   if (response.status === 401 && token) {
     clearAuth()
@@ -20,6 +23,52 @@ export async function apiFetch(path: string, init: RequestInit = {}): Promise<Re
   return response
 }
 
+export function storeSessionTokens(accessToken: string, nextRefreshToken: string): void {
+  setToken(accessToken)
+  setRefreshToken(nextRefreshToken)
+  localStorage.setItem(AUTH_TOKEN_KEY, accessToken)
+  localStorage.setItem(REFRESH_TOKEN_KEY, nextRefreshToken)
+}
+
+function send(path: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers)
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+
+  return fetch(path, {
+    ...init,
+    headers
+  })
+}
+
+function refreshSession(): Promise<boolean> {
+  refreshInFlight ??= renewTokens().finally(() => {
+    refreshInFlight = null
+  })
+  return refreshInFlight
+}
+
+async function renewTokens(): Promise<boolean> {
+  // Another tab may already have rotated the tokens; its copy in localStorage is then the live one.
+  const storedToken = localStorage.getItem(AUTH_TOKEN_KEY) ?? ''
+  const storedRefreshToken = localStorage.getItem(REFRESH_TOKEN_KEY) ?? ''
+  if (storedToken && storedToken !== token) {
+    storeSessionTokens(storedToken, storedRefreshToken)
+    return true
+  }
+  if (!refreshToken) return false
+
+  const response = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken })
+  })
+  if (!response.ok) return false
+
+  const payload = (await response.json()) as { token: string; refreshToken: string }
+  storeSessionTokens(payload.token, payload.refreshToken)
+  return true
+}
+
 export async function safeReadText(response: Response): Promise<string> {
   try {
     const json = await response.json() as { error?: string }
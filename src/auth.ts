@@ -1,13 +1,14 @@
-import type { AuthUser, ProviderStatus, AdminUserSummary, BackupFile } from './types'
+import type {
+  AuthUser, ProviderStatus, AdminUserSummary, AuditEntry, BackupFile, BackupRetention, BackupUploadInfo, RestorePreview, TtsCacheStats, SessionSummary, StudentProgress, PodcastFeedInfo, DailyTally, ReviewStats
+} from './types'
 import {
-  token, authUser,
-  setToken, setAuthUser, setProviderStatus, setAdminUsers, setBackupFiles,
-  clearAuth, AUTH_TOKEN_KEY
+  token, authUser, auditFilter, offlineMode,
+  setAuthUser, setProviderStatus, setAdminUsers, setBackupFiles, setBackupRetention, setBackupUpload, setRestorePreview, setTtsCacheStats, setAuditEntries, setAccountSessions, setPodcastFeed, setPodcastFeedUrl, setStudents, setDailyTallies, setReviewStats,
+  clearAuth
 } from './state'
-import { apiFetch, safeReadText } from './api'
+import { apiFetch, safeReadText, storeSessionTokens } from './api'
 import {
-  normalizeEnglishWords, normalizeJapaneseSentences, sanitizeSpeechSettings,
-  setLocalSeedFallback, persistUserData
+  normalizeUserData, setLocalSeedFallback, persistUserData, flushReviewEvents, rebaseUserData, countUnsyncedChanges
 } from './data'
 import {
   setEnglishWords, setJapaneseSentences, setSpeechSettings, setThemeMode
@@ -17,14 +18,25 @@ import { toast } from './utils'
 import { triggerRender } from './renderBus'
 import type { UserDataPayload } from './types'
 import { stopAllPlayback } from './review'
+import { clearOfflineData, countOutbox, readOfflineSnapshot } from './offline'
+import { setOfflineMode, setSyncBase } from './state'
+import { checkPasswordPolicy } from './passwordPolicy'
+import { hasPermission } from './permissions'
+import { startOfLocalDay } from './dailyLimits'
+import { loadDecks } from './decks'
 
 export async function fetchMe(): Promise<AuthUser | null> {
   try {
     const response = await apiFetch('/api/auth/me')
     if (!response.ok) return null
+    setOfflineMode(false)
     return (await response.json()) as AuthUser
   } catch {
-    return null
+    // API unreachable: keep the last signed-in user so reviews continue from the offline mirror.
+    const snapshot = await readOfflineSnapshot()
+    if (!snapshot) return null
+    setOfflineMode(true)
+    return snapshot.user
   }
 }
 
@@ -34,29 +46,47 @@ export async function loadProviderStatus(): Promise<void> {
     if (!response.ok) return
     setProviderStatus((await response.json()) as ProviderStatus)
   } catch {
-    setProviderStatus({ tts: { browser: true, openai: false }, news: { rss: true, newsapi: false } })
+    setProviderStatus({ tts: { browser: true, openai: false, local: false, http: false }, news: { rss: true, newsapi: false } })
   }
 }
 
 export async function loadUserData(): Promise<void> {
+  let remote: UserDataPayload
   try {
     const response = await apiFetch('/api/user/data')
     if (!response.ok) throw new Error('load user data failed')
-
-    const payload = (await response.json()) as { data: UserDataPayload }
-    setEnglishWords(normalizeEnglishWords(payload.data.englishWords))
-    setJapaneseSentences(normalizeJapaneseSentences(payload.data.japaneseSentences))
-    setSpeechSettings(sanitizeSpeechSettings(payload.data.speechSettings))
-    setThemeMode(payload.data.theme === 'dark' ? 'dark' : 'light')
-
-    applyTheme()
+    remote = normalizeUserData(((await response.json()) as { data: UserDataPayload }).data)
   } catch {
-    setLocalSeedFallback()
+    const snapshot = authUser ? await readOfflineSnapshot(authUser.account) : null
+    if (snapshot) {
+      applyUserData(snapshot.data)
+      setSyncBase(snapshot.base ? normalizeUserData(snapshot.base) : null)
+    } else {
+      setLocalSeedFallback()
+      setSyncBase(null)
+    }
+    return
   }
+
+  // Edits that never reached the server are replayed on top of the fresh copy and sent again.
+  const snapshot = authUser ? await readOfflineSnapshot(authUser.account) : null
+  applyUserData(snapshot?.base ? rebaseUserData(normalizeUserData(snapshot.base), normalizeUserData(snapshot.data), remote) : remote)
+  setSyncBase(remote)
+  void persistUserData(false)
+}
+
+function applyUserData(data: UserDataPayload): void {
+  const normalized = normalizeUserData(data)
+  setEnglishWords(normalized.englishWords)
+  setJapaneseSentences(normalized.japaneseSentences)
+  setSpeechSettings(normalized.speechSettings)
+  setThemeMode(normalized.theme)
+
+  applyTheme()
 }
 
 export async function loadAdminUsers(): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'users:manage')) return
 
   const response = await apiFetch('/api/admin/users')
   if (!response.ok) return
@@ -66,13 +96,38 @@ export async function loadAdminUsers(): Promise<void> {
 }
 
 export async function loadBackups(): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
 
   const response = await apiFetch('/api/admin/backups')
   if (!response.ok) return
 
-  const payload = (await response.json()) as { files: BackupFile[] }
+  const payload = (await response.json()) as { files: BackupFile[]; retention: BackupRetention; upload: BackupUploadInfo }
   setBackupFiles(payload.files)
+  setBackupRetention(payload.retention)
+  setBackupUpload(payload.upload)
+}
+
+/** Loads the newest audit entries matching the current `auditFilter`. */
+export async function loadAuditLog(): Promise<void> {
+  if (!hasPermission(authUser?.role, 'audit:view')) return
+
+  const params = new URLSearchParams()
+  if (auditFilter.actor) params.set('actor', auditFilter.actor)
+  if (auditFilter.action) params.set('action', auditFilter.action)
+  if (auditFilter.target) params.set('target', auditFilter.target)
+  // Date inputs are local calendar days; the end day is included.
+  if (auditFilter.since) params.set('since', new Date(`${auditFilter.since}T00:00`).toISOString())
+  if (auditFilter.until) {
+    const end = new Date(`${auditFilter.until}T00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set('until', end.toISOString())
+  }
+
+  const response = await apiFetch(`/api/admin/audit?${params.toString()}`)
+  if (!response.ok) return
+
+  const payload = (await response.json()) as { entries: AuditEntry[]; total: number }
+  setAuditEntries(payload.entries, payload.total)
 }
 
 export async function login(account: string, password: string): Promise<void> {
@@ -98,16 +153,12 @@ export async function login(account: string, password: string): Promise<void> {
       return
     }
 
-    const payload = (await response.json()) as { token: string; user: AuthUser }
-    setToken(payload.token)
-    localStorage.setItem(AUTH_TOKEN_KEY, payload.token)
+    const payload = (await response.json()) as { token: string; refreshToken: string; user: AuthUser }
+    storeSessionTokens(payload.token, payload.refreshToken)
     setAuthUser(payload.user)
 
-    await Promise.all([loadProviderStatus(), loadUserData()])
-
-    if (payload.user.role === 'admin') {
-      await Promise.all([loadAdminUsers(), loadBackups()])
-    }
+    // Accounts on an initial password only get the change-password screen until it is replaced.
+    if (!payload.user.mustChangePassword) await loadSignedInData()
 
     triggerRender()
   } catch {
@@ -115,8 +166,196 @@ export async function login(account: string, password: string): Promise<void> {
   }
 }
 
+async function loadSignedInData(): Promise<void> {
+  await Promise.all([loadProviderStatus(), loadUserData(), loadSessions(), loadPodcastFeed(), loadDailyTallies(), loadDecks()])
+  await loadRoleData()
+}
+
+/** Loads the management lists the signed-in role is allowed to see. */
+export async function loadRoleData(): Promise<void> {
+  const role = authUser?.role
+  await Promise.all([
+    hasPermission(role, 'users:manage') ? loadAdminUsers() : undefined,
+    hasPermission(role, 'backups:manage') ? loadBackups() : undefined,
+    hasPermission(role, 'audit:view') ? loadAuditLog() : undefined,
+    hasPermission(role, 'tts:manage') ? loadTtsCacheStats() : undefined,
+    hasPermission(role, 'students:view') ? loadStudents() : undefined
+  ])
+}
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  if (!authUser) return
+  if (!currentPassword || !newPassword) {
+    toast('請輸入目前密碼與新密碼')
+    return
+  }
+
+  const policyError = checkPasswordPolicy(newPassword, authUser.account)
+  if (policyError) {
+    toast(policyError)
+    return
+  }
+
+  try {
+    const response = await apiFetch('/api/auth/password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ currentPassword, newPassword })
+    })
+
+    if (!response.ok) {
+      const errorText = await safeReadText(response)
+      toast(`改密碼失敗：${errorText}`)
+      return
+    }
+  } catch {
+    toast('改密碼失敗，請確認後端已啟動')
+    return
+  }
+
+  const wasForced = authUser.mustChangePassword === true
+  setAuthUser({ ...authUser, mustChangePassword: false })
+  // The server signed out the other devices.
+  if (wasForced) await loadSignedInData()
+  else await loadSessions()
+
+  triggerRender()
+  toast('已更新密碼，其他裝置需重新登入')
+}
+
+export async function loadSessions(): Promise<void> {
+  if (!authUser) return
+
+  try {
+    const response = await apiFetch('/api/auth/sessions')
+    if (!response.ok) return
+    setAccountSessions(((await response.json()) as { sessions: SessionSummary[] }).sessions)
+  } catch {
+    // offline: keep the last list
+  }
+}
+
+export async function loadPodcastFeed(): Promise<void> {
+  if (!authUser) return
+
+  try {
+    const response = await apiFetch('/api/user/feed')
+    if (!response.ok) return
+    const feed = (await response.json()) as PodcastFeedInfo
+    setPodcastFeed(feed)
+
+    // Episodes are dated by the learner's day, so follow the browser's time zone, e.g. across DST.
+    const utcOffset = -new Date().getTimezoneOffset()
+    if (feed.enabled && feed.utcOffsetMinutes !== utcOffset) {
+      await apiFetch('/api/user/feed', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ utcOffset })
+      })
+    }
+  } catch {
+    // offline: keep the last state
+  }
+}
+
+/** Today's review counts from the server, which has the whole review history needed to tell new items apart. */
+export async function loadDailyTallies(): Promise<void> {
+  if (!authUser) return
+
+  const since = startOfLocalDay().toISOString()
+  try {
+    const response = await apiFetch(`/api/user/reviews/daily?since=${encodeURIComponent(since)}`)
+    if (!response.ok) return
+    const payload = (await response.json()) as Record<'english' | 'japanese', DailyTally>
+    setDailyTallies({ english: payload.english, japanese: payload.japanese }, since)
+  } catch {
+    // offline: keep counting locally
+  }
+}
+
+/** Sends pending reviews first, so the numbers include what was just reviewed. */
+export async function loadReviewStats(): Promise<void> {
+  if (!authUser) return
+
+  await flushReviewEvents()
+  try {
+    const response = await apiFetch(`/api/user/stats?utcOffset=${-new Date().getTimezoneOffset()}`)
+    if (!response.ok) return
+    setReviewStats((await response.json()) as ReviewStats)
+  } catch {
+    // offline: keep the last numbers
+  }
+}
+
+/** Turns the feed on, or replaces its address; the URL is only available in the response. */
+export async function createPodcastFeed(): Promise<void> {
+  const response = await apiFetch('/api/user/feed', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ utcOffset: -new Date().getTimezoneOffset() })
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`建立 Podcast 訂閱失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { path: string }
+  setPodcastFeedUrl(new URL(payload.path, window.location.origin).toString())
+  await loadPodcastFeed()
+  triggerRender()
+  toast('已建立 Podcast 訂閱網址')
+}
+
+export async function deletePodcastFeed(): Promise<void> {
+  const response = await apiFetch('/api/user/feed', { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`停用 Podcast 訂閱失敗：${errorText}`)
+    return
+  }
+
+  setPodcastFeedUrl(null)
+  await loadPodcastFeed()
+  triggerRender()
+  toast('已停用 Podcast 訂閱')
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  const response = await apiFetch(`/api/auth/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`登出裝置失敗：${errorText}`)
+    return
+  }
+
+  await loadSessions()
+  triggerRender()
+  toast('已登出該裝置')
+}
+
+export async function revokeOtherSessions(): Promise<void> {
+  const response = await apiFetch('/api/auth/sessions', { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`登出其他裝置失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { revoked: number }
+  await loadSessions()
+  triggerRender()
+  toast(`已登出其他 ${payload.revoked} 個裝置`)
+}
+
 export async function logout(): Promise<void> {
   await persistUserData(true)
+  await flushReviewEvents()
+
+  // Logging out clears the offline copy and the outbox, so whatever did not reach the server would be lost.
+  const unsynced = countUnsyncedChanges() + await countOutbox()
+  if (unsynced > 0 && !window.confirm(`還有 ${unsynced} 筆變更尚未同步${offlineMode ? '（目前離線）' : ''}，登出後會遺失。確定要登出？`)) return
+
   stopAllPlayback(true)
 
   if (token) {
@@ -128,12 +367,13 @@ export async function logout(): Promise<void> {
   }
 
   clearAuth()
+  await clearOfflineData()
   setLocalSeedFallback()
   triggerRender()
 }
 
 export async function refreshProviderByAdmin(): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'providers:refresh')) return
 
   const response = await apiFetch('/api/admin/providers/refresh', { method: 'POST' })
   if (!response.ok) {
@@ -146,8 +386,37 @@ export async function refreshProviderByAdmin(): Promise<void> {
   toast('已更新 API 狀態')
 }
 
+export async function loadTtsCacheStats(): Promise<void> {
+  if (!hasPermission(authUser?.role, 'tts:manage')) return
+
+  const response = await apiFetch('/api/admin/tts-cache')
+  if (!response.ok) return
+  setTtsCacheStats((await response.json()) as TtsCacheStats)
+}
+
+export async function clearTtsCache(): Promise<void> {
+  if (!hasPermission(authUser?.role, 'tts:manage')) return
+
+  const response = await apiFetch('/api/admin/tts-cache', { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`清除語音快取失敗：${errorText}`)
+    return
+  }
+
+  setTtsCacheStats((await response.json()) as TtsCacheStats)
+  await loadAuditLog()
+  triggerRender()
+  toast('已清除語音快取')
+}
+
 export async function adminCreateUser(account: string, password: string, name: string, role: string): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'users:manage')) return
+  const policyError = checkPasswordPolicy(password, account)
+  if (policyError) {
+    toast(policyError)
+    return
+  }
 
   const response = await apiFetch('/api/admin/users', {
     method: 'POST',
@@ -161,13 +430,13 @@ export async function adminCreateUser(account: string, password: string, name: s
     return
   }
 
-  await loadAdminUsers()
+  await Promise.all([loadAdminUsers(), loadAuditLog()])
   triggerRender()
   toast('已新增使用者')
 }
 
 export async function adminDeleteUser(account: string): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'users:manage')) return
 
   const response = await apiFetch(`/api/admin/users/${encodeURIComponent(account)}`, { method: 'DELETE' })
   if (!response.ok) {
@@ -176,15 +445,16 @@ export async function adminDeleteUser(account: string): Promise<void> {
     return
   }
 
-  await loadAdminUsers()
+  await Promise.all([loadAdminUsers(), loadAuditLog()])
   triggerRender()
   toast('已刪除使用者')
 }
 
 export async function adminChangeUserPassword(account: string, password: string): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
-  if (password.length < 4) {
-    toast('密碼至少 4 碼')
+  if (!hasPermission(authUser?.role, 'users:manage')) return
+  const policyError = checkPasswordPolicy(password, account)
+  if (policyError) {
+    toast(policyError)
     return
   }
 
@@ -200,13 +470,13 @@ export async function adminChangeUserPassword(account: string, password: string)
     return
   }
 
-  await loadAdminUsers()
+  await Promise.all([loadAdminUsers(), loadAuditLog()])
   triggerRender()
   toast(`已更新 ${account} 密碼`)
 }
 
 export async function adminSetUserStatus(account: string, active: boolean): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'users:manage')) return
 
   const response = await apiFetch(`/api/admin/users/${encodeURIComponent(account)}/status`, {
     method: 'PATCH',
@@ -220,13 +490,80 @@ export async function adminSetUserStatus(account: string, active: boolean): Prom
     return
   }
 
-  await loadAdminUsers()
+  await Promise.all([loadAdminUsers(), loadAuditLog()])
   triggerRender()
   toast(`${account} 已${active ? '啟用' : '停用'}`)
 }
 
+export async function adminAssignTeacher(account: string, teacher: string): Promise<void> {
+  if (!hasPermission(authUser?.role, 'users:manage')) return
+
+  const response = await apiFetch(`/api/admin/users/${encodeURIComponent(account)}/teacher`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ teacher: teacher || null })
+  })
+
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`指派老師失敗：${errorText}`)
+    return
+  }
+
+  await Promise.all([loadAdminUsers(), loadStudents(), loadAuditLog()])
+  triggerRender()
+  toast(teacher ? `已將 ${account} 指派給 ${teacher}` : `已取消 ${account} 的老師`)
+}
+
+export async function loadStudents(): Promise<void> {
+  if (!hasPermission(authUser?.role, 'students:view')) return
+
+  const response = await apiFetch('/api/teacher/students')
+  if (!response.ok) return
+
+  const payload = (await response.json()) as { students: StudentProgress[] }
+  setStudents(payload.students)
+}
+
+export async function pushItemsToStudents(
+  accounts: string[],
+  items: { englishWords: Array<{ word: string; meaningZh: string; tags: string[] }>; japaneseSentences: Array<{ sentence: string; romaji: string; meaningZh: string; tags: string[] }> }
+): Promise<void> {
+  if (!hasPermission(authUser?.role, 'students:push')) return
+  if (accounts.length === 0) {
+    toast('請先勾選學生')
+    return
+  }
+  if (items.englishWords.length + items.japaneseSentences.length === 0) {
+    toast('沒有可推送的內容')
+    return
+  }
+
+  let added = 0
+  const failed: string[] = []
+  for (const account of accounts) {
+    const response = await apiFetch(`/api/teacher/students/${encodeURIComponent(account)}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(items)
+    })
+    if (!response.ok) {
+      failed.push(account)
+      continue
+    }
+    const payload = (await response.json()) as { added: { englishWords: number; japaneseSentences: number } }
+    added += payload.added.englishWords + payload.added.japaneseSentences
+  }
+
+  await loadStudents()
+  triggerRender()
+  toast(failed.length > 0
+    ? `推送失敗：${failed.join('、')}`
+    : `已推送給 ${accounts.length} 位學生，共新增 ${added} 筆`)
+}
+
 export async function triggerManualBackup(): Promise<void> {
-  if (!authUser || authUser.role !== 'admin') return
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
 
   const response = await apiFetch('/api/admin/backup', { method: 'POST' })
   if (!response.ok) {
@@ -234,11 +571,100 @@ export async function triggerManualBackup(): Promise<void> {
     return
   }
 
-  await loadBackups()
+  await Promise.all([loadBackups(), loadAuditLog()])
   triggerRender()
   toast('已建立備份')
 }
 
+export async function downloadBackup(fileName: string): Promise<void> {
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
+
+  const response = await apiFetch(`/api/admin/backups/${encodeURIComponent(fileName)}/download`)
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`下載備份失敗：${errorText}`)
+    return
+  }
+
+  saveBlob(await response.blob(), fileName)
+}
+
+export async function retryBackupUpload(fileName: string): Promise<void> {
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
+
+  const response = await apiFetch(`/api/admin/backups/${encodeURIComponent(fileName)}/upload`, { method: 'POST' })
+  await loadBackups()
+  triggerRender()
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`上傳備份失敗：${errorText}`)
+    return
+  }
+  toast('已上傳備份')
+}
+
+/** Runs a restore as a dry run and keeps the diff for the admin to confirm. */
+export async function previewRestore(fileName: string, account: string | null): Promise<void> {
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
+
+  const response = await apiFetch(`/api/admin/backups/${encodeURIComponent(fileName)}/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ account, dryRun: true })
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`無法預覽還原：${errorText}`)
+    return
+  }
+
+  setRestorePreview((await response.json()) as RestorePreview)
+  triggerRender()
+}
+
+export async function applyRestore(preview: RestorePreview): Promise<void> {
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
+
+  const response = await apiFetch(`/api/admin/backups/${encodeURIComponent(preview.fileName)}/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ account: preview.account, dryRun: false })
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`還原失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { restorePoint: string }
+  setRestorePreview(null)
+  // A whole-database restore can touch anything, including the signed-in account's own data.
+  if (!preview.account || preview.account === authUser?.account) await loadUserData()
+  await Promise.all([loadRoleData(), loadDecks()])
+  triggerRender()
+  toast(`已還原，還原前的資料已存為 ${payload.restorePoint}`)
+}
+
+export async function saveBackupRetention(retention: BackupRetention): Promise<void> {
+  if (!hasPermission(authUser?.role, 'backups:manage')) return
+
+  const response = await apiFetch('/api/admin/backups/retention', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(retention)
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`儲存保留設定失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { pruned: string[] }
+  await Promise.all([loadBackups(), loadAuditLog()])
+  triggerRender()
+  toast(payload.pruned.length > 0 ? `已儲存，清除 ${payload.pruned.length} 個過期備份` : '已儲存保留設定')
+}
+
 export async function exportUserData(): Promise<void> {
   const response = await apiFetch('/api/user/export')
   if (!response.ok) {
@@ -251,6 +677,31 @@ export async function exportUserData(): Promise<void> {
   const contentDisposition = response.headers.get('content-disposition') ?? ''
   const match = contentDisposition.match(/filename\*?=(?:UTF-8''|")?([^";]+)"?/i)
   let fileName = match?.[1] ? decodeURIComponent(match[1]) : `lingua-user-export-${new Date().toISOString().slice(0, 10)}.json`
+  saveBlob(blob, fileName)
+  toast('已匯出個人學習資料')
+}
+
+/** Renders a review group into one chaptered MP3 on the server and saves it, for listening offline. */
+export async function downloadSessionAudio(itemType: 'english' | 'japanese', group: string): Promise<void> {
+  toast('正在產生音檔，項目較多時需要一點時間…')
+  const response = await apiFetch('/api/user/session-audio', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ itemType, group })
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`產生音檔失敗：${errorText}`)
+    return
+  }
+
+  const contentDisposition = response.headers.get('content-disposition') ?? ''
+  const match = contentDisposition.match(/filename="([^"]+)"/i)
+  saveBlob(await response.blob(), match?.[1] ?? `echolingo-${itemType}.mp3`)
+  toast(`已下載 ${response.headers.get('x-session-items') ?? ''} 個項目的音檔`)
+}
+
+function saveBlob(blob: Blob, fileName: string): void {
   const url = URL.createObjectURL(blob)
   const anchor = document.createElement('a')
   anchor.href = url
@@ -259,7 +710,6 @@ export async function exportUserData(): Promise<void> {
   anchor.click()
   anchor.remove()
   URL.revokeObjectURL(url)
-  toast('已匯出個人學習資料')
 }
 
 export async function importUserData(file: File): Promise<void> {
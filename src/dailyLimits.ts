@@ -0,0 +1,92 @@
+import type { DailyLimits, DailyTally, ReviewEvent, SrsState } from './types'
+import { isSrsDue } from './scheduler'
+import { clampNumber } from './utils'
+
+// Daily budgets for the 'due' group, shared by the client and the API server. Without them a freshly
+// imported batch becomes due all at once, because items that were never reviewed are always due.
+
+type ItemType = ReviewEvent['itemType']
+
+export const MAX_NEW_ITEMS_PER_DAY = 500
+export const MAX_REVIEWS_PER_DAY = 5000
+
+export const DEFAULT_DAILY_LIMITS: DailyLimits = {
+  english: { newItems: 20, reviews: 200 },
+  japanese: { newItems: 10, reviews: 100 }
+}
+
+export function sanitizeDailyLimits(raw: unknown): DailyLimits {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<ItemType, Partial<Record<keyof DailyTally, unknown>>>>
+  const read = (itemType: ItemType, field: keyof DailyTally, max: number) => {
+    const value = Math.floor(Number(source[itemType]?.[field] ?? DEFAULT_DAILY_LIMITS[itemType][field]))
+    return Number.isFinite(value) ? clampNumber(value, 0, max) : DEFAULT_DAILY_LIMITS[itemType][field]
+  }
+
+  return {
+    english: { newItems: read('english', 'newItems', MAX_NEW_ITEMS_PER_DAY), reviews: read('english', 'reviews', MAX_REVIEWS_PER_DAY) },
+    japanese: { newItems: read('japanese', 'newItems', MAX_NEW_ITEMS_PER_DAY), reviews: read('japanese', 'reviews', MAX_REVIEWS_PER_DAY) }
+  }
+}
+
+/** Local midnight. On the server that is the server's day; the podcast feed uses the learner's stored offset instead. */
+export function startOfLocalDay(now = new Date()): Date {
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+export function emptyDailyTallies(): Record<ItemType, DailyTally> {
+  return { english: { newItems: 0, reviews: 0 }, japanese: { newItems: 0, reviews: 0 } }
+}
+
+/**
+ * Counts the reviews logged since `since` (the start of the learner's day). An item counts as new when its
+ * first review ever falls in that window, so `events` must be the whole history, oldest first.
+ */
+export function countDailyReviews(events: Array<Pick<ReviewEvent, 'itemId' | 'itemType' | 'reviewedAt' | 'mode'>>, since: number): Record<ItemType, DailyTally> {
+  const tallies = emptyDailyTallies()
+  const seen = new Set<string>()
+
+  for (const event of events) {
+    // Listening does not schedule anything, so it uses none of the budget.
+    if (event.mode === 'playback') continue
+    const key = `${event.itemType}:${event.itemId}`
+    const firstReview = !seen.has(key)
+    seen.add(key)
+    if (Date.parse(event.reviewedAt) < since) continue
+
+    tallies[event.itemType].reviews += 1
+    if (firstReview) tallies[event.itemType].newItems += 1
+  }
+  return tallies
+}
+
+/**
+ * Today's 'due' queue: overdue items first, then as many never-reviewed items as the new-item budget
+ * allows, spread evenly between the reviews. Every review, including a new item's first, uses up the
+ * review budget, so a backlog of reviews holds new items back until it is cleared.
+ */
+export function buildDailyQueue<T extends SrsState>(items: T[], limit: DailyTally, done: DailyTally, now = Date.now()): T[] {
+  const reviewRoom = Math.max(0, limit.reviews - done.reviews)
+  const learned = items
+    .filter((item) => item.lastReviewedAt !== null && isSrsDue(item, now))
+    .sort((a, b) => (a.dueAt ?? '').localeCompare(b.dueAt ?? ''))
+    .slice(0, reviewRoom)
+  const newRoom = Math.min(Math.max(0, limit.newItems - done.newItems), reviewRoom - learned.length)
+  const fresh = items.filter((item) => item.lastReviewedAt === null).slice(0, newRoom)
+
+  return spreadEvenly(learned, fresh)
+}
+
+function spreadEvenly<T>(base: T[], extra: T[]): T[] {
+  if (extra.length === 0) return base
+  const result: T[] = []
+  const step = (base.length + 1) / (extra.length + 1)
+  let next = 0
+  extra.forEach((item, index) => {
+    const position = Math.round(step * (index + 1)) - 1
+    while (next < position && next < base.length) result.push(base[next++])
+    result.push(item)
+  })
+  return result.concat(base.slice(next))
+}
@@ -1,15 +1,26 @@
 import { toRomaji } from 'wanakana'
 import { generateEnglishSeedWords, generateJapaneseSeedSentences } from './seedData'
-import type { EnglishWord, JapaneseSentence, SpeechSettings, LangBucket, JapaneseVocab } from './types'
+import type {
+  EnglishWord, JapaneseSentence, SpeechSettings, LangBucket, JapaneseVocab,
+  ReviewGrade, ReviewContext, ReviewEvent, SyncConflicts, UserDataPayload, DailyTally
+} from './types'
 import {
   englishWords, japaneseSentences, speechSettings, themeMode,
   authUser, englishSearch, englishGroup, japaneseSearch, japaneseGroup,
   setEnglishWords, setJapaneseSentences, setSpeechSettings, setThemeMode,
   persistTimer, persistInFlight, pendingPersist,
   setPersistTimer, setPersistInFlight, setPendingPersist,
-  REVIEW_INTERVAL_DAYS, EN_STOPWORDS, defaultSpeechSettings
+  pendingReviewEvents, reviewFlushInFlight, setPendingReviewEvents, setReviewFlushInFlight,
+  syncBase, setSyncBase, offlineMode, dailyTallies, dailyTalliesDate, setDailyTallies,
+  EN_STOPWORDS, TTS_ENGINES, defaultSpeechSettings
 } from './state'
-import { apiFetch } from './api'
+import { clonePlaybackTemplates, sanitizePlaybackTemplates } from './playback'
+import { createSrsState, normalizeSrsState, scheduleReview } from './scheduler'
+import { buildDailyQueue, emptyDailyTallies, sanitizeDailyLimits, startOfLocalDay } from './dailyLimits'
+import { createSyncMeta, hasContentChanges, mergeCollections, mergeEntry, mergeFields, normalizeSyncMeta } from './sync'
+import { apiFetch, safeReadText } from './api'
+import { triggerRender } from './renderBus'
+import { enqueueRequest, markConnectivity, writeOfflineSnapshot } from './offline'
 import { uid, clampNumber, toast } from './utils'
 import { applyTheme } from './state'
 
@@ -76,15 +87,6 @@ export function extractSpelling(word: string): string[] {
   return Array.from(word)
 }
 
-export function isDue(level: number, lastReviewedAt: string | null): boolean {
-  if (!lastReviewedAt) return true
-  const reviewedAt = Date.parse(lastReviewedAt)
-  if (Number.isNaN(reviewedAt)) return true
-
-  const waitDays = REVIEW_INTERVAL_DAYS[level] ?? REVIEW_INTERVAL_DAYS[REVIEW_INTERVAL_DAYS.length - 1]
-  return Date.now() >= reviewedAt + waitDays * 24 * 60 * 60 * 1000
-}
-
 export function normalizeEnglishWords(input: EnglishWord[]): EnglishWord[] {
   return input.map((item, index) => ({
     id: item.id || `en-${index}-${uid()}`,
@@ -92,8 +94,8 @@ export function normalizeEnglishWords(input: EnglishWord[]): EnglishWord[] {
     meaningZh: item.meaningZh,
     tags: Array.isArray(item.tags) ? item.tags.map((tag) => String(tag).toLowerCase()) : [],
     needsWork: Boolean(item.needsWork),
-    level: clampNumber(Number(item.level ?? 0), 0, REVIEW_INTERVAL_DAYS.length - 1),
-    lastReviewedAt: item.lastReviewedAt ?? null
+    ...normalizeSrsState(item),
+    ...normalizeSyncMeta(item)
   }))
 }
 
@@ -105,16 +107,31 @@ export function normalizeJapaneseSentences(input: JapaneseSentence[]): JapaneseS
     meaningZh: item.meaningZh,
     tags: Array.isArray(item.tags) ? item.tags.map((tag) => String(tag).toLowerCase()) : [],
     vocabulary: Array.isArray(item.vocabulary) ? item.vocabulary.map((vocab) => ({ word: vocab.word, meaningZh: vocab.meaningZh })) : [],
-    level: clampNumber(Number(item.level ?? 0), 0, REVIEW_INTERVAL_DAYS.length - 1),
-    lastReviewedAt: item.lastReviewedAt ?? null
+    ...normalizeSrsState(item),
+    ...normalizeSyncMeta(item)
   }))
 }
 
+export function normalizeUserData(data: UserDataPayload): UserDataPayload {
+  return {
+    englishWords: normalizeEnglishWords(data.englishWords),
+    japaneseSentences: normalizeJapaneseSentences(data.japaneseSentences),
+    speechSettings: sanitizeSpeechSettings(data.speechSettings),
+    theme: data.theme === 'dark' ? 'dark' : 'light',
+    settingsRevision: Math.max(0, Math.floor(Number(data.settingsRevision ?? 0)) || 0),
+    updatedAt: data.updatedAt
+  }
+}
+
 export function sanitizeSpeechSettings(settings: Partial<SpeechSettings> | undefined): SpeechSettings {
   const legacyVolumes = (settings as unknown as { volumes?: Partial<Record<LangBucket, number>> } | undefined)?.volumes
+  // Settings saved before per-language engines had a single `engine` for every language.
+  const legacyEngine = (settings as unknown as { engine?: unknown } | undefined)?.engine
+  const readEngine = (bucket: LangBucket) =>
+    TTS_ENGINES.find((item) => item === (settings?.engines?.[bucket] ?? legacyEngine)) ?? 'browser'
 
   return {
-    engine: settings?.engine === 'openai' ? 'openai' : 'browser',
+    engines: { en: readEngine('en'), zh: readEngine('zh'), ja: readEngine('ja') },
     openAiVoice: settings?.openAiVoice || 'alloy',
     browserVoices: {
       en: settings?.browserVoices?.en ?? '',
@@ -140,20 +157,28 @@ export function sanitizeSpeechSettings(settings: Partial<SpeechSettings> | undef
       en: clampNumber(Number(settings?.openAiVolumes?.en ?? legacyVolumes?.en ?? 0.9), 0, 1),
       zh: clampNumber(Number(settings?.openAiVolumes?.zh ?? legacyVolumes?.zh ?? 0.9), 0, 1),
       ja: clampNumber(Number(settings?.openAiVolumes?.ja ?? legacyVolumes?.ja ?? 0.9), 0, 1)
-    }
+    },
+    templates: sanitizePlaybackTemplates(settings?.templates),
+    dailyLimits: sanitizeDailyLimits(settings?.dailyLimits)
   }
 }
 
 export function getEnglishQueueByGroup(group: string): EnglishWord[] {
+  if (group === 'due') return buildDailyQueue(englishWords, speechSettings.dailyLimits.english, todayTally('english'))
   return englishWords.filter((item) => {
     if (group === 'all') return true
-    if (group === 'due') return isDue(item.level, item.lastReviewedAt)
     if (group === 'needs-work') return item.needsWork
     if (group.startsWith('tag:')) return item.tags.includes(group.slice(4))
     return true
   })
 }
 
+/** Hardest first: items flagged as needing work, then the most lapses, then the lowest ease. */
+export function compareHardestFirst(a: EnglishWord | JapaneseSentence, b: EnglishWord | JapaneseSentence): number {
+  const flagged = Number('needsWork' in b && b.needsWork) - Number('needsWork' in a && a.needsWork)
+  return flagged || b.lapses - a.lapses || a.ease - b.ease
+}
+
 export function getVisibleEnglishWords(reviewRunning: boolean, reviewQueue: EnglishWord[]): EnglishWord[] {
   if (reviewRunning) return reviewQueue
 
@@ -165,9 +190,9 @@ export function getVisibleEnglishWords(reviewRunning: boolean, reviewQueue: Engl
 }
 
 export function getJapaneseQueueByGroup(group: string): JapaneseSentence[] {
+  if (group === 'due') return buildDailyQueue(japaneseSentences, speechSettings.dailyLimits.japanese, todayTally('japanese'))
   return japaneseSentences.filter((item) => {
     if (group === 'all') return true
-    if (group === 'due') return isDue(item.level, item.lastReviewedAt)
     if (group.startsWith('tag:')) return item.tags.includes(group.slice(4))
     return true
   })
@@ -183,26 +208,107 @@ export function getVisibleJapaneseSentences(reviewRunning: boolean, reviewQueue:
   })
 }
 
-export function markEnglishReviewed(id: string): void {
-  const now = new Date().toISOString()
+/** What has been used of today's budget; tallies counted on an earlier day read as nothing used. */
+export function todayTally(itemType: ReviewEvent['itemType']): DailyTally {
+  return dailyTalliesDate === startOfLocalDay().toISOString() ? dailyTallies[itemType] : { newItems: 0, reviews: 0 }
+}
+
+export function markEnglishReviewed(id: string, grade: ReviewGrade, context: ReviewContext = { mode: 'manual' }): void {
+  const now = new Date()
+  countDailyReview('english', englishWords.find((item) => item.id === id)?.lastReviewedAt === null)
   setEnglishWords(englishWords.map((item) =>
     item.id === id
-      ? { ...item, level: Math.min(item.level + 1, REVIEW_INTERVAL_DAYS.length - 1), lastReviewedAt: now }
+      ? { ...item, ...scheduleReview(item, grade, now) }
       : item
   ))
+  logReviewEvent(id, 'english', grade, context, now)
   schedulePersist()
 }
 
-export function markJapaneseReviewed(id: string): void {
-  const now = new Date().toISOString()
+export function markJapaneseReviewed(id: string, grade: ReviewGrade, context: ReviewContext = { mode: 'manual' }): void {
+  const now = new Date()
+  countDailyReview('japanese', japaneseSentences.find((item) => item.id === id)?.lastReviewedAt === null)
   setJapaneseSentences(japaneseSentences.map((item) =>
     item.id === id
-      ? { ...item, level: Math.min(item.level + 1, REVIEW_INTERVAL_DAYS.length - 1), lastReviewedAt: now }
+      ? { ...item, ...scheduleReview(item, grade, now) }
       : item
   ))
+  logReviewEvent(id, 'japanese', grade, context, now)
+  schedulePersist()
+}
+
+/** Background listening: logged as exposure, while the item's schedule and ease stay as they are. */
+export function markPlayed(id: string, itemType: ReviewEvent['itemType'], durationMs: number): void {
+  logReviewEvent(id, itemType, 'hard', { mode: 'playback', durationMs }, new Date())
   schedulePersist()
 }
 
+// Keeps the tallies loaded from the server current until the next load.
+function countDailyReview(itemType: ReviewEvent['itemType'], isNew: boolean): void {
+  const today = startOfLocalDay().toISOString()
+  const tallies = dailyTalliesDate === today ? dailyTallies : emptyDailyTallies()
+  const used = tallies[itemType]
+  setDailyTallies({
+    ...tallies,
+    [itemType]: { newItems: used.newItems + (isNew ? 1 : 0), reviews: used.reviews + 1 }
+  }, today)
+}
+
+function logReviewEvent(itemId: string, itemType: ReviewEvent['itemType'], grade: ReviewGrade, context: ReviewContext, now: Date): void {
+  setPendingReviewEvents([
+    ...pendingReviewEvents,
+    {
+      id: `rv-${uid()}`,
+      itemId,
+      itemType,
+      reviewedAt: now.toISOString(),
+      grade,
+      mode: context.mode,
+      durationMs: Math.round(context.durationMs ?? 0),
+      engine: speechSettings.engines[itemType === 'english' ? 'en' : 'ja']
+    }
+  ])
+}
+
+export async function flushReviewEvents(): Promise<void> {
+  if (!authUser || reviewFlushInFlight || pendingReviewEvents.length === 0) return
+
+  const batch = pendingReviewEvents.slice(0, 500)
+  const sent = new Set(batch.map((event) => event.id))
+  setReviewFlushInFlight(true)
+  try {
+    const response = await apiFetch('/api/user/reviews/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reviews: batch })
+    })
+
+    if (response.ok) {
+      const payload = (await response.json()) as { englishWords: EnglishWord[]; japaneseSentences: JapaneseSentence[] }
+      setPendingReviewEvents(pendingReviewEvents.filter((event) => !sent.has(event.id)))
+      reconcileServerItems({
+        englishWords: payload.englishWords.map((item) => ({ id: item.id, server: item })),
+        japaneseSentences: payload.japaneseSentences.map((item) => ({ id: item.id, server: item }))
+      })
+    } else if (response.status >= 500 || response.status === 401) {
+      // Server errors and expired sessions are retried later.
+      schedulePersist(SYNC_RETRY_MS)
+    } else {
+      // Any other rejection would never succeed, and queued events hold their items back from the data
+      // sync. Dropping the log entries releases them; the scheduler fields still go out with that sync.
+      setPendingReviewEvents(pendingReviewEvents.filter((event) => !sent.has(event.id)))
+      toast(`複習紀錄被伺服器拒絕，已略過 ${batch.length} 筆：${await safeReadText(response)}`)
+    }
+  } catch {
+    // Offline: the scheduler fields travel with the next data sync, so only the log entries go to the
+    // persistent outbox.
+    await enqueueRequest('POST', '/api/user/reviews', JSON.stringify({ events: batch }))
+    setPendingReviewEvents(pendingReviewEvents.filter((event) => !sent.has(event.id)))
+  } finally {
+    setReviewFlushInFlight(false)
+  }
+}
+
 export async function autoTranslate(text: string, from: string, to: string): Promise<string> {
   try {
     const response = await apiFetch(`/api/translate?text=${encodeURIComponent(text)}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`)
@@ -215,44 +321,333 @@ export async function autoTranslate(text: string, from: string, to: string): Pro
   }
 }
 
-export function schedulePersist(): void {
+const SYNC_RETRY_MS = 30000
+const MAX_CONFLICT_RETRIES = 3
+
+const ITEM_PATHS: Record<ReviewEvent['itemType'], string> = {
+  english: '/api/user/english-words',
+  japanese: '/api/user/japanese-sentences'
+}
+
+// Items with an item-level request in flight; the data sync leaves them to that request.
+const inFlightItemIds = new Set<string>()
+let conflictRetries = 0
+
+type SyncChanges<T> = {
+  upserts: T[]
+  deletes: Array<{ id: string; revision: number }>
+}
+
+type SyncResult = {
+  englishWords: EnglishWord[]
+  japaneseSentences: JapaneseSentence[]
+  settingsRevision: number
+}
+
+// Server copies of individual items; `null` means the item no longer exists on the server.
+type ServerItems = Pick<SyncConflicts, 'englishWords' | 'japaneseSentences'>
+
+export function schedulePersist(delayMs = 500): void {
   if (persistTimer !== null) {
     window.clearTimeout(persistTimer)
   }
 
   setPersistTimer(window.setTimeout(() => {
     void persistUserData(false)
-  }, 500))
+    void flushReviewEvents()
+  }, delayMs))
+}
+
+export function createEnglishWord(item: EnglishWord): void {
+  setEnglishWords([item, ...englishWords])
+  void sendItemChange('english', item.id, 'POST', item)
+}
+
+export function updateEnglishWord(id: string, changes: Partial<Pick<EnglishWord, 'word' | 'meaningZh' | 'tags' | 'needsWork'>>): void {
+  const current = englishWords.find((item) => item.id === id)
+  if (!current) return
+
+  const updatedAt = new Date().toISOString()
+  setEnglishWords(englishWords.map((item) => (item.id === id ? { ...item, ...changes, updatedAt } : item)))
+  void sendItemChange('english', id, 'PATCH', { ...changes, revision: current.revision, updatedAt })
+}
+
+export function deleteEnglishWord(id: string): void {
+  const current = englishWords.find((item) => item.id === id)
+  if (!current) return
+
+  setEnglishWords(englishWords.filter((item) => item.id !== id))
+  void sendItemChange('english', id, 'DELETE', null, current.revision)
+}
+
+export function createJapaneseSentence(item: JapaneseSentence): void {
+  setJapaneseSentences([item, ...japaneseSentences])
+  void sendItemChange('japanese', item.id, 'POST', item)
+}
+
+export function updateJapaneseSentence(
+  id: string,
+  changes: Partial<Pick<JapaneseSentence, 'sentence' | 'romaji' | 'meaningZh' | 'tags' | 'vocabulary'>>
+): void {
+  const current = japaneseSentences.find((item) => item.id === id)
+  if (!current) return
+
+  const updatedAt = new Date().toISOString()
+  setJapaneseSentences(japaneseSentences.map((item) => (item.id === id ? { ...item, ...changes, updatedAt } : item)))
+  void sendItemChange('japanese', id, 'PATCH', { ...changes, revision: current.revision, updatedAt })
+}
+
+export function deleteJapaneseSentence(id: string): void {
+  const current = japaneseSentences.find((item) => item.id === id)
+  if (!current) return
+
+  setJapaneseSentences(japaneseSentences.filter((item) => item.id !== id))
+  void sendItemChange('japanese', id, 'DELETE', null, current.revision)
+}
+
+/**
+ * Sends one item mutation. Whatever does not get through (offline, server errors) stays in the local
+ * state and is picked up by the next `persistUserData` diff.
+ */
+async function sendItemChange(
+  itemType: ReviewEvent['itemType'],
+  id: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body: unknown,
+  revision = 0
+): Promise<void> {
+  if (!authUser || !syncBase) return
+  if (offlineMode) {
+    void writeOfflineSnapshot(authUser, currentUserData(), syncBase)
+    return
+  }
+
+  const path = `${ITEM_PATHS[itemType]}/${encodeURIComponent(id)}`
+  const serverItem = (server: EnglishWord | JapaneseSentence | null): ServerItems => ({
+    englishWords: itemType === 'english' ? [{ id, server: server as EnglishWord | null }] : [],
+    japaneseSentences: itemType === 'japanese' ? [{ id, server: server as JapaneseSentence | null }] : []
+  })
+
+  inFlightItemIds.add(id)
+  try {
+    const response = await apiFetch(method === 'DELETE' ? `${path}?revision=${revision}` : path, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+    if (response.ok) {
+      const payload = (await response.json()) as { item?: EnglishWord | JapaneseSentence }
+      reconcileServerItems(serverItem(payload.item ?? null))
+    } else if (response.status === 409) {
+      const payload = (await response.json()) as { server: EnglishWord | JapaneseSentence }
+      reconcileServerItems(serverItem(payload.server))
+      schedulePersist()
+      toast('已合併其他裝置的變更')
+    } else if (response.status === 404 && method === 'PATCH') {
+      reconcileServerItems(serverItem(null))
+      toast('此項目已在其他裝置刪除')
+    } else if (response.status >= 500) {
+      schedulePersist(SYNC_RETRY_MS)
+      toast('同步資料失敗，稍後自動重試')
+    } else {
+      toast('同步資料失敗')
+    }
+  } catch {
+    markConnectivity(false)
+    toast('目前離線，變更已暫存於本機')
+  } finally {
+    inFlightItemIds.delete(id)
+    void writeOfflineSnapshot(authUser, currentUserData(), syncBase)
+    triggerRender()
+  }
+}
+
+/** Replays local edits made on top of `base` onto a newer server copy of the data. */
+export function rebaseUserData(base: UserDataPayload, local: UserDataPayload, remote: UserDataPayload): UserDataPayload {
+  return {
+    ...remote,
+    englishWords: mergeCollections(base.englishWords, local.englishWords, remote.englishWords),
+    japaneseSentences: mergeCollections(base.japaneseSentences, local.japaneseSentences, remote.japaneseSentences),
+    ...mergeSettings(base, local, remote)
+  }
+}
+
+// Settings have no per-field edit times, so this device's change wins when both sides changed a field.
+function mergeSettings(
+  base: Pick<UserDataPayload, 'speechSettings' | 'theme'>,
+  local: Pick<UserDataPayload, 'speechSettings' | 'theme'>,
+  remote: Pick<UserDataPayload, 'speechSettings' | 'theme'>
+): Pick<UserDataPayload, 'speechSettings' | 'theme'> {
+  const settingKeys = Object.keys(remote.speechSettings).map((key) => [key])
+  return {
+    speechSettings: mergeFields(base.speechSettings, local.speechSettings, remote.speechSettings, settingKeys, () => true),
+    theme: mergeFields(base, local, remote, [['theme']], () => true).theme
+  }
+}
+
+function currentUserData(): UserDataPayload {
+  return {
+    englishWords,
+    japaneseSentences,
+    speechSettings,
+    theme: themeMode,
+    settingsRevision: syncBase?.settingsRevision ?? 0,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+function diffCollection<T extends EnglishWord | JapaneseSentence>(base: T[], local: T[]): SyncChanges<T> {
+  const baseById = new Map(base.map((item) => [item.id, item]))
+  const localIds = new Set(local.map((item) => item.id))
+  // Reviews still waiting for the batch endpoint are applied there, not through the data sync.
+  const busy = new Set([...inFlightItemIds, ...pendingReviewEvents.map((event) => event.itemId)])
+
+  return {
+    upserts: local.filter((item) => {
+      if (busy.has(item.id)) return false
+      const synced = baseById.get(item.id)
+      return !synced || hasContentChanges(synced, item)
+    }),
+    deletes: base
+      .filter((item) => !localIds.has(item.id) && !busy.has(item.id))
+      .map((item) => ({ id: item.id, revision: item.revision }))
+  }
+}
+
+/**
+ * Adopts server copies of individual items as the synced base and merges them into the local state,
+ * keeping local edits the server has not seen yet.
+ */
+function reconcileServerItems(items: ServerItems): void {
+  if (!syncBase) return
+
+  const reconcile = <T extends EnglishWord | JapaneseSentence>(
+    baseItems: T[],
+    localItems: T[],
+    entries: Array<{ id: string; server: T | null }>
+  ): { base: T[]; local: T[] } => {
+    let nextBase = baseItems
+    let nextLocal = localItems
+    for (const { id, server } of entries) {
+      const merged = mergeEntry(
+        baseItems.find((item) => item.id === id),
+        localItems.find((item) => item.id === id),
+        server ?? undefined
+      )
+      nextBase = server
+        ? (nextBase.some((item) => item.id === id) ? nextBase.map((item) => (item.id === id ? server : item)) : [server, ...nextBase])
+        : nextBase.filter((item) => item.id !== id)
+      nextLocal = merged
+        ? (nextLocal.some((item) => item.id === id) ? nextLocal.map((item) => (item.id === id ? merged : item)) : [merged, ...nextLocal])
+        : nextLocal.filter((item) => item.id !== id)
+    }
+    return { base: nextBase, local: nextLocal }
+  }
+
+  const en = reconcile(syncBase.englishWords, englishWords, items.englishWords.map(({ id, server }) => ({
+    id,
+    server: server ? normalizeEnglishWords([server])[0] : null
+  })))
+  const ja = reconcile(syncBase.japaneseSentences, japaneseSentences, items.japaneseSentences.map(({ id, server }) => ({
+    id,
+    server: server ? normalizeJapaneseSentences([server])[0] : null
+  })))
+
+  setEnglishWords(en.local)
+  setJapaneseSentences(ja.local)
+  setSyncBase({ ...syncBase, englishWords: en.base, japaneseSentences: ja.base })
+}
+
+function reconcileServerSettings(remote: NonNullable<SyncConflicts['settings']>): void {
+  if (!syncBase) return
+
+  const server = { speechSettings: sanitizeSpeechSettings(remote.speechSettings), theme: remote.theme }
+  const merged = mergeSettings(syncBase, { speechSettings, theme: themeMode }, server)
+  setSpeechSettings(merged.speechSettings)
+  setThemeMode(merged.theme)
+  applyTheme()
+  setSyncBase({ ...syncBase, ...server, settingsRevision: remote.revision })
+}
+
+/** Item edits, settings changes and review events held only on this device. */
+export function countUnsyncedChanges(): number {
+  if (!syncBase) return 0
+  const english = diffCollection(syncBase.englishWords, englishWords)
+  const japanese = diffCollection(syncBase.japaneseSentences, japaneseSentences)
+  const settingsChanged = themeMode !== syncBase.theme || JSON.stringify(speechSettings) !== JSON.stringify(syncBase.speechSettings)
+
+  return english.upserts.length + english.deletes.length + japanese.upserts.length + japanese.deletes.length
+    + (settingsChanged ? 1 : 0) + pendingReviewEvents.length
 }
 
 export async function persistUserData(force: boolean): Promise<void> {
-  if (!authUser) return
+  if (!authUser || !syncBase) return
 
   if (persistInFlight && !force) {
     setPendingPersist(true)
     return
   }
 
+  const base = syncBase
+  const sent = {
+    englishWords: diffCollection(base.englishWords, englishWords),
+    japaneseSentences: diffCollection(base.japaneseSentences, japaneseSentences),
+    settings: themeMode !== base.theme || JSON.stringify(speechSettings) !== JSON.stringify(base.speechSettings)
+      ? { revision: base.settingsRevision, speechSettings, theme: themeMode }
+      : undefined
+  }
+  void writeOfflineSnapshot(authUser, currentUserData(), base)
+
+  const pending = sent.englishWords.upserts.length + sent.englishWords.deletes.length
+    + sent.japaneseSentences.upserts.length + sent.japaneseSentences.deletes.length
+  if (pending === 0 && !sent.settings) return
+
   setPersistInFlight(true)
   try {
-    const payload = {
-      englishWords,
-      japaneseSentences,
-      speechSettings,
-      theme: themeMode
-    }
-
     const response = await apiFetch('/api/user/data', {
-      method: 'PUT',
+      method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
+      body: JSON.stringify(sent)
     })
 
-    if (!response.ok) {
+    if (response.ok) {
+      conflictRetries = 0
+      const result = (await response.json()) as SyncResult
+      const deleted = (changes: SyncChanges<unknown>) => changes.deletes.map(({ id }) => ({ id, server: null }))
+      reconcileServerItems({
+        englishWords: [...result.englishWords.map((item) => ({ id: item.id, server: item })), ...deleted(sent.englishWords)],
+        japaneseSentences: [...result.japaneseSentences.map((item) => ({ id: item.id, server: item })), ...deleted(sent.japaneseSentences)]
+      })
+      if (sent.settings && syncBase) {
+        setSyncBase({ ...syncBase, speechSettings: sent.settings.speechSettings, theme: sent.settings.theme, settingsRevision: result.settingsRevision })
+      }
+      void writeOfflineSnapshot(authUser, currentUserData(), syncBase)
+    } else if (response.status === 409) {
+      // Another device saved first: merge its copy into ours and send what is left. After a few conflicts
+      // in a row the other device is probably still saving, so wait before the next round.
+      const payload = (await response.json()) as { conflicts: SyncConflicts }
+      reconcileServerItems(payload.conflicts)
+      if (payload.conflicts.settings) reconcileServerSettings(payload.conflicts.settings)
+      if (conflictRetries < MAX_CONFLICT_RETRIES) {
+        conflictRetries += 1
+        setPendingPersist(true)
+      } else {
+        conflictRetries = 0
+        schedulePersist(SYNC_RETRY_MS)
+      }
+      toast('已合併其他裝置的變更')
+      triggerRender()
+    } else if (response.status >= 500) {
+      schedulePersist(SYNC_RETRY_MS)
+      toast('同步資料失敗，稍後自動重試')
+    } else {
       toast('同步資料失敗')
     }
   } catch {
-    toast('同步資料失敗')
+    // Unsent edits stay in memory and in the offline snapshot; they are diffed again on reconnect.
+    markConnectivity(false)
+    toast('目前離線，變更已暫存於本機')
   } finally {
     setPersistInFlight(false)
     if (pendingPersist) {
@@ -269,8 +664,8 @@ export function setLocalSeedFallback(): void {
     meaningZh: item.meaningZh,
     tags: [...item.tags],
     needsWork: false,
-    level: 0,
-    lastReviewedAt: null
+    ...createSrsState(),
+    ...createSyncMeta()
   })))
 
   setJapaneseSentences(generateJapaneseSeedSentences(220).map((item, index) => ({
@@ -280,17 +675,20 @@ export function setLocalSeedFallback(): void {
     meaningZh: item.meaningZh,
     tags: [...item.tags],
     vocabulary: item.vocabulary.map((vocab) => ({ ...vocab })),
-    level: 0,
-    lastReviewedAt: null
+    ...createSrsState(),
+    ...createSyncMeta()
   })))
 
   setSpeechSettings({
     ...defaultSpeechSettings,
+    engines: { ...defaultSpeechSettings.engines },
     browserVoices: { ...defaultSpeechSettings.browserVoices },
     rates: { ...defaultSpeechSettings.rates },
     pitches: { ...defaultSpeechSettings.pitches },
     browserVolumes: { ...defaultSpeechSettings.browserVolumes },
-    openAiVolumes: { ...defaultSpeechSettings.openAiVolumes }
+    openAiVolumes: { ...defaultSpeechSettings.openAiVolumes },
+    templates: clonePlaybackTemplates(defaultSpeechSettings.templates),
+    dailyLimits: sanitizeDailyLimits(defaultSpeechSettings.dailyLimits)
   })
   setThemeMode('light')
   applyTheme()
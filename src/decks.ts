@@ -0,0 +1,127 @@
+import type { DeckSummary } from './types'
+import { authUser, decks, setDecks } from './state'
+import { apiFetch, safeReadText } from './api'
+import { loadUserData } from './auth'
+import { triggerRender } from './renderBus'
+import { toast } from './utils'
+
+// Shared decks: named tag filters over the owner's items that other users can subscribe to.
+
+export type DeckDraft = {
+  name: string
+  description: string
+  tags: string[]
+  itemTypes: DeckSummary['itemTypes']
+}
+
+/** Also reloads the learning data when a subscribed deck changed, as the server has updated the copies. */
+export async function loadDecks(): Promise<void> {
+  if (!authUser) return
+
+  try {
+    const response = await apiFetch('/api/decks')
+    if (!response.ok) return
+    const previous = new Map(decks.map((deck) => [deck.id, deck.version]))
+    const next = ((await response.json()) as { decks: DeckSummary[] }).decks
+    setDecks(next)
+    if (next.some((deck) => deck.subscribed && previous.has(deck.id) && deck.version > (previous.get(deck.id) ?? 0))) await loadUserData()
+  } catch {
+    // offline: keep the last list
+  }
+}
+
+export async function createDeck(draft: DeckDraft): Promise<void> {
+  if (!draft.name || draft.tags.length === 0) {
+    toast('請輸入牌組名稱與至少一個標籤')
+    return
+  }
+
+  const response = await apiFetch('/api/decks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft)
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`建立牌組失敗：${errorText}`)
+    return
+  }
+
+  await loadDecks()
+  triggerRender()
+  toast(`已建立牌組「${draft.name}」，發布後其他人才能訂閱`)
+}
+
+export async function publishDeck(id: string): Promise<void> {
+  const response = await apiFetch(`/api/decks/${encodeURIComponent(id)}/publish`, { method: 'POST' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`發布失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { deck: DeckSummary; delivered: number }
+  await loadDecks()
+  triggerRender()
+  toast(`已發布 ${payload.deck.entryCount} 筆${payload.delivered > 0 ? `，送出 ${payload.delivered} 筆新項目給訂閱者` : ''}`)
+}
+
+export async function unpublishDeck(id: string): Promise<void> {
+  const response = await apiFetch(`/api/decks/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ published: false })
+  })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`取消發布失敗：${errorText}`)
+    return
+  }
+
+  await loadDecks()
+  triggerRender()
+  toast('已取消發布')
+}
+
+export async function deleteDeck(id: string): Promise<void> {
+  const response = await apiFetch(`/api/decks/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`刪除牌組失敗：${errorText}`)
+    return
+  }
+
+  await loadDecks()
+  triggerRender()
+  toast('已刪除牌組')
+}
+
+/** Subscribes (or, when already subscribed, fetches entries added since) and reloads the learning data. */
+export async function subscribeDeck(id: string): Promise<void> {
+  const response = await apiFetch(`/api/decks/${encodeURIComponent(id)}/subscribe`, { method: 'POST' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`訂閱失敗：${errorText}`)
+    return
+  }
+
+  const payload = (await response.json()) as { added: number }
+  // Delivered items are written server-side; reloading rebases any unsynced local edits on top.
+  if (payload.added > 0) await loadUserData()
+  await loadDecks()
+  triggerRender()
+  toast(payload.added > 0 ? `已加入 ${payload.added} 筆到你的學習庫` : '目前沒有新的項目')
+}
+
+export async function unsubscribeDeck(id: string): Promise<void> {
+  const response = await apiFetch(`/api/decks/${encodeURIComponent(id)}/subscribe`, { method: 'DELETE' })
+  if (!response.ok) {
+    const errorText = await safeReadText(response)
+    toast(`取消訂閱失敗：${errorText}`)
+    return
+  }
+
+  await loadDecks()
+  triggerRender()
+  toast('已取消訂閱，已加入的項目會保留')
+}
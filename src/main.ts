@@ -1,37 +1,58 @@
 import './style.css'
 import { registerRender } from './renderBus'
-import { token, authUser, activeTab, applyTheme, clearAuth, setAuthUser } from './state'
-import { fetchMe, loadProviderStatus, loadUserData, loadAdminUsers, loadBackups } from './auth'
+import { token, authUser, activeTab, offlineMode, applyTheme, clearAuth, setAuthUser } from './state'
+import { fetchMe, loadProviderStatus, loadUserData, loadRoleData, loadSessions, loadPodcastFeed, loadDailyTallies } from './auth'
 import { initSpeechVoices } from './speech'
-import { setLocalSeedFallback } from './data'
-import { renderLoginView } from './ui/login'
+import { initMediaSession, syncMediaSession } from './mediaSession'
+import { persistUserData, setLocalSeedFallback } from './data'
+import { initOfflineSupport, replayOutbox } from './offline'
+import { renderChangePasswordView, renderLoginView } from './ui/login'
 import { renderAppShell } from './ui/layout'
 import { renderEnglishTab } from './ui/english'
 import { renderJapaneseTab } from './ui/japanese'
 import { renderContentTab } from './ui/content'
 import { renderSpeechTab } from './ui/speech-settings'
+import { renderAccountTab } from './ui/account'
 import { renderAdminTab } from './ui/admin'
+import { renderStudentsTab } from './ui/students'
+import { renderDecksTab } from './ui/decks'
+import { renderStatsTab } from './ui/stats'
+import { loadDecks } from './decks'
 
 const appEl = document.querySelector<HTMLDivElement>('#app')
 if (!appEl) throw new Error('App root #app not found')
 
 registerRender(render)
 initSpeechVoices()
+initMediaSession()
+initOfflineSupport(() => void persistUserData(false))
 applyTheme()
 void bootstrap()
 
 function render(): void {
+  // Every review state change triggers a render, so this keeps the lock screen in step.
+  syncMediaSession()
+
   if (!authUser) {
     renderLoginView(appEl!)
     return
   }
 
+  if (authUser.mustChangePassword) {
+    renderChangePasswordView(appEl!)
+    return
+  }
+
   renderAppShell(appEl!)
 
   if (activeTab === 'english') renderEnglishTab()
   else if (activeTab === 'japanese') renderJapaneseTab()
   else if (activeTab === 'content') renderContentTab()
+  else if (activeTab === 'decks') renderDecksTab()
+  else if (activeTab === 'stats') renderStatsTab()
   else if (activeTab === 'speech') renderSpeechTab()
+  else if (activeTab === 'account') renderAccountTab()
+  else if (activeTab === 'students') renderStudentsTab()
   else if (activeTab === 'admin') renderAdminTab()
 }
 
@@ -51,11 +72,16 @@ async function bootstrap(): Promise<void> {
   }
 
   setAuthUser(me)
-  await Promise.all([loadProviderStatus(), loadUserData()])
-
-  if (authUser?.role === 'admin') {
-    await Promise.all([loadAdminUsers(), loadBackups()])
+  if (me.mustChangePassword) {
+    render()
+    return
   }
 
+  // Review events logged while offline are sent first; unsynced data edits are rebased by loadUserData.
+  if (!offlineMode) await replayOutbox()
+  await Promise.all([loadProviderStatus(), loadUserData(), loadSessions(), loadPodcastFeed(), loadDailyTallies(), loadDecks()])
+
+  if (!offlineMode) await loadRoleData()
+
   render()
 }
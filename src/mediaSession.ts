@@ -0,0 +1,138 @@
+import { englishReview, japaneseReview, mixedReview } from './state'
+import { englishSession, japaneseSession, mixedSession } from './review'
+import type { ReviewSession } from './reviewSession'
+
+// Lock-screen and headset controls for the review player. Browsers only route these to a page that is
+// playing audio, so with browser voices some platforms keep showing the previous media instead.
+
+type ActivePlayer = {
+  session: ReviewSession<unknown>
+  title: string
+  subtitle: string
+  deck: string
+}
+
+const ARTWORK: MediaImage[] = [
+  { src: '/icon-192.png', sizes: '192x192', type: 'image/png' },
+  { src: '/icon-512.png', sizes: '512x512', type: 'image/png' }
+]
+
+// Metadata is only replaced when the item changes, so artwork is not reloaded on every render.
+let lastMetadataKey = ''
+
+export function initMediaSession(): void {
+  if (!('mediaSession' in navigator)) return
+
+  const session = navigator.mediaSession
+  const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+    ['play', () => {
+      const player = activePlayer()
+      if (player?.session.state.paused) player.session.togglePause()
+    }],
+    ['pause', () => {
+      const player = activePlayer()
+      if (player && !player.session.state.paused) player.session.togglePause()
+    }],
+    ['nexttrack', () => void activePlayer()?.session.shift(1)],
+    ['previoustrack', () => void activePlayer()?.session.shift(-1)],
+    ['stop', () => activePlayer()?.session.stop(true)],
+    // Position is counted in items (see syncMediaSession), so seeking jumps to an item.
+    ['seekto', (details) => {
+      const player = activePlayer()
+      if (!player || details.seekTime === undefined) return
+      const step = Math.floor(details.seekTime) - player.session.state.index
+      if (step !== 0) void player.session.shift(step)
+    }]
+  ]
+
+  for (const [action, handler] of handlers) {
+    try {
+      session.setActionHandler(action, handler)
+    } catch {
+      // Older browsers throw for actions they do not know, e.g. 'seekto'.
+    }
+  }
+}
+
+/** Mirrors the running review into the OS media controls; called on every render. */
+export function syncMediaSession(): void {
+  if (!('mediaSession' in navigator)) return
+
+  const session = navigator.mediaSession
+  const player = activePlayer()
+  if (!player) {
+    if (lastMetadataKey) {
+      session.metadata = null
+      session.playbackState = 'none'
+      lastMetadataKey = ''
+    }
+    return
+  }
+
+  const review = player.session.state
+  const position = `${review.index + 1} / ${review.queue.length}`
+  const metadataKey = `${player.title}\n${player.subtitle}\n${player.deck}\n${position}`
+  if (metadataKey !== lastMetadataKey) {
+    session.metadata = new MediaMetadata({
+      title: player.title,
+      artist: player.subtitle,
+      album: `${player.deck} · ${position}`,
+      artwork: ARTWORK
+    })
+    lastMetadataKey = metadataKey
+  }
+  session.playbackState = review.paused ? 'paused' : 'playing'
+
+  // One "second" per item: the lock-screen scrubber then shows how far through the queue the player is.
+  try {
+    session.setPositionState({
+      duration: review.queue.length,
+      position: Math.min(review.index, review.queue.length),
+      playbackRate: 1
+    })
+  } catch {
+    // Not supported everywhere.
+  }
+}
+
+function activePlayer(): ActivePlayer | null {
+  if (englishReview.running) {
+    const item = englishReview.queue[englishReview.index]
+    return {
+      session: englishSession as ReviewSession<unknown>,
+      title: item?.word ?? '',
+      subtitle: item?.meaningZh ?? '',
+      deck: `英文 · ${describeGroup(englishReview.group)}`
+    }
+  }
+
+  if (japaneseReview.running) {
+    const item = japaneseReview.queue[japaneseReview.index]
+    return {
+      session: japaneseSession as ReviewSession<unknown>,
+      title: item?.sentence ?? '',
+      subtitle: item?.meaningZh ?? '',
+      deck: `日文 · ${describeGroup(japaneseReview.group)}`
+    }
+  }
+
+  if (mixedReview.running) {
+    const entry = mixedReview.queue[mixedReview.index]
+    return {
+      session: mixedSession as ReviewSession<unknown>,
+      title: entry ? (entry.kind === 'english' ? entry.item.word : entry.item.sentence) : '',
+      subtitle: entry?.item.meaningZh ?? '',
+      deck: `英日混合 · ${describeGroup(mixedReview.group)}`
+    }
+  }
+
+  return null
+}
+
+function describeGroup(group: string): string {
+  if (group === 'due') return '今日待複習'
+  if (group === 'needs-work') return '需加強'
+  if (group === 'all') return '全部'
+  if (group.startsWith('tag:')) return `標籤：${group.slice(4)}`
+  return group
+}
@@ -0,0 +1,169 @@
+import type { AuthUser, UserDataPayload } from './types'
+import { apiFetch } from './api'
+import { authUser, offlineMode, setOfflineMode } from './state'
+import { triggerRender } from './renderBus'
+import { toast } from './utils'
+
+// IndexedDB mirror of the signed-in user's data plus an outbox of writes that could not reach the API.
+
+const DB_NAME = 'echolingo-offline'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'snapshots'
+const OUTBOX_STORE = 'outbox'
+
+export type OfflineSnapshot = {
+  account: string
+  user: AuthUser
+  data: UserDataPayload
+  // Last server-acknowledged copy `data` was edited from, so unsynced edits can be rebased after a reload.
+  base: UserDataPayload | null
+  savedAt: string
+}
+
+type QueuedRequest = {
+  id?: number
+  method: string
+  path: string
+  body: string
+  queuedAt: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let replaying = false
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'account' })
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return runRequest(run(db.transaction(name, mode).objectStore(name)))
+}
+
+export async function writeOfflineSnapshot(user: AuthUser, data: UserDataPayload, base: UserDataPayload | null): Promise<void> {
+  try {
+    const snapshot: OfflineSnapshot = { account: user.account, user, data, base, savedAt: new Date().toISOString() }
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put(snapshot))
+  } catch {
+    // IndexedDB may be unavailable (private mode); the app still works online.
+  }
+}
+
+export async function readOfflineSnapshot(account?: string): Promise<OfflineSnapshot | null> {
+  try {
+    const snapshots = await withStore<OfflineSnapshot[]>(SNAPSHOT_STORE, 'readonly', (store) => store.getAll())
+    const candidates = account ? snapshots.filter((item) => item.account === account) : snapshots
+    candidates.sort((a, b) => Date.parse(b.savedAt) - Date.parse(a.savedAt))
+    return candidates[0] ?? null
+  } catch {
+    return null
+  }
+}
+
+export async function clearOfflineData(): Promise<void> {
+  try {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.clear())
+    await withStore(OUTBOX_STORE, 'readwrite', (store) => store.clear())
+  } catch {
+    // ignore
+  }
+}
+
+export async function countOutbox(): Promise<number> {
+  try {
+    return await withStore(OUTBOX_STORE, 'readonly', (store) => store.count())
+  } catch {
+    return 0
+  }
+}
+
+/** Queues an append-only write (e.g. review events) for replay once the API is reachable again. */
+export async function enqueueRequest(method: string, path: string, body: string): Promise<void> {
+  try {
+    const entry: QueuedRequest = { method, path, body, queuedAt: new Date().toISOString() }
+    await withStore(OUTBOX_STORE, 'readwrite', (store) => store.add(entry))
+  } catch {
+    // ignore
+  }
+}
+
+async function readOutbox(): Promise<QueuedRequest[]> {
+  try {
+    const entries = await withStore<QueuedRequest[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())
+    return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  } catch {
+    return []
+  }
+}
+
+export async function replayOutbox(): Promise<void> {
+  if (!authUser || replaying) return
+  replaying = true
+
+  let sent = 0
+  try {
+    for (const entry of await readOutbox()) {
+      let response: Response
+      try {
+        response = await apiFetch(entry.path, {
+          method: entry.method,
+          headers: { 'Content-Type': 'application/json' },
+          body: entry.body
+        })
+      } catch {
+        return
+      }
+
+      // Server errors and expired sessions are retried later; other rejections would never succeed.
+      if (response.status >= 500 || response.status === 401) return
+      if (entry.id !== undefined) await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(entry.id!))
+      if (response.ok) sent += 1
+    }
+  } finally {
+    replaying = false
+    if (sent > 0) toast(`已同步 ${sent} 筆離線變更`)
+  }
+}
+
+export function markConnectivity(online: boolean): void {
+  if (offlineMode === !online) return
+  setOfflineMode(!online)
+  if (authUser) triggerRender()
+}
+
+export function initOfflineSupport(onReconnect: () => void): void {
+  window.addEventListener('online', () => {
+    markConnectivity(true)
+    void replayOutbox()
+    onReconnect()
+  })
+  window.addEventListener('offline', () => markConnectivity(false))
+
+  if ('serviceWorker' in navigator) {
+    window.addEventListener('load', () => {
+      void navigator.serviceWorker.register('/sw.js').catch(() => undefined)
+    })
+  }
+}
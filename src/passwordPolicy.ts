@@ -0,0 +1,15 @@
+// Password rules shared by the login screens and the API server.
+
+export const MIN_PASSWORD_LENGTH = 8
+export const MAX_PASSWORD_LENGTH = 128
+
+export const PASSWORD_POLICY_HINT = `至少 ${MIN_PASSWORD_LENGTH} 碼，需同時包含英文字母與數字`
+
+/** Returns an error message for a password that breaks the policy, or null when it is acceptable. */
+export function checkPasswordPolicy(password: string, account: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) return `密碼至少 ${MIN_PASSWORD_LENGTH} 碼`
+  if (password.length > MAX_PASSWORD_LENGTH) return `密碼最多 ${MAX_PASSWORD_LENGTH} 碼`
+  if (!/[a-zA-Z]/.test(password) || !/\d/.test(password)) return '密碼需同時包含英文字母與數字'
+  if (account && password.toLowerCase().includes(account.toLowerCase())) return '密碼不可包含帳號'
+  return null
+}
@@ -0,0 +1,35 @@
+import type { UserRole } from './types'
+
+// Role → permission matrix shared by the API middleware and the app shell.
+
+export type Permission =
+  | 'users:manage'
+  | 'backups:manage'
+  | 'audit:view'
+  | 'providers:refresh'
+  | 'tts:manage'
+  | 'students:view'
+  | 'students:push'
+
+export const USER_ROLES: UserRole[] = ['admin', 'teacher', 'user']
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: '管理員',
+  teacher: '老師',
+  user: '一般使用者'
+}
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['users:manage', 'backups:manage', 'audit:view', 'providers:refresh', 'tts:manage', 'students:view', 'students:push'],
+  // Teachers only reach the students assigned to them; admins reach every student.
+  teacher: ['students:view', 'students:push'],
+  user: []
+}
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return role !== undefined && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function parseUserRole(raw: unknown): UserRole {
+  return USER_ROLES.find((role) => role === raw) ?? 'user'
+}
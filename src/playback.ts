@@ -0,0 +1,112 @@
+import type { PlaybackField, PlaybackStep, PlaybackTemplates } from './types'
+import { clampNumber } from './utils'
+
+// Playback templates describe what the player reads for one item, e.g. "word x2, pause 2s, meaning".
+
+export const PLAYBACK_FIELDS: Record<keyof PlaybackTemplates, PlaybackField[]> = {
+  en: ['word', 'spelling', 'meaning'],
+  ja: ['sentence', 'meaning', 'romaji', 'vocabulary']
+}
+
+export const MAX_TEMPLATE_STEPS = 12
+export const MAX_STEP_REPEAT = 5
+export const MAX_PAUSE_MS = 10000
+
+export const defaultPlaybackTemplates: PlaybackTemplates = {
+  en: [
+    { kind: 'word', repeat: 1 },
+    { kind: 'spelling', repeat: 1 },
+    { kind: 'meaning', repeat: 1 }
+  ],
+  ja: [
+    { kind: 'sentence', repeat: 1 },
+    { kind: 'meaning', repeat: 1 }
+  ]
+}
+
+export const PLAYBACK_PRESETS: Record<keyof PlaybackTemplates, Array<{ label: string; text: string }>> = {
+  en: [
+    { label: '預設：單字 → 拼讀 → 意涵', text: 'word, spelling, meaning' },
+    { label: '單字 ×2、停 2 秒、意涵', text: 'word x2, pause 2s, meaning' },
+    { label: '先意涵再單字', text: 'meaning, pause 1s, word, spelling' }
+  ],
+  ja: [
+    { label: '預設：句子 → 意涵', text: 'sentence, meaning' },
+    { label: '先意涵再句子', text: 'meaning, pause 1s, sentence' },
+    { label: '句子、單字表、羅馬拼音', text: 'sentence, vocabulary, romaji' }
+  ]
+}
+
+export function clonePlaybackTemplates(templates: PlaybackTemplates): PlaybackTemplates {
+  return {
+    en: templates.en.map((step) => ({ ...step })),
+    ja: templates.ja.map((step) => ({ ...step }))
+  }
+}
+
+export function formatPlaybackTemplate(steps: PlaybackStep[]): string {
+  return steps
+    .map((step) => {
+      if (step.kind === 'pause') return step.ms % 1000 === 0 ? `pause ${step.ms / 1000}s` : `pause ${step.ms}ms`
+      return step.repeat > 1 ? `${step.kind} x${step.repeat}` : step.kind
+    })
+    .join(', ')
+}
+
+export function parsePlaybackTemplate(raw: string, lang: keyof PlaybackTemplates): { steps: PlaybackStep[] } | { error: string } {
+  const tokens = raw.split(/[,，、→\n]/).map((token) => token.trim().toLowerCase()).filter(Boolean)
+  if (tokens.length === 0) return { error: '腳本至少需要一個步驟' }
+  if (tokens.length > MAX_TEMPLATE_STEPS) return { error: `腳本最多 ${MAX_TEMPLATE_STEPS} 個步驟` }
+
+  const steps: PlaybackStep[] = []
+  for (const token of tokens) {
+    const pause = token.match(/^pause\s+(\d+(?:\.\d+)?)\s*(ms|s)?$/)
+    if (pause) {
+      const value = Number(pause[1])
+      const ms = pause[2] === 'ms' ? value : value * 1000
+      steps.push({ kind: 'pause', ms: Math.round(clampNumber(ms, 0, MAX_PAUSE_MS)) })
+      continue
+    }
+
+    const field = token.match(/^([a-z]+)(?:\s*[x×*]\s*(\d+))?$/)
+    const kind = PLAYBACK_FIELDS[lang].find((item) => item === field?.[1])
+    if (!field || !kind) return { error: `無法辨識的步驟：${token}` }
+
+    steps.push({ kind, repeat: clampNumber(Number(field[2] ?? 1), 1, MAX_STEP_REPEAT) })
+  }
+
+  if (!steps.some((step) => step.kind !== 'pause')) return { error: '腳本至少需要一個朗讀步驟' }
+  return { steps }
+}
+
+export function sanitizePlaybackTemplates(raw: unknown): PlaybackTemplates {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof PlaybackTemplates, unknown>>
+  return {
+    en: sanitizePlaybackSteps(source.en, 'en'),
+    ja: sanitizePlaybackSteps(source.ja, 'ja')
+  }
+}
+
+function sanitizePlaybackSteps(raw: unknown, lang: keyof PlaybackTemplates): PlaybackStep[] {
+  const steps: PlaybackStep[] = []
+
+  for (const item of Array.isArray(raw) ? raw.slice(0, MAX_TEMPLATE_STEPS) : []) {
+    if (!item || typeof item !== 'object') continue
+    const step = item as Record<string, unknown>
+
+    if (step.kind === 'pause') {
+      steps.push({ kind: 'pause', ms: Math.round(clampNumber(Number(step.ms ?? 0), 0, MAX_PAUSE_MS)) })
+      continue
+    }
+
+    const kind = PLAYBACK_FIELDS[lang].find((field) => field === step.kind)
+    if (!kind) continue
+    steps.push({ kind, repeat: Math.round(clampNumber(Number(step.repeat ?? 1), 1, MAX_STEP_REPEAT)) })
+  }
+
+  // A template with nothing to read would make the player skip every item silently.
+  if (!steps.some((step) => step.kind !== 'pause')) {
+    return defaultPlaybackTemplates[lang].map((step) => ({ ...step }))
+  }
+  return steps
+}
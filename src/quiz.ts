@@ -0,0 +1,142 @@
+import { toHiragana, toRomaji } from 'wanakana'
+import type { DiffSegment, EnglishWord, JapaneseSentence, ReviewGrade } from './types'
+
+const JA_IGNORED_CHARS = /[\s。、，,．.！!？?「」『』（）()［］[\]・…〜~"'“”]/g
+
+export function normalizeAnswer(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j]
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : Math.min(diagonal, above, previous[j - 1]) + 1
+      diagonal = above
+    }
+  }
+
+  return previous[b.length]
+}
+
+// Exact spelling passes as "good"; a single typo in a longer word still passes, but as "hard".
+export function gradeSpelling(expected: string, answer: string): ReviewGrade {
+  const target = normalizeAnswer(expected)
+  const given = normalizeAnswer(answer)
+  if (!given) return 'again'
+  if (given === target) return 'good'
+  if (target.length >= 4 && editDistance(target, given) <= 1) return 'hard'
+  return 'again'
+}
+
+export function buildMeaningChoices(item: EnglishWord, pool: EnglishWord[], count = 4): string[] {
+  const distractors = Array.from(new Set(pool
+    .map((candidate) => candidate.meaningZh)
+    .filter((meaning) => meaning && meaning !== item.meaningZh)
+  ))
+
+  const picked: string[] = []
+  while (picked.length < count - 1 && distractors.length > 0) {
+    const index = Math.floor(Math.random() * distractors.length)
+    picked.push(distractors.splice(index, 1)[0])
+  }
+
+  const choices = [...picked]
+  choices.splice(Math.floor(Math.random() * (choices.length + 1)), 0, item.meaningZh)
+  return choices
+}
+
+// Kana and romaji answers are compared in hiragana; kanji pass through unchanged.
+export function normalizeKana(value: string): string {
+  return toHiragana(value.toLowerCase().replace(JA_IGNORED_CHARS, ''), { convertLongVowelMark: false })
+}
+
+type DiffToken = { display: string; key: string }
+
+// Compares in hiragana with each long vowel mark spelled out as the vowel it lengthens, so コーヒー,
+// こおひい and koohii all match.
+function kanaTokens(chars: string[]): DiffToken[] {
+  const tokens: DiffToken[] = []
+  for (const char of chars) {
+    const key = normalizeKana(char)
+    const previous = tokens[tokens.length - 1]?.key
+    const vowel = key === 'ー' && previous ? toRomaji(previous).slice(-1) : ''
+    tokens.push({ display: char, key: vowel && 'aiueo'.includes(vowel) ? toHiragana(vowel) : key })
+  }
+  return tokens
+}
+
+export function diffChars(expected: DiffToken[], actual: DiffToken[]): DiffSegment[] {
+  const rows = expected.length
+  const cols = actual.length
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0))
+
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i][j] = expected[i].key === actual[j].key
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (type: DiffSegment['type'], text: string): void => {
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) last.text += text
+    else segments.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (expected[i].key === actual[j].key) {
+      push('same', expected[i].display)
+      i += 1
+      j += 1
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('missing', expected[i].display)
+      i += 1
+    } else {
+      push('extra', actual[j].display)
+      j += 1
+    }
+  }
+  while (i < rows) push('missing', expected[i++].display)
+  while (j < cols) push('extra', actual[j++].display)
+
+  return segments
+}
+
+function similarity(expected: string, actual: string): number {
+  const longest = Math.max(expected.length, actual.length)
+  if (longest === 0) return 1
+  return 1 - editDistance(expected, actual) / longest
+}
+
+/**
+ * Scores a dictation answer against the sentence as written and against its kana reading (the stored
+ * romaji in hiragana), then grades and diffs with whichever the answer is closer to, so a kana answer
+ * to a kanji sentence is marked against the reading.
+ */
+export function scoreDictation(item: JapaneseSentence, answer: string): { grade: ReviewGrade; diff: DiffSegment[] } {
+  const written = kanaTokens(Array.from(item.sentence).filter((char) => char.replace(JA_IGNORED_CHARS, '') !== ''))
+  const reading = kanaTokens(Array.from(normalizeKana(item.romaji)))
+  const given = kanaTokens(Array.from(normalizeKana(answer)))
+
+  const givenText = given.map((token) => token.key).join('')
+  const [best] = [written, reading]
+    .map((expected) => ({ expected, score: similarity(expected.map((token) => token.key).join(''), givenText) }))
+    .sort((a, b) => b.score - a.score)
+
+  const diff = diffChars(best.expected, given)
+  if (given.length === 0) return { grade: 'again', diff }
+
+  const grade: ReviewGrade = best.score >= 0.98 ? 'good' : best.score >= 0.85 ? 'hard' : 'again'
+  return { grade, diff }
+}
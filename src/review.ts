@@ -1,183 +1,184 @@
+import type { EnglishWord, JapaneseSentence, MixedReviewItem, ReviewGrade } from './types'
 import {
-  englishReview, japaneseReview,
-  englishAbort, japaneseAbort, tempPlaybackAbort,
-  setEnglishAbort, setJapaneseAbort, setTempPlaybackAbort
+  englishReview, japaneseReview, mixedReview, playerOptions, englishQuiz, englishReviewMode, englishWords,
+  japaneseQuiz, japaneseReviewMode, tempPlaybackAbort, setTempPlaybackAbort
 } from './state'
 import {
-  speakEnglishWord, speakJapaneseSentence,
-  stopActivePlayback, pauseActivePlayback, resumeActivePlayback
+  speakEnglishWord, speakEnglishPrompt, speakJapaneseSentence, speakJapanesePrompt, stopActivePlayback
 } from './speech'
-import { markEnglishReviewed, markJapaneseReviewed, getEnglishQueueByGroup, getJapaneseQueueByGroup } from './data'
-import { clampNumber, sleep, toast } from './utils'
+import {
+  markEnglishReviewed, markJapaneseReviewed, markPlayed, getEnglishQueueByGroup, getJapaneseQueueByGroup, compareHardestFirst
+} from './data'
+import { buildMeaningChoices, gradeSpelling, scoreDictation } from './quiz'
+import { arrangeQueue, createReviewSession, stopReviewSessions, type ReviewSession } from './reviewSession'
+import { sleep } from './utils'
 import { triggerRender } from './renderBus'
 
-export function startEnglishReview(group: string): Promise<void> {
-  englishReview.queue = getEnglishQueueByGroup(group)
-
-  if (englishReview.queue.length === 0) {
-    toast('此群組目前沒有可播放內容')
-    return Promise.resolve()
+// Only one review runs at a time, so English and Japanese quizzes share the pending answer slot.
+let answerResolver: ((answer: string | null) => void) | null = null
+
+export const englishSession: ReviewSession<EnglishWord> = createReviewSession<EnglishWord>({
+  state: englishReview,
+  loadQueue: getEnglishQueueByGroup,
+  hardestFirst: compareHardestFirst,
+  speak: speakEnglishWord,
+  // Passive playback is only exposure, not recall, so it does not move the schedule.
+  grade: (item, durationMs) => markPlayed(item.id, 'english', durationMs),
+  quiz: {
+    active: () => englishReviewMode !== 'listen',
+    ask: askEnglishQuestion,
+    reset: resetEnglishQuiz
   }
-
-  stopJapaneseReview(false)
-  englishReview.running = true
-  englishReview.paused = false
-  englishReview.index = 0
-  englishReview.runId += 1
-  triggerRender()
-
-  return runEnglishReview(englishReview.runId)
-}
-
-async function runEnglishReview(runId: number): Promise<void> {
-  while (englishReview.running && englishReview.runId === runId && englishReview.index < englishReview.queue.length) {
-    while (englishReview.paused && englishReview.running && englishReview.runId === runId) {
-      await sleep(120)
-    }
-
-    if (!englishReview.running || englishReview.runId !== runId) return
-
-    const current = englishReview.queue[englishReview.index]
-    const controller = new AbortController()
-    setEnglishAbort(controller)
-
-    await speakEnglishWord(current, controller.signal)
-
-    if (!englishReview.running || englishReview.runId !== runId) return
-
-    markEnglishReviewed(current.id)
-    englishReview.index += 1
-    triggerRender()
+})
+
+export const japaneseSession: ReviewSession<JapaneseSentence> = createReviewSession<JapaneseSentence>({
+  state: japaneseReview,
+  loadQueue: getJapaneseQueueByGroup,
+  hardestFirst: compareHardestFirst,
+  speak: speakJapaneseSentence,
+  grade: (item, durationMs) => markPlayed(item.id, 'japanese', durationMs),
+  quiz: {
+    active: () => japaneseReviewMode === 'dictation',
+    ask: askJapaneseDictation,
+    reset: resetJapaneseQuiz
   }
-
-  stopEnglishReview(false)
+})
+
+// Listening only: the quiz modes answer in the language tab's own quiz panel.
+export const mixedSession: ReviewSession<MixedReviewItem> = createReviewSession<MixedReviewItem>({
+  state: mixedReview,
+  loadQueue: (group) => [
+    ...getEnglishQueueByGroup(group).map((item): MixedReviewItem => ({ kind: 'english', item })),
+    // Sentences have no needs-work flag, so that group is English only.
+    ...(group === 'needs-work' ? [] : getJapaneseQueueByGroup(group)).map((item): MixedReviewItem => ({ kind: 'japanese', item }))
+  ],
+  hardestFirst: compareMixedHardestFirst,
+  // Each language is ordered on its own, then they alternate.
+  arrange: (queue, order) => interleave<MixedReviewItem>(
+    arrangeQueue(queue.filter((entry) => entry.kind === 'english'), order, compareMixedHardestFirst),
+    arrangeQueue(queue.filter((entry) => entry.kind === 'japanese'), order, compareMixedHardestFirst)
+  ),
+  speak: (entry, signal) => entry.kind === 'english' ? speakEnglishWord(entry.item, signal) : speakJapaneseSentence(entry.item, signal),
+  grade: (entry, durationMs) => markPlayed(entry.item.id, entry.kind, durationMs)
+})
+
+/** The session a language tab's player controls: the mixed one while it runs or is selected. */
+export function playerSessionFor(kind: 'english' | 'japanese'): ReviewSession<unknown> {
+  if (mixedReview.running || (playerOptions.mixed && !englishReview.running && !japaneseReview.running)) {
+    return mixedSession as ReviewSession<unknown>
+  }
+  return (kind === 'english' ? englishSession : japaneseSession) as ReviewSession<unknown>
 }
 
-export function toggleEnglishPause(): void {
-  if (!englishReview.running) return
-
-  englishReview.paused = !englishReview.paused
-  if (englishReview.paused) pauseActivePlayback()
-  else resumeActivePlayback()
-
-  triggerRender()
+function compareMixedHardestFirst(a: MixedReviewItem, b: MixedReviewItem): number {
+  return compareHardestFirst(a.item, b.item)
 }
 
-export function stopEnglishReview(doStopPlayback: boolean): void {
-  englishReview.running = false
-  englishReview.paused = false
-  englishReview.queue = []
-  englishReview.index = 0
-  englishReview.runId += 1
-
-  if (englishAbort) {
-    englishAbort.abort()
-    setEnglishAbort(null)
+function interleave<T>(first: T[], second: T[]): T[] {
+  const result: T[] = []
+  for (let index = 0; index < Math.max(first.length, second.length); index += 1) {
+    if (index < first.length) result.push(first[index])
+    if (index < second.length) result.push(second[index])
   }
-
-  if (doStopPlayback) stopActivePlayback()
-  triggerRender()
+  return result
 }
 
-export function shiftEnglishReview(step: number): Promise<void> {
-  if (!englishReview.running || englishReview.queue.length === 0) return Promise.resolve()
-
-  const nextIndex = clampNumber(englishReview.index + step, 0, englishReview.queue.length - 1)
-  englishReview.index = nextIndex
-  englishReview.paused = false
-  englishReview.runId += 1
-
-  if (englishAbort) englishAbort.abort()
-
+async function askEnglishQuestion(item: EnglishWord, signal: AbortSignal, isCurrent: () => boolean): Promise<void> {
+  englishQuiz.awaiting = true
+  englishQuiz.answer = ''
+  englishQuiz.grade = null
+  englishQuiz.choices = englishReviewMode === 'choice' ? buildMeaningChoices(item, englishWords) : []
   triggerRender()
-  return runEnglishReview(englishReview.runId)
-}
 
-export function startJapaneseReview(group: string): Promise<void> {
-  japaneseReview.queue = getJapaneseQueueByGroup(group)
+  if (englishReviewMode !== 'recall') await speakEnglishPrompt(item, signal)
 
-  if (japaneseReview.queue.length === 0) {
-    toast('此群組目前沒有可播放內容')
-    return Promise.resolve()
-  }
+  const startedAt = Date.now()
+  const answer = await waitForAnswer(signal)
+  if (answer === null || !isCurrent()) return
+
+  const grade: ReviewGrade = englishReviewMode === 'choice'
+    ? (answer === item.meaningZh ? 'good' : 'again')
+    : gradeSpelling(item.word, answer)
 
-  stopEnglishReview(false)
-  japaneseReview.running = true
-  japaneseReview.paused = false
-  japaneseReview.index = 0
-  japaneseReview.runId += 1
+  markEnglishReviewed(item.id, grade, { mode: 'quiz', durationMs: Date.now() - startedAt })
+  englishQuiz.awaiting = false
+  englishQuiz.answer = answer
+  englishQuiz.grade = grade
   triggerRender()
 
-  return runJapaneseReview(japaneseReview.runId)
+  // Play the full word → spelling → meaning sequence as feedback before moving on.
+  await speakEnglishWord(item, signal)
+  await sleep(600)
 }
 
-async function runJapaneseReview(runId: number): Promise<void> {
-  while (japaneseReview.running && japaneseReview.runId === runId && japaneseReview.index < japaneseReview.queue.length) {
-    while (japaneseReview.paused && japaneseReview.running && japaneseReview.runId === runId) {
-      await sleep(120)
+function waitForAnswer(signal: AbortSignal): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve(null)
+      return
     }
 
-    if (!japaneseReview.running || japaneseReview.runId !== runId) return
-
-    const current = japaneseReview.queue[japaneseReview.index]
-    const controller = new AbortController()
-    setJapaneseAbort(controller)
-
-    await speakJapaneseSentence(current, controller.signal)
-
-    if (!japaneseReview.running || japaneseReview.runId !== runId) return
-
-    markJapaneseReviewed(current.id)
-    japaneseReview.index += 1
-    triggerRender()
-  }
+    const finish = (answer: string | null): void => {
+      signal.removeEventListener('abort', onAbort)
+      answerResolver = null
+      resolve(answer)
+    }
+    const onAbort = (): void => finish(null)
 
-  stopJapaneseReview(false)
+    answerResolver = finish
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
-export function toggleJapanesePause(): void {
-  if (!japaneseReview.running) return
+export function submitEnglishAnswer(answer: string): void {
+  if (!englishQuiz.awaiting || !answerResolver) return
+  answerResolver(answer)
+}
 
-  japaneseReview.paused = !japaneseReview.paused
-  if (japaneseReview.paused) pauseActivePlayback()
-  else resumeActivePlayback()
+function resetEnglishQuiz(): void {
+  englishQuiz.awaiting = false
+  englishQuiz.choices = []
+  englishQuiz.answer = ''
+  englishQuiz.grade = null
+}
 
+async function askJapaneseDictation(item: JapaneseSentence, signal: AbortSignal, isCurrent: () => boolean): Promise<void> {
+  resetJapaneseQuiz()
+  japaneseQuiz.awaiting = true
   triggerRender()
-}
 
-export function stopJapaneseReview(doStopPlayback: boolean): void {
-  japaneseReview.running = false
-  japaneseReview.paused = false
-  japaneseReview.queue = []
-  japaneseReview.index = 0
-  japaneseReview.runId += 1
+  await speakJapanesePrompt(item, signal)
 
-  if (japaneseAbort) {
-    japaneseAbort.abort()
-    setJapaneseAbort(null)
-  }
+  const startedAt = Date.now()
+  const answer = await waitForAnswer(signal)
+  if (answer === null || !isCurrent()) return
 
-  if (doStopPlayback) stopActivePlayback()
+  const { grade, diff } = scoreDictation(item, answer)
+  markJapaneseReviewed(item.id, grade, { mode: 'dictation', durationMs: Date.now() - startedAt })
+  japaneseQuiz.awaiting = false
+  japaneseQuiz.answer = answer
+  japaneseQuiz.grade = grade
+  japaneseQuiz.diff = diff
   triggerRender()
-}
-
-export function shiftJapaneseReview(step: number): Promise<void> {
-  if (!japaneseReview.running || japaneseReview.queue.length === 0) return Promise.resolve()
 
-  const nextIndex = clampNumber(japaneseReview.index + step, 0, japaneseReview.queue.length - 1)
-  japaneseReview.index = nextIndex
-  japaneseReview.paused = false
-  japaneseReview.runId += 1
+  await speakJapaneseSentence(item, signal)
+  await sleep(600)
+}
 
-  if (japaneseAbort) japaneseAbort.abort()
+export function submitJapaneseAnswer(answer: string): void {
+  if (!japaneseQuiz.awaiting || !answerResolver) return
+  answerResolver(answer)
+}
 
-  triggerRender()
-  return runJapaneseReview(japaneseReview.runId)
+function resetJapaneseQuiz(): void {
+  japaneseQuiz.awaiting = false
+  japaneseQuiz.answer = ''
+  japaneseQuiz.grade = null
+  japaneseQuiz.diff = []
 }
 
 export function stopAllPlayback(doStopPlayback: boolean): void {
-  stopEnglishReview(false)
-  stopJapaneseReview(false)
+  stopReviewSessions()
 
   if (tempPlaybackAbort) {
     tempPlaybackAbort.abort()
@@ -0,0 +1,195 @@
+import type { QueueOrder, ReviewState } from './types'
+import { playerOptions, MAX_REPEAT_EACH } from './state'
+import { pauseActivePlayback, resumeActivePlayback, stopActivePlayback } from './speech'
+import { clampNumber, sleep, toast } from './utils'
+import { triggerRender } from './renderBus'
+
+// One player engine for every content type. A content type supplies how to build its queue, how to read
+// an item and how to grade a listened item; quiz modes plug in as a whole ask-and-grade step.
+
+export type ReviewQuizHooks<T> = {
+  // Whether the current review mode is a quiz; read once per item.
+  active(): boolean
+  // Asks about `item`, waits for the answer and grades it. `isCurrent` turns false once the user
+  // skips, stops or restarts, after which the result must be dropped.
+  ask(item: T, signal: AbortSignal, isCurrent: () => boolean): Promise<void>
+  reset(): void
+}
+
+export type ReviewSessionConfig<T> = {
+  state: ReviewState<T>
+  loadQueue(group: string): T[]
+  // Sorts for the 'hardest' order: negative when `a` is harder.
+  hardestFirst(a: T, b: T): number
+  // Puts a queue in play order; defaults to arrangeQueue. Mixed queues override it to keep alternating.
+  arrange?(queue: T[], order: QueueOrder): T[]
+  speak(item: T, signal: AbortSignal): Promise<void>
+  // Called after all of an item's repeats, at most once per item and session.
+  grade(item: T, durationMs: number): void
+  quiz?: ReviewQuizHooks<T>
+}
+
+export type ReviewSession<T> = {
+  state: ReviewState<T>
+  start(group: string): Promise<void>
+  togglePause(): void
+  stop(doStopPlayback: boolean): void
+  shift(step: number): Promise<void>
+}
+
+// Between the repeats of one item.
+const REPEAT_GAP_MS = 800
+
+// Only one session plays at a time; starting one stops the others.
+const sessions: Array<ReviewSession<unknown>> = []
+
+export function stopReviewSessions(): void {
+  for (const session of sessions) session.stop(false)
+}
+
+export function arrangeQueue<T>(queue: T[], order: QueueOrder, hardestFirst: (a: T, b: T) => number): T[] {
+  if (order === 'shuffle') return shuffle(queue)
+  if (order === 'hardest') return [...queue].sort(hardestFirst)
+  return queue
+}
+
+export function createReviewSession<T>(config: ReviewSessionConfig<T>): ReviewSession<T> {
+  const { state } = config
+  const arrange = config.arrange ?? ((queue: T[], order: QueueOrder) => arrangeQueue(queue, order, config.hardestFirst))
+  let abort: AbortController | null = null
+  // Items graded or quizzed in this session. Loop passes and stepping back replay them without grading,
+  // so one sitting cannot reschedule an item several times.
+  const graded = new Set<T>()
+
+  const isCurrent = (runId: number) => state.running && state.runId === runId
+
+  const run = async (runId: number): Promise<void> => {
+    while (isCurrent(runId)) {
+      if (state.index >= state.queue.length) {
+        if (!playerOptions.loop) break
+        state.index = 0
+        // A new pass gets a new random order; the other orders would come out the same.
+        if (playerOptions.order === 'shuffle') state.queue = arrange(state.queue, 'shuffle')
+        triggerRender()
+      }
+
+      while (state.paused && isCurrent(runId)) {
+        await sleep(120)
+      }
+      if (!isCurrent(runId)) return
+
+      if (state.stopAt !== null && Date.now() >= state.stopAt) {
+        toast('睡眠計時結束，已停止播放')
+        break
+      }
+
+      const item = state.queue[state.index]
+      const controller = new AbortController()
+      abort = controller
+
+      if (config.quiz?.active() && !graded.has(item)) {
+        await config.quiz.ask(item, controller.signal, () => isCurrent(runId))
+        if (!isCurrent(runId)) return
+        graded.add(item)
+      } else {
+        const startedAt = Date.now()
+        const plays = clampNumber(playerOptions.repeatEach, 1, MAX_REPEAT_EACH)
+        for (let play = 0; play < plays; play += 1) {
+          if (play > 0) await sleep(REPEAT_GAP_MS)
+          await config.speak(item, controller.signal)
+          if (!isCurrent(runId)) return
+        }
+
+        if (!graded.has(item)) config.grade(item, Date.now() - startedAt)
+        graded.add(item)
+      }
+
+      state.index += 1
+      triggerRender()
+    }
+
+    if (isCurrent(runId)) session.stop(false)
+  }
+
+  const session: ReviewSession<T> = {
+    state,
+
+    start(group) {
+      const arranged = arrange(config.loadQueue(group), playerOptions.order)
+      const queue = playerOptions.maxItems > 0 ? arranged.slice(0, playerOptions.maxItems) : arranged
+      if (queue.length === 0) {
+        toast('此群組目前沒有可播放內容')
+        return Promise.resolve()
+      }
+
+      for (const other of sessions) {
+        if (other !== session) other.stop(false)
+      }
+      graded.clear()
+      state.queue = queue
+      state.group = group
+      state.running = true
+      state.paused = false
+      state.index = 0
+      state.stopAt = playerOptions.sleepMinutes > 0 ? Date.now() + playerOptions.sleepMinutes * 60 * 1000 : null
+      state.runId += 1
+      triggerRender()
+
+      return run(state.runId)
+    },
+
+    togglePause() {
+      if (!state.running) return
+
+      state.paused = !state.paused
+      if (state.paused) pauseActivePlayback()
+      else resumeActivePlayback()
+
+      triggerRender()
+    },
+
+    stop(doStopPlayback) {
+      state.running = false
+      state.paused = false
+      state.queue = []
+      state.index = 0
+      state.stopAt = null
+      state.runId += 1
+      config.quiz?.reset()
+
+      if (abort) {
+        abort.abort()
+        abort = null
+      }
+
+      if (doStopPlayback) stopActivePlayback()
+      triggerRender()
+    },
+
+    shift(step) {
+      if (!state.running || state.queue.length === 0) return Promise.resolve()
+
+      state.index = clampNumber(state.index + step, 0, state.queue.length - 1)
+      state.paused = false
+      state.runId += 1
+      config.quiz?.reset()
+
+      if (abort) abort.abort()
+
+      triggerRender()
+      return run(state.runId)
+    }
+  }
+
+  sessions.push(session as ReviewSession<unknown>)
+  return session
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items]
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const other = Math.floor(Math.random() * (index + 1))
+    ;[result[index], result[other]] = [result[other], result[index]]
+  }
+  return result
+}
@@ -0,0 +1,123 @@
+import type { ReviewGrade, ReviewMode, SrsState } from './types'
+import { clampNumber } from './utils'
+
+// SM-2 style scheduler shared by the client and the API server.
+// `stability` is the current interval in days; `level` is only a coarse 0-5 display value derived from it.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+// How a review was logged; 'playback' events are exposure only and never reach scheduleReview.
+export const REVIEW_MODES: ReviewMode[] = ['manual', 'playback', 'quiz', 'dictation']
+export const MAX_LEVEL = 5
+export const DEFAULT_EASE = 2.5
+export const MIN_EASE = 1.3
+export const MAX_EASE = 3.5
+export const MAX_STABILITY_DAYS = 365
+
+// Intervals of the old fixed ladder, indexed by `level`. Only used to migrate stored data.
+export const LEGACY_INTERVAL_DAYS = [0, 1, 3, 7, 14, 30]
+
+const LEVEL_THRESHOLDS_DAYS = [1, 3, 7, 14, 30]
+
+export function createSrsState(): SrsState {
+  return {
+    level: 0,
+    ease: DEFAULT_EASE,
+    stability: 0,
+    dueAt: null,
+    lapses: 0,
+    lastReviewedAt: null
+  }
+}
+
+export function levelForStability(stability: number): number {
+  return Math.min(MAX_LEVEL, LEVEL_THRESHOLDS_DAYS.filter((days) => stability >= days).length)
+}
+
+export function isSrsDue(state: Pick<SrsState, 'dueAt'>, now = Date.now()): boolean {
+  if (!state.dueAt) return true
+  const dueAt = Date.parse(state.dueAt)
+  if (Number.isNaN(dueAt)) return true
+  return now >= dueAt
+}
+
+export function scheduleReview(state: SrsState, grade: ReviewGrade, now = new Date()): SrsState {
+  const isNew = state.lastReviewedAt === null || state.stability <= 0
+  let ease = state.ease
+  let lapses = state.lapses
+  let stability: number
+  let delayMs: number
+
+  if (grade === 'again') {
+    ease -= 0.2
+    if (!isNew) lapses += 1
+    stability = isNew ? 0 : Math.max(1, state.stability * 0.3)
+    delayMs = RELEARN_DELAY_MS
+  } else {
+    if (grade === 'hard') {
+      ease -= 0.15
+      stability = isNew ? 1 : Math.max(1, state.stability * 1.2)
+    } else if (grade === 'good') {
+      stability = isNew ? 1 : Math.max(state.stability + 1, state.stability * ease)
+    } else {
+      ease += 0.15
+      stability = isNew ? 4 : Math.max(state.stability + 1, state.stability * ease * 1.3)
+    }
+    stability = clampNumber(stability, 1, MAX_STABILITY_DAYS)
+    delayMs = stability * DAY_MS
+  }
+
+  stability = Math.round(stability * 100) / 100
+
+  return {
+    level: levelForStability(stability),
+    ease: Math.round(clampNumber(ease, MIN_EASE, MAX_EASE) * 100) / 100,
+    stability,
+    dueAt: new Date(now.getTime() + delayMs).toISOString(),
+    lapses,
+    lastReviewedAt: now.toISOString()
+  }
+}
+
+/**
+ * Reads scheduler fields from an untrusted record. Records saved before the scheduler existed only carry
+ * `level` + `lastReviewedAt`; those are mapped onto the old ladder interval so nothing becomes due early.
+ */
+export function normalizeSrsState(source: Record<string, unknown>): SrsState {
+  const lastReviewedAt = parseIsoOrNull(source.lastReviewedAt)
+  const storedStability = Number(source.stability)
+
+  if (source.stability !== undefined && Number.isFinite(storedStability)) {
+    const stability = clampNumber(storedStability, 0, MAX_STABILITY_DAYS)
+    return {
+      level: levelForStability(stability),
+      ease: clampNumber(Number(source.ease ?? DEFAULT_EASE), MIN_EASE, MAX_EASE),
+      stability,
+      dueAt: parseIsoOrNull(source.dueAt),
+      lapses: Math.max(0, Math.floor(Number(source.lapses ?? 0)) || 0),
+      lastReviewedAt
+    }
+  }
+
+  if (!lastReviewedAt) return createSrsState()
+
+  const level = clampNumber(Math.floor(Number(source.level ?? 0)), 0, LEGACY_INTERVAL_DAYS.length - 1)
+  const stability = LEGACY_INTERVAL_DAYS[level]
+  return {
+    level,
+    ease: DEFAULT_EASE,
+    stability,
+    dueAt: new Date(Date.parse(lastReviewedAt) + stability * DAY_MS).toISOString(),
+    lapses: 0,
+    lastReviewedAt
+  }
+}
+
+function parseIsoOrNull(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const timestamp = Date.parse(value)
+  if (Number.isNaN(timestamp)) return null
+  return new Date(timestamp).toISOString()
+}
@@ -238,42 +238,42 @@ const ENGLISH_SEED_BASE: SeedEnglishWord[] = [
 ]
 
 const TIME_PARTS = [
-  { ja: '毎朝', zh: '每天早上' },
-  { ja: '毎晩', zh: '每天晚上' },
-  { ja: '週末に', zh: '在週末' },
-  { ja: '昼休みに', zh: '在午休時' },
-  { ja: '通勤中に', zh: '在通勤途中' },
-  { ja: '寝る前に', zh: '在睡前' },
-  { ja: '授業の前に', zh: '在上課前' },
-  { ja: '仕事の後で', zh: '在下班後' },
-  { ja: '休みの日に', zh: '在休假日' },
-  { ja: '朝の時間に', zh: '在早晨時段' }
+  { ja: '毎朝', kana: 'まいあさ', zh: '每天早上' },
+  { ja: '毎晩', kana: 'まいばん', zh: '每天晚上' },
+  { ja: '週末に', kana: 'しゅうまつに', zh: '在週末' },
+  { ja: '昼休みに', kana: 'ひるやすみに', zh: '在午休時' },
+  { ja: '通勤中に', kana: 'つうきんちゅうに', zh: '在通勤途中' },
+  { ja: '寝る前に', kana: 'ねるまえに', zh: '在睡前' },
+  { ja: '授業の前に', kana: 'じゅぎょうのまえに', zh: '在上課前' },
+  { ja: '仕事の後で', kana: 'しごとのあとで', zh: '在下班後' },
+  { ja: '休みの日に', kana: 'やすみのひに', zh: '在休假日' },
+  { ja: '朝の時間に', kana: 'あさのじかんに', zh: '在早晨時段' }
 ] as const
 
 const PLACE_PARTS = [
-  { ja: '家で', zh: '在家裡', tag: 'home' },
-  { ja: '図書館で', zh: '在圖書館', tag: 'library' },
-  { ja: 'カフェで', zh: '在咖啡廳', tag: 'cafe' },
-  { ja: '会社で', zh: '在公司', tag: 'work' },
-  { ja: '学校で', zh: '在學校', tag: 'school' },
-  { ja: '電車で', zh: '在電車上', tag: 'commute' },
-  { ja: '公園で', zh: '在公園', tag: 'outdoor' },
-  { ja: 'オンラインで', zh: '在線上', tag: 'online' }
+  { ja: '家で', kana: 'いえで', zh: '在家裡', tag: 'home' },
+  { ja: '図書館で', kana: 'としょかんで', zh: '在圖書館', tag: 'library' },
+  { ja: 'カフェで', kana: 'カフェで', zh: '在咖啡廳', tag: 'cafe' },
+  { ja: '会社で', kana: 'かいしゃで', zh: '在公司', tag: 'work' },
+  { ja: '学校で', kana: 'がっこうで', zh: '在學校', tag: 'school' },
+  { ja: '電車で', kana: 'でんしゃで', zh: '在電車上', tag: 'commute' },
+  { ja: '公園で', kana: 'こうえんで', zh: '在公園', tag: 'outdoor' },
+  { ja: 'オンラインで', kana: 'オンラインで', zh: '在線上', tag: 'online' }
 ] as const
 
 const ACTION_PARTS = [
-  { ja: '日本語の単語を復習します。', zh: '複習日文單字。', tag: 'vocabulary' },
-  { ja: '新しい文法を練習します。', zh: '練習新的文法。', tag: 'grammar' },
-  { ja: 'ニュース記事を読みます。', zh: '閱讀新聞文章。', tag: 'news' },
-  { ja: '例文を声に出して読みます。', zh: '把例句大聲朗讀。', tag: 'speaking' },
-  { ja: '会話の練習をします。', zh: '進行會話練習。', tag: 'conversation' },
-  { ja: '短い日記を書きます。', zh: '寫短篇日記。', tag: 'writing' },
-  { ja: '発音をチェックします。', zh: '檢查發音。', tag: 'pronunciation' },
-  { ja: 'ポッドキャストを聞きます。', zh: '收聽 Podcast。', tag: 'listening' },
-  { ja: '字幕つきの動画を見ます。', zh: '看有字幕的影片。', tag: 'video' },
-  { ja: 'アプリでクイズを解きます。', zh: '在 App 裡做測驗。', tag: 'quiz' },
-  { ja: '先生に質問します。', zh: '向老師提問。', tag: 'question' },
-  { ja: '単語カードを作ります。', zh: '製作單字卡。', tag: 'flashcard' }
+  { ja: '日本語の単語を復習します。', kana: 'にほんごのたんごをふくしゅうします。', zh: '複習日文單字。', tag: 'vocabulary' },
+  { ja: '新しい文法を練習します。', kana: 'あたらしいぶんぽうをれんしゅうします。', zh: '練習新的文法。', tag: 'grammar' },
+  { ja: 'ニュース記事を読みます。', kana: 'ニュースきじをよみます。', zh: '閱讀新聞文章。', tag: 'news' },
+  { ja: '例文を声に出して読みます。', kana: 'れいぶんをこえにだしてよみます。', zh: '把例句大聲朗讀。', tag: 'speaking' },
+  { ja: '会話の練習をします。', kana: 'かいわのれんしゅうをします。', zh: '進行會話練習。', tag: 'conversation' },
+  { ja: '短い日記を書きます。', kana: 'みじかいにっきをかきます。', zh: '寫短篇日記。', tag: 'writing' },
+  { ja: '発音をチェックします。', kana: 'はつおんをチェックします。', zh: '檢查發音。', tag: 'pronunciation' },
+  { ja: 'ポッドキャストを聞きます。', kana: 'ポッドキャストをききます。', zh: '收聽 Podcast。', tag: 'listening' },
+  { ja: '字幕つきの動画を見ます。', kana: 'じまくつきのどうがをみます。', zh: '看有字幕的影片。', tag: 'video' },
+  { ja: 'アプリでクイズを解きます。', kana: 'アプリでクイズをときます。', zh: '在 App 裡做測驗。', tag: 'quiz' },
+  { ja: '先生に質問します。', kana: 'せんせいにしつもんします。', zh: '向老師提問。', tag: 'question' },
+  { ja: '単語カードを作ります。', kana: 'たんごカードをつくります。', zh: '製作單字卡。', tag: 'flashcard' }
 ] as const
 
 export function generateEnglishSeedWords(count = 240): SeedEnglishWord[] {
@@ -289,7 +289,7 @@ export function generateJapaneseSeedSentences(count = 240): SeedJapaneseSentence
         const sentence = `${time.ja}${place.ja}${action.ja}`
         items.push({
           sentence,
-          romaji: toRomaji(sentence),
+          romaji: toRomaji(`${time.kana}${place.kana}${action.kana}`),
           meaningZh: `${time.zh}${place.zh}${action.zh}`,
           vocabulary: [
             { word: '単語', meaningZh: '單字' },
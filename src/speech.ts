@@ -1,8 +1,9 @@
-import type { SpeakPart, LangBucket, EnglishWord, JapaneseSentence } from './types'
+import { toHiragana } from 'wanakana'
+import type { SpeakPart, LangBucket, EnglishWord, JapaneseSentence, PlaybackStep, PlaybackField, ServerTtsEngine, TtsEngine } from './types'
 import {
   speechSettings, providerStatus, voices, activeAudio, tempPlaybackAbort,
   setVoices, setActiveAudio, setTempPlaybackAbort, setLastOpenAiFailNoticeAt,
-  lastOpenAiFailNoticeAt, authUser, activeTab
+  lastOpenAiFailNoticeAt, authUser, activeTab, TTS_ENGINE_LABELS
 } from './state'
 import { apiFetch, safeReadText } from './api'
 import { clampNumber, toast, sleep } from './utils'
@@ -21,18 +22,51 @@ function getPersistentAudio(): HTMLAudioElement {
   return _persistentAudio
 }
 
+type ServerSpeechRequest = {
+  text: string
+  engine: ServerTtsEngine
+  lang: SpeakPart['lang']
+  voice: string
+  speed: number
+}
+
+// Longer texts go by POST; a GET URL beyond this may be rejected by proxies.
+const MAX_TTS_QUERY_LENGTH = 2000
+
+/**
+ * Requests server-synthesized audio. Short texts use GET so the browser's HTTP cache can answer repeats
+ * (the server marks the audio immutable under an ETag); longer ones fall back to POST.
+ */
+function fetchServerSpeech(request: ServerSpeechRequest): Promise<Response> {
+  const params = { ...request, speed: String(request.speed) }
+  const query = new URLSearchParams(params).toString()
+  if (query.length <= MAX_TTS_QUERY_LENGTH) return apiFetch(`/api/tts?${query}`)
+
+  return apiFetch('/api/tts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  })
+}
+
 export function toLangBucket(lang: SpeakPart['lang']): LangBucket {
   if (lang.startsWith('ja')) return 'ja'
   if (lang.startsWith('zh')) return 'zh'
   return 'en'
 }
 
-export function resolvePartVolume(part: SpeakPart, engine: 'browser' | 'openai'): number {
+/** The engine that reads `lang`: the user's choice, or the browser while that server engine is unavailable. */
+export function engineFor(lang: SpeakPart['lang']): TtsEngine {
+  const engine = speechSettings.engines[toLangBucket(lang)]
+  return engine !== 'browser' && !providerStatus.tts[engine] ? 'browser' : engine
+}
+
+export function resolvePartVolume(part: SpeakPart, engine: TtsEngine): number {
   if (typeof part.volume === 'number') return clampNumber(part.volume, 0, 1)
   const bucket = toLangBucket(part.lang)
-  return engine === 'openai'
-    ? clampNumber(speechSettings.openAiVolumes[bucket], 0, 1)
-    : clampNumber(speechSettings.browserVolumes[bucket], 0, 1)
+  return engine === 'browser'
+    ? clampNumber(speechSettings.browserVolumes[bucket], 0, 1)
+    : clampNumber(speechSettings.openAiVolumes[bucket], 0, 1)
 }
 
 export function chooseVoice(lang: SpeakPart['lang'], overrideVoiceUri?: string): SpeechSynthesisVoice | null {
@@ -47,11 +81,11 @@ export function chooseVoice(lang: SpeakPart['lang'], overrideVoiceUri?: string):
   return voices.find((voice) => voice.lang.toLowerCase().startsWith(bucket)) ?? null
 }
 
-export function maybeNotifyOpenAiFallback(detail: string): void {
+export function maybeNotifyServerFallback(engine: ServerTtsEngine, detail: string): void {
   const now = Date.now()
   if (now - lastOpenAiFailNoticeAt < 4000) return
   setLastOpenAiFailNoticeAt(now)
-  toast(`OpenAI TTS 未生效，已改用瀏覽器聲音：${detail}`)
+  toast(`${TTS_ENGINE_LABELS[engine]} 未生效，已改用瀏覽器聲音：${detail}`)
 }
 
 export function initSpeechVoices(): void {
@@ -176,117 +210,189 @@ export function speakPartWithBrowser(part: SpeakPart, signal: AbortSignal, volum
   })
 }
 
-export async function speakPartWithOpenAi(part: SpeakPart, signal: AbortSignal, volume: number): Promise<boolean> {
-  if (!providerStatus.tts.openai) return false
+/** Plays server audio for `text`; false when it could not be played, so the caller can fall back to the browser. */
+async function speakServerText(
+  text: string,
+  engine: ServerTtsEngine,
+  lang: SpeakPart['lang'],
+  signal: AbortSignal,
+  speed: number,
+  volume: number
+): Promise<boolean> {
+  if (signal.aborted) return true
 
   try {
-    const response = await apiFetch('/api/tts', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text: part.text, lang: part.lang, voice: speechSettings.openAiVoice, speed: part.rate ?? 1 })
-    })
-
+    const response = await fetchServerSpeech({ text, engine, lang, voice: speechSettings.openAiVoice, speed: clampNumber(speed, 0.6, 1.3) })
     if (!response.ok) {
-      const detail = await safeReadText(response)
-      maybeNotifyOpenAiFallback(detail)
+      maybeNotifyServerFallback(engine, await safeReadText(response))
       return false
     }
 
     const objectUrl = URL.createObjectURL(await response.blob())
-    const played = await playAudioUrl(objectUrl, signal, volume)
+    const played = await playAudioUrl(objectUrl, signal, clampNumber(volume, 0, 1))
     URL.revokeObjectURL(objectUrl)
-    if (!played) {
-      maybeNotifyOpenAiFallback('OpenAI 音訊播放受限，已改用瀏覽器聲音')
+    if (!played && !signal.aborted) {
+      maybeNotifyServerFallback(engine, '音訊播放受限')
       return false
     }
     return true
   } catch {
-    maybeNotifyOpenAiFallback('OpenAI TTS 連線失敗，已改用瀏覽器聲音')
+    if (signal.aborted) return true
+    maybeNotifyServerFallback(engine, '連線失敗')
     return false
   }
 }
 
-export async function speakByParts(parts: SpeakPart[], signal: AbortSignal): Promise<void> {
+async function speakWithBrowser(parts: SpeakPart[], signal: AbortSignal): Promise<void> {
   for (const part of parts) {
     if (signal.aborted) return
+    await speakPartWithBrowser(part, signal, resolvePartVolume(part, 'browser'))
+    await sleep(140)
+  }
+}
 
-    const openAiVolume = resolvePartVolume(part, 'openai')
-    const browserVolume = resolvePartVolume(part, 'browser')
+export async function speakByParts(parts: SpeakPart[], signal: AbortSignal): Promise<void> {
+  for (const part of parts) {
+    if (signal.aborted) return
 
-    const usedOpenAi = speechSettings.engine === 'openai'
-      ? await speakPartWithOpenAi(part, signal, openAiVolume)
-      : false
-    if (!usedOpenAi) {
-      await speakPartWithBrowser(part, signal, browserVolume)
+    if (part.pauseMs) {
+      await sleepUnlessAborted(part.pauseMs, signal)
+      continue
     }
 
-    await sleep(140)
+    const engine = engineFor(part.lang)
+    if (engine === 'browser' || !(await speakServerText(part.text, engine, part.lang, signal, part.rate ?? 1, resolvePartVolume(part, engine)))) {
+      await speakWithBrowser([part], signal)
+    } else {
+      await sleep(140)
+    }
   }
 }
 
-export async function speakSingleOpenAiText(text: string, signal: AbortSignal, speed: number, volume: number): Promise<void> {
-  if (!providerStatus.tts.openai) {
-    toast('OpenAI TTS 尚未啟用')
-    return
+function sleepUnlessAborted(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve()
+      return
+    }
+
+    const finish = (): void => {
+      window.clearTimeout(timer)
+      signal.removeEventListener('abort', finish)
+      resolve()
+    }
+    const timer = window.setTimeout(finish, ms)
+    signal.addEventListener('abort', finish, { once: true })
+  })
+}
+
+function buildScriptParts(steps: PlaybackStep[], partFor: (field: PlaybackField) => SpeakPart | null): SpeakPart[] {
+  const parts: SpeakPart[] = []
+
+  for (const step of steps) {
+    if (step.kind === 'pause') {
+      if (step.ms > 0) parts.push({ text: '', lang: 'en-US', pauseMs: step.ms })
+      continue
+    }
+
+    const part = partFor(step.kind)
+    if (!part || !part.text.trim()) continue
+    for (let count = 0; count < step.repeat; count += 1) parts.push(part)
   }
-  if (signal.aborted) return
 
-  try {
-    const response = await apiFetch('/api/tts', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        text,
-        voice: speechSettings.openAiVoice,
-        speed: clampNumber(speed, 0.6, 1.3)
-      })
-    })
+  return parts
+}
 
-    if (!response.ok) {
-      const detail = await safeReadText(response)
-      toast(`OpenAI TTS 失敗：${detail}`)
+/**
+ * A server engine reads each run of consecutive parts as one request. OpenAI handles mixed languages in
+ * one request; the other engines pick their voice by language, so their runs also split where it changes.
+ * Template pauses split the runs, and parts for the browser are spoken one at a time.
+ */
+async function speakScript(parts: SpeakPart[], signal: AbortSignal, speed: number): Promise<void> {
+  let chunk: SpeakPart[] = []
+  let chunkKey = ''
+
+  const flush = async (): Promise<void> => {
+    const run = chunk
+    chunk = []
+    if (run.length === 0) return
+
+    const engine = engineFor(run[0].lang)
+    if (engine === 'browser') {
+      await speakWithBrowser(run, signal)
       return
     }
 
-    const objectUrl = URL.createObjectURL(await response.blob())
-    const played = await playAudioUrl(objectUrl, signal, clampNumber(volume, 0, 1))
-    URL.revokeObjectURL(objectUrl)
+    const script = run.map((part) => `${part.text}。`).join('')
+    const volume = run.reduce((sum, part) => sum + resolvePartVolume(part, engine), 0) / run.length
+    if (!(await speakServerText(script, engine, run[0].lang, signal, speed, volume))) await speakWithBrowser(run, signal)
+  }
 
-    if (!played && !signal.aborted) {
-      toast('OpenAI 音訊播放失敗，請再試一次')
+  for (const part of parts) {
+    if (signal.aborted) return
+    if (part.pauseMs) {
+      await flush()
+      await sleepUnlessAborted(part.pauseMs, signal)
+      continue
     }
-  } catch {
-    if (!signal.aborted) toast('OpenAI TTS 連線失敗')
+
+    const engine = engineFor(part.lang)
+    const key = engine === 'openai' ? engine : `${engine}:${toLangBucket(part.lang)}`
+    if (key !== chunkKey) {
+      await flush()
+      chunkKey = key
+    }
+    chunk.push(part)
   }
+  await flush()
 }
 
 export function speakEnglishWord(item: EnglishWord, signal: AbortSignal): Promise<void> {
-  const letters = extractSpelling(item.word).join(' ')
-  if (speechSettings.engine === 'openai') {
-    const spellOut = extractSpelling(item.word).join(', ')
-    const script = `${item.word}。${spellOut}。${item.meaningZh}。`
-    const volume = clampNumber((speechSettings.openAiVolumes.en + speechSettings.openAiVolumes.zh) / 2, 0, 1)
-    return speakSingleOpenAiText(script, signal, speechSettings.rates.en, volume)
-  }
+  // Server engines read a comma-separated spelling letter by letter; the browser needs plain spaces.
+  const separator = engineFor('en-US') === 'browser' ? ' ' : ', '
+  const en = { lang: 'en-US' as const, rate: speechSettings.rates.en, pitch: speechSettings.pitches.en }
+  const zh = { lang: 'zh-TW' as const, rate: speechSettings.rates.zh, pitch: speechSettings.pitches.zh }
+
+  const parts = buildScriptParts(speechSettings.templates.en, (field) => {
+    if (field === 'word') return { text: item.word, ...en }
+    if (field === 'spelling') return { text: extractSpelling(item.word).join(separator), ...en }
+    if (field === 'meaning') return { text: item.meaningZh, ...zh }
+    return null
+  })
 
-  return speakByParts([
-    { text: item.word, lang: 'en-US', rate: speechSettings.rates.en, pitch: speechSettings.pitches.en },
-    { text: letters, lang: 'en-US', rate: speechSettings.rates.en, pitch: speechSettings.pitches.en },
-    { text: item.meaningZh, lang: 'zh-TW', rate: speechSettings.rates.zh, pitch: speechSettings.pitches.zh }
-  ], signal)
+  return speakScript(parts, signal, speechSettings.rates.en)
 }
 
 export function speakJapaneseSentence(item: JapaneseSentence, signal: AbortSignal): Promise<void> {
-  if (speechSettings.engine === 'openai') {
-    const script = `${item.sentence}。${item.meaningZh}。`
-    const volume = clampNumber((speechSettings.openAiVolumes.ja + speechSettings.openAiVolumes.zh) / 2, 0, 1)
-    return speakSingleOpenAiText(script, signal, speechSettings.rates.ja, volume)
-  }
+  const ja = { lang: 'ja-JP' as const, rate: speechSettings.rates.ja, pitch: speechSettings.pitches.ja }
+  const zh = { lang: 'zh-TW' as const, rate: speechSettings.rates.zh, pitch: speechSettings.pitches.zh }
+
+  const parts = buildScriptParts(speechSettings.templates.ja, (field) => {
+    if (field === 'sentence') return { text: item.sentence, ...ja }
+    if (field === 'meaning') return { text: item.meaningZh, ...zh }
+    // Romaji is read by the Japanese voice as kana so it sounds like the sentence, not English letters.
+    if (field === 'romaji') return { text: toHiragana(item.romaji), ...ja }
+    if (field === 'vocabulary') {
+      return { text: item.vocabulary.map((vocab) => `${vocab.word}、${vocab.meaningZh}`).join('。'), ...zh }
+    }
+    return null
+  })
+
+  return speakScript(parts, signal, speechSettings.rates.ja)
+}
+
+// Quiz prompt: only the word itself, so the spelling and meaning are not given away.
+export function speakEnglishPrompt(item: EnglishWord, signal: AbortSignal): Promise<void> {
+  return speakScript([
+    { text: item.word, lang: 'en-US', rate: speechSettings.rates.en, pitch: speechSettings.pitches.en }
+  ], signal, speechSettings.rates.en)
+}
 
-  return speakByParts([
-    { text: item.sentence, lang: 'ja-JP', rate: speechSettings.rates.ja, pitch: speechSettings.pitches.ja },
-    { text: item.meaningZh, lang: 'zh-TW', rate: speechSettings.rates.zh, pitch: speechSettings.pitches.zh }
-  ], signal)
+// Dictation prompt: the sentence audio only, without the translation.
+export function speakJapanesePrompt(item: JapaneseSentence, signal: AbortSignal): Promise<void> {
+  return speakScript([
+    { text: item.sentence, lang: 'ja-JP', rate: speechSettings.rates.ja, pitch: speechSettings.pitches.ja }
+  ], signal, speechSettings.rates.ja)
 }
 
 export async function playSingleEnglish(item: EnglishWord): Promise<void> {
@@ -297,6 +403,14 @@ export async function playSingleEnglish(item: EnglishWord): Promise<void> {
   setTempPlaybackAbort(null)
 }
 
+export async function playEnglishPrompt(item: EnglishWord): Promise<void> {
+  if (tempPlaybackAbort) tempPlaybackAbort.abort()
+  const controller = new AbortController()
+  setTempPlaybackAbort(controller)
+  await speakEnglishPrompt(item, controller.signal)
+  setTempPlaybackAbort(null)
+}
+
 export async function playSingleJapanese(item: JapaneseSentence): Promise<void> {
   if (tempPlaybackAbort) tempPlaybackAbort.abort()
   const controller = new AbortController()
@@ -305,13 +419,21 @@ export async function playSingleJapanese(item: JapaneseSentence): Promise<void>
   setTempPlaybackAbort(null)
 }
 
+export async function playJapanesePrompt(item: JapaneseSentence): Promise<void> {
+  if (tempPlaybackAbort) tempPlaybackAbort.abort()
+  const controller = new AbortController()
+  setTempPlaybackAbort(controller)
+  await speakJapanesePrompt(item, controller.signal)
+  setTempPlaybackAbort(null)
+}
+
 export async function testSpeech(): Promise<void> {
   if (tempPlaybackAbort) tempPlaybackAbort.abort()
   const controller = new AbortController()
   setTempPlaybackAbort(controller)
 
   await speakByParts([
-    { text: `This is an English voice test using ${speechSettings.engine}.`, lang: 'en-US', rate: speechSettings.rates.en, pitch: speechSettings.pitches.en },
+    { text: `This is an English voice test using ${engineFor('en-US')}.`, lang: 'en-US', rate: speechSettings.rates.en, pitch: speechSettings.pitches.en },
     { text: '這是中文語音測試。', lang: 'zh-TW', rate: speechSettings.rates.zh, pitch: speechSettings.pitches.zh },
     { text: 'これは日本語の音声テストです。', lang: 'ja-JP', rate: speechSettings.rates.ja, pitch: speechSettings.pitches.ja }
   ], controller.signal)
@@ -345,13 +467,9 @@ export async function previewBrowserVoice(bucket: LangBucket, voiceUri: string):
   setTempPlaybackAbort(null)
 }
 
-export async function verifyOpenAiVoice(voice: string): Promise<{ ok: boolean; message: string }> {
+export async function verifyServerEngine(engine: ServerTtsEngine, lang: SpeakPart['lang'], voice: string): Promise<{ ok: boolean; message: string }> {
   try {
-    const response = await apiFetch('/api/tts', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text: 'Voice test', lang: 'en-US', voice, speed: 1 })
-    })
+    const response = await fetchServerSpeech({ text: 'Voice test', engine, lang, voice, speed: 1 })
     if (!response.ok) {
       const detail = await response.text()
       return { ok: false, message: detail }
@@ -1,49 +1,93 @@
 import type {
-  AuthUser, EnglishWord, JapaneseSentence, SpeechSettings,
-  ProviderStatus, AdminUserSummary, BackupFile, NewsHeadline,
-  NewsSource, ThemeMode, ReviewState
+  AuthUser, EnglishWord, JapaneseSentence, SpeechSettings, TtsEngine,
+  ProviderStatus, AdminUserSummary, BackupFile, BackupRetention, BackupUploadInfo, RestorePreview, TtsCacheStats, AuditEntry, AuditFilter, NewsHeadline, SessionSummary, PodcastFeedInfo, StudentProgress, DeckSummary, ReviewStats,
+  NewsSource, ThemeMode, ReviewState, DailyTally, PlayerOptions, QueueOrder, MixedReviewItem, ReviewGrade, ReviewEvent,
+  EnglishReviewMode, JapaneseReviewMode, QuizState, DictationState, UserDataPayload
 } from './types'
+import { clonePlaybackTemplates, defaultPlaybackTemplates } from './playback'
+import { DEFAULT_DAILY_LIMITS, emptyDailyTallies, sanitizeDailyLimits } from './dailyLimits'
 
 export const AUTH_TOKEN_KEY = 'langtool.auth.token.v3'
+export const REFRESH_TOKEN_KEY = 'langtool.auth.refresh.v1'
 
-export const REVIEW_INTERVAL_DAYS = [0, 1, 3, 7, 14, 30]
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: '重來',
+  hard: '困難',
+  good: '良好',
+  easy: '簡單'
+}
+
+export const TTS_ENGINES: TtsEngine[] = ['browser', 'openai', 'local', 'http']
+
+export const TTS_ENGINE_LABELS: Record<TtsEngine, string> = {
+  browser: '瀏覽器內建',
+  openai: 'OpenAI TTS',
+  local: '本機引擎（離線）',
+  http: 'HTTP TTS 服務'
+}
+
+export const MAX_REPEAT_EACH = 5
+export const SLEEP_TIMER_MINUTES = [0, 10, 15, 30, 45, 60]
+export const SESSION_SIZE_CHOICES = [0, 10, 20, 30, 50, 100]
+
+export const QUEUE_ORDER_LABELS: Record<QueueOrder, string> = {
+  list: '清單順序',
+  shuffle: '隨機',
+  hardest: '最難的先'
+}
 
 export const EN_STOPWORDS = new Set(['the', 'a', 'an', 'to', 'of', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'for', 'in', 'on', 'at', 'as', 'with', 'that', 'this', 'it', 'its', 'by', 'from', 'or', 'and', 'but', 'about', 'into', 'after', 'before', 'if', 'then', 'than', 'we', 'you', 'they', 'he', 'she', 'i', 'our', 'their', 'his', 'her', 'your', 'will', 'would', 'can', 'could', 'should', 'may', 'might', 'do', 'does', 'did', 'not'])
 
 export const defaultSpeechSettings: SpeechSettings = {
-  engine: 'browser',
+  engines: { en: 'browser', zh: 'browser', ja: 'browser' },
   openAiVoice: 'alloy',
   browserVoices: { en: '', zh: '', ja: '' },
   rates: { en: 1.05, zh: 1.0, ja: 1.0 },
   pitches: { en: 1, zh: 1, ja: 1 },
   browserVolumes: { en: 1, zh: 1, ja: 1 },
-  openAiVolumes: { en: 0.9, zh: 0.9, ja: 0.9 }
+  openAiVolumes: { en: 0.9, zh: 0.9, ja: 0.9 },
+  templates: defaultPlaybackTemplates,
+  dailyLimits: DEFAULT_DAILY_LIMITS
 }
 
 // Auth state
 export let token = localStorage.getItem(AUTH_TOKEN_KEY) ?? ''
+export let refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY) ?? ''
 export let authUser: AuthUser | null = null
-export let providerStatus: ProviderStatus = { tts: { browser: true, openai: false }, news: { rss: true, newsapi: false } }
+export let accountSessions: SessionSummary[] = []
+export let podcastFeed: PodcastFeedInfo | null = null
+// Shown once, right after the feed is created or its address replaced.
+export let podcastFeedUrl: string | null = null
+export let providerStatus: ProviderStatus = {
+  tts: { browser: true, openai: false, local: false, http: false },
+  news: { rss: true, newsapi: false }
+}
 
 // Learning data
 export let englishWords: EnglishWord[] = []
 export let japaneseSentences: JapaneseSentence[] = []
 export let speechSettings: SpeechSettings = {
   ...defaultSpeechSettings,
+  engines: { ...defaultSpeechSettings.engines },
   browserVoices: { ...defaultSpeechSettings.browserVoices },
   rates: { ...defaultSpeechSettings.rates },
   pitches: { ...defaultSpeechSettings.pitches },
   browserVolumes: { ...defaultSpeechSettings.browserVolumes },
-  openAiVolumes: { ...defaultSpeechSettings.openAiVolumes }
+  openAiVolumes: { ...defaultSpeechSettings.openAiVolumes },
+  templates: clonePlaybackTemplates(defaultSpeechSettings.templates),
+  dailyLimits: sanitizeDailyLimits(defaultSpeechSettings.dailyLimits)
 }
 export let themeMode: ThemeMode = 'light'
 
 // UI state
-export let activeTab: 'english' | 'japanese' | 'content' | 'speech' | 'admin' = 'english'
+export let activeTab: 'english' | 'japanese' | 'content' | 'decks' | 'speech' | 'account' | 'students' | 'admin' | 'stats' = 'english'
 export let englishGroup = 'due'
 export let japaneseGroup = 'due'
 export let englishSearch = ''
+export let englishReviewMode: EnglishReviewMode = 'listen'
 export let japaneseSearch = ''
+export let japaneseReviewMode: JapaneseReviewMode = 'listen'
+export let playerOptions: PlayerOptions = { order: 'list', maxItems: 0, mixed: false, loop: false, repeatEach: 1, sleepMinutes: 0 }
 
 // Content workshop state
 export let enCandidates: string[] = []
@@ -59,28 +103,55 @@ export let jaCandidateLimit = 60
 export let enCandidateTags = 'news'
 export let jaCandidateTags = 'news'
 
+// Shared decks
+export let decks: DeckSummary[] = []
+
+// Progress dashboard
+export let reviewStats: ReviewStats | null = null
+
 // Admin state
 export let adminUsers: AdminUserSummary[] = []
+export let students: StudentProgress[] = []
 export let backupFiles: BackupFile[] = []
+export let backupRetention: BackupRetention = { daily: 7, weekly: 4, manual: 10 }
+export let backupUpload: BackupUploadInfo = { target: null, gzip: false, encrypted: false, last: null }
+export let restorePreview: RestorePreview | null = null
+export let ttsCacheStats: TtsCacheStats | null = null
+export let auditEntries: AuditEntry[] = []
+export let auditTotal = 0
+export let auditFilter: AuditFilter = { actor: '', action: '', target: '', since: '', until: '' }
 
 // Audio state
 export let voices: SpeechSynthesisVoice[] = []
 export let activeAudio: HTMLAudioElement | null = null
 export let tempPlaybackAbort: AbortController | null = null
-export let englishAbort: AbortController | null = null
-export let japaneseAbort: AbortController | null = null
 export let persistTimer: number | null = null
 export let persistInFlight = false
 export let pendingPersist = false
 export let lastOpenAiFailNoticeAt = 0
+export let offlineMode = false
+export let pendingReviewEvents: ReviewEvent[] = []
+export let reviewFlushInFlight = false
+// Last copy of the user data acknowledged by the server; local edits are diffed against it.
+export let syncBase: UserDataPayload | null = null
 
 // Review state
-export const englishReview: ReviewState<EnglishWord> = { queue: [], index: 0, running: false, paused: false, runId: 0 }
-export const japaneseReview: ReviewState<JapaneseSentence> = { queue: [], index: 0, running: false, paused: false, runId: 0 }
+// What has been used of today's budgets; `dailyTalliesDate` is the start of the day they count.
+export let dailyTallies: Record<'english' | 'japanese', DailyTally> = emptyDailyTallies()
+export let dailyTalliesDate = ''
+export const englishReview: ReviewState<EnglishWord> = { queue: [], group: '', index: 0, running: false, paused: false, runId: 0, stopAt: null }
+export const japaneseReview: ReviewState<JapaneseSentence> = { queue: [], group: '', index: 0, running: false, paused: false, runId: 0, stopAt: null }
+export const mixedReview: ReviewState<MixedReviewItem> = { queue: [], group: '', index: 0, running: false, paused: false, runId: 0, stopAt: null }
+export const englishQuiz: QuizState = { awaiting: false, choices: [], answer: '', grade: null }
+export const japaneseQuiz: DictationState = { awaiting: false, choices: [], answer: '', grade: null, diff: [] }
 
 // Setters
 export function setToken(value: string): void { token = value }
+export function setRefreshToken(value: string): void { refreshToken = value }
 export function setAuthUser(value: AuthUser | null): void { authUser = value }
+export function setAccountSessions(value: SessionSummary[]): void { accountSessions = value }
+export function setPodcastFeed(value: PodcastFeedInfo | null): void { podcastFeed = value }
+export function setPodcastFeedUrl(value: string | null): void { podcastFeedUrl = value }
 export function setProviderStatus(value: ProviderStatus): void { providerStatus = value }
 export function setEnglishWords(value: EnglishWord[]): void { englishWords = value }
 export function setJapaneseSentences(value: JapaneseSentence[]): void { japaneseSentences = value }
@@ -90,7 +161,10 @@ export function setActiveTab(value: typeof activeTab): void { activeTab = value
 export function setEnglishGroup(value: string): void { englishGroup = value }
 export function setJapaneseGroup(value: string): void { japaneseGroup = value }
 export function setEnglishSearch(value: string): void { englishSearch = value }
+export function setEnglishReviewMode(value: EnglishReviewMode): void { englishReviewMode = value }
 export function setJapaneseSearch(value: string): void { japaneseSearch = value }
+export function setJapaneseReviewMode(value: JapaneseReviewMode): void { japaneseReviewMode = value }
+export function setPlayerOptions(value: PlayerOptions): void { playerOptions = value }
 export function setEnCandidates(value: string[]): void { enCandidates = value }
 export function setJaCandidates(value: string[]): void { jaCandidates = value }
 export function setEnHeadlines(value: NewsHeadline[]): void { enHeadlines = value }
@@ -104,21 +178,47 @@ export function setJaCandidateLimit(value: number): void { jaCandidateLimit = va
 export function setEnCandidateTags(value: string): void { enCandidateTags = value }
 export function setJaCandidateTags(value: string): void { jaCandidateTags = value }
 export function setAdminUsers(value: AdminUserSummary[]): void { adminUsers = value }
+export function setStudents(value: StudentProgress[]): void { students = value }
+export function setDecks(value: DeckSummary[]): void { decks = value }
+export function setReviewStats(value: ReviewStats | null): void { reviewStats = value }
 export function setBackupFiles(value: BackupFile[]): void { backupFiles = value }
+export function setBackupRetention(value: BackupRetention): void { backupRetention = value }
+export function setBackupUpload(value: BackupUploadInfo): void { backupUpload = value }
+export function setTtsCacheStats(value: TtsCacheStats | null): void { ttsCacheStats = value }
+export function setRestorePreview(value: RestorePreview | null): void { restorePreview = value }
+export function setAuditEntries(entries: AuditEntry[], total: number): void {
+  auditEntries = entries
+  auditTotal = total
+}
+export function setAuditFilter(value: AuditFilter): void { auditFilter = value }
 export function setVoices(value: SpeechSynthesisVoice[]): void { voices = value }
 export function setActiveAudio(value: HTMLAudioElement | null): void { activeAudio = value }
 export function setTempPlaybackAbort(value: AbortController | null): void { tempPlaybackAbort = value }
-export function setEnglishAbort(value: AbortController | null): void { englishAbort = value }
-export function setJapaneseAbort(value: AbortController | null): void { japaneseAbort = value }
 export function setPersistTimer(value: number | null): void { persistTimer = value }
 export function setPersistInFlight(value: boolean): void { persistInFlight = value }
 export function setPendingPersist(value: boolean): void { pendingPersist = value }
 export function setLastOpenAiFailNoticeAt(value: number): void { lastOpenAiFailNoticeAt = value }
+export function setOfflineMode(value: boolean): void { offlineMode = value }
+export function setDailyTallies(value: Record<'english' | 'japanese', DailyTally>, date: string): void { dailyTallies = value; dailyTalliesDate = date }
+export function setPendingReviewEvents(value: ReviewEvent[]): void { pendingReviewEvents = value }
+export function setReviewFlushInFlight(value: boolean): void { reviewFlushInFlight = value }
+export function setSyncBase(value: UserDataPayload | null): void { syncBase = value }
 
 export function clearAuth(): void {
   token = ''
+  refreshToken = ''
   authUser = null
+  accountSessions = []
+  podcastFeed = null
+  podcastFeedUrl = null
+  decks = []
+  reviewStats = null
+  restorePreview = null
+  syncBase = null
+  dailyTallies = emptyDailyTallies()
+  dailyTalliesDate = ''
   localStorage.removeItem(AUTH_TOKEN_KEY)
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
 }
 
 export function applyTheme(): void {
@@ -0,0 +1,121 @@
+import type { SyncMeta } from './types'
+
+// Revision-based sync shared by the client and the API server.
+// Writes carry the revision each item was based on; the server rejects stale ones with 409 and the
+// client merges field by field against the last synced copy before retrying.
+
+export const EPOCH_ISO = new Date(0).toISOString()
+
+const META_FIELDS = ['revision', 'updatedAt']
+
+// Scheduler fields only make sense together, so they are merged as one unit.
+const SRS_FIELDS = ['level', 'ease', 'stability', 'dueAt', 'lapses', 'lastReviewedAt']
+
+type SyncItem = SyncMeta & { id: string }
+
+export function createSyncMeta(now = new Date()): SyncMeta {
+  return { revision: 0, updatedAt: now.toISOString() }
+}
+
+export function normalizeSyncMeta(source: Record<string, unknown>): SyncMeta {
+  const updatedAt = typeof source.updatedAt === 'string' ? Date.parse(source.updatedAt) : Number.NaN
+  return {
+    revision: Math.max(0, Math.floor(Number(source.revision ?? 0)) || 0),
+    updatedAt: Number.isNaN(updatedAt) ? EPOCH_ISO : new Date(updatedAt).toISOString()
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function timestampOf(value: unknown): number {
+  const timestamp = typeof value === 'string' ? Date.parse(value) : Number.NaN
+  return Number.isNaN(timestamp) ? 0 : timestamp
+}
+
+/** True when two versions of an item differ in anything other than their sync metadata. */
+export function hasContentChanges<T extends SyncMeta>(a: T, b: T): boolean {
+  const left = a as unknown as Record<string, unknown>
+  const right = b as unknown as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return [...keys].some((key) => !META_FIELDS.includes(key) && !sameValue(left[key], right[key]))
+}
+
+/**
+ * Three-way merge over groups of fields. A group changed on one side only is taken from that side;
+ * when both sides changed it, `localWins` decides.
+ */
+export function mergeFields<T extends object>(
+  base: T | null,
+  local: T,
+  remote: T,
+  units: string[][],
+  localWins: (unit: string[]) => boolean
+): T {
+  const b = base as Record<string, unknown> | null
+  const l = local as Record<string, unknown>
+  const r = remote as Record<string, unknown>
+  const merged: Record<string, unknown> = { ...r }
+
+  for (const unit of units) {
+    const differs = (x: Record<string, unknown>, y: Record<string, unknown>) => unit.some((key) => !sameValue(x[key], y[key]))
+    if (!differs(l, r)) continue
+
+    const localChanged = !b || differs(l, b)
+    const remoteChanged = !b || differs(r, b)
+    const useLocal = localChanged && (!remoteChanged || localWins(unit))
+    if (useLocal) {
+      for (const key of unit) merged[key] = l[key]
+    }
+  }
+
+  return merged as T
+}
+
+/**
+ * Merges one item edited on both sides. Conflicting scheduler fields follow the later review, any
+ * other conflicting field follows the later edit; the result carries the remote revision.
+ */
+export function mergeItem<T extends SyncItem>(base: T | null, local: T, remote: T): T {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+  const units = [SRS_FIELDS, ...[...keys].filter((key) => !META_FIELDS.includes(key) && !SRS_FIELDS.includes(key)).map((key) => [key])]
+  const localRecord = local as unknown as Record<string, unknown>
+  const remoteRecord = remote as unknown as Record<string, unknown>
+
+  const merged = mergeFields(base, local, remote, units, (unit) => unit === SRS_FIELDS
+    ? timestampOf(localRecord.lastReviewedAt) > timestampOf(remoteRecord.lastReviewedAt)
+    : timestampOf(local.updatedAt) > timestampOf(remote.updatedAt)
+  )
+
+  return {
+    ...merged,
+    revision: remote.revision,
+    updatedAt: timestampOf(local.updatedAt) > timestampOf(remote.updatedAt) ? local.updatedAt : remote.updatedAt
+  }
+}
+
+/**
+ * Resolves one item id given the last synced, local and server versions (any may be missing).
+ * Deletions win over concurrent edits; items created on only one side are kept.
+ */
+export function mergeEntry<T extends SyncItem>(base: T | undefined, local: T | undefined, remote: T | undefined): T | undefined {
+  if (local && remote) return mergeItem(base ?? null, local, remote)
+  if (local) return base ? undefined : local
+  if (remote) return base ? undefined : remote
+  return undefined
+}
+
+/** Rebases a whole local collection onto the server copy. Items only created locally stay on top. */
+export function mergeCollections<T extends SyncItem>(base: T[], local: T[], remote: T[]): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]))
+  const localById = new Map(local.map((item) => [item.id, item]))
+  const remoteIds = new Set(remote.map((item) => item.id))
+
+  const created = local.filter((item) => !remoteIds.has(item.id) && !baseById.has(item.id))
+  const merged = remote
+    .map((item) => mergeEntry(baseById.get(item.id), localById.get(item.id), item))
+    .filter((item): item is T => item !== undefined)
+
+  return [...created, ...merged]
+}
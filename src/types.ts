@@ -1,7 +1,27 @@
-export type UserRole = 'admin' | 'user'
+export type UserRole = 'admin' | 'teacher' | 'user'
 export type ThemeMode = 'light' | 'dark'
 export type NewsSource = 'rss' | 'newsapi'
 export type LangBucket = 'en' | 'zh' | 'ja'
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+// 'playback' events record exposure only: they never reschedule the item and their grade is not used.
+export type ReviewMode = 'manual' | 'playback' | 'quiz' | 'dictation'
+export type EnglishReviewMode = 'listen' | 'spell' | 'recall' | 'choice'
+export type JapaneseReviewMode = 'listen' | 'dictation'
+
+export type SrsState = {
+  level: number
+  ease: number
+  stability: number
+  dueAt: string | null
+  lapses: number
+  lastReviewedAt: string | null
+}
+
+// `revision` is the server revision the item was last synced at; `updatedAt` is the time of its last edit.
+export type SyncMeta = {
+  revision: number
+  updatedAt: string
+}
 
 export type EnglishWord = {
   id: string
@@ -9,9 +29,7 @@ export type EnglishWord = {
   meaningZh: string
   tags: string[]
   needsWork: boolean
-  level: number
-  lastReviewedAt: string | null
-}
+} & SrsState & SyncMeta
 
 export type JapaneseVocab = {
   word: string
@@ -25,18 +43,42 @@ export type JapaneseSentence = {
   meaningZh: string
   tags: string[]
   vocabulary: JapaneseVocab[]
-  level: number
-  lastReviewedAt: string | null
+} & SrsState & SyncMeta
+
+export type PlaybackField = 'word' | 'spelling' | 'meaning' | 'sentence' | 'romaji' | 'vocabulary'
+
+export type PlaybackStep =
+  | { kind: PlaybackField; repeat: number }
+  | { kind: 'pause'; ms: number }
+
+export type PlaybackTemplates = {
+  en: PlaybackStep[]
+  ja: PlaybackStep[]
 }
 
+// 'browser' speaks on the device; the others are synthesized by the server (`/api/tts`).
+export type TtsEngine = 'browser' | 'openai' | 'local' | 'http'
+export type ServerTtsEngine = Exclude<TtsEngine, 'browser'>
+
+// A day's budget for one content type, or what has been used of it.
+export type DailyTally = {
+  newItems: number
+  reviews: number
+}
+
+export type DailyLimits = Record<'english' | 'japanese', DailyTally>
+
 export type SpeechSettings = {
-  engine: 'browser' | 'openai'
+  engines: Record<LangBucket, TtsEngine>
   openAiVoice: string
   browserVoices: Record<LangBucket, string>
   rates: Record<LangBucket, number>
   pitches: Record<LangBucket, number>
   browserVolumes: Record<LangBucket, number>
+  // Applies to every server engine; the name predates the local and HTTP ones.
   openAiVolumes: Record<LangBucket, number>
+  templates: PlaybackTemplates
+  dailyLimits: DailyLimits
 }
 
 export type UserDataPayload = {
@@ -44,20 +86,42 @@ export type UserDataPayload = {
   japaneseSentences: JapaneseSentence[]
   speechSettings: SpeechSettings
   theme: ThemeMode
+  settingsRevision: number
   updatedAt: string
 }
 
+export type SyncConflicts = {
+  englishWords: Array<{ id: string; server: EnglishWord | null }>
+  japaneseSentences: Array<{ id: string; server: JapaneseSentence | null }>
+  settings: { revision: number; speechSettings: SpeechSettings; theme: ThemeMode } | null
+}
+
+export type ReviewEvent = {
+  id: string
+  itemId: string
+  itemType: 'english' | 'japanese'
+  reviewedAt: string
+  grade: ReviewGrade
+  mode: ReviewMode
+  durationMs: number
+  engine: TtsEngine
+}
+
+export type ReviewContext = {
+  mode: ReviewMode
+  durationMs?: number
+}
+
 export type AuthUser = {
   account: string
   role: UserRole
   name: string
+  // Set for accounts still on an initial password; the API refuses everything but a password change.
+  mustChangePassword?: boolean
 }
 
 export type ProviderStatus = {
-  tts: {
-    browser: boolean
-    openai: boolean
-  }
+  tts: Record<TtsEngine, boolean>
   news: {
     rss: boolean
     newsapi: boolean
@@ -71,14 +135,174 @@ export type AdminUserSummary = {
   name: string
   createdAt: string
   updatedAt: string
+  // Teacher account the user is assigned to as a student.
+  teacher: string | null
+  englishCount: number
+  japaneseCount: number
+}
+
+export type StudentProgress = {
+  account: string
+  name: string
+  teacher: string | null
+  englishCount: number
+  japaneseCount: number
+  dueCount: number
+  learnedCount: number
+  reviewsLast7Days: number
+  // Share of the last 7 days' reviews not graded "again"; null without reviews.
+  accuracyLast7Days: number | null
+  lastReviewedAt: string | null
+}
+
+// From `GET /api/user/stats`; dates are the learner's calendar days (YYYY-MM-DD).
+export type ReviewStats = {
+  heatmap: Array<{ date: string; reviews: number }>
+  streak: { current: number; longest: number }
+  totalReviews: number
+  // `fresh` counts never-reviewed items; `levels[n]` reviewed items at level n.
+  levels: Record<'english' | 'japanese', { fresh: number; levels: number[] }>
+  forecast: Array<{ date: string; english: number; japanese: number }>
+  // Recall reviews of the last 90 days, without first reviews and passive playback; tag '' is untagged.
+  retention: { reviews: number; retained: number; tags: Array<{ tag: string; reviews: number; retained: number }> }
+}
+
+export type DeckSummary = {
+  id: string
+  name: string
+  description: string
+  owner: string
+  ownerName: string
+  tags: string[]
+  itemTypes: Array<ReviewEvent['itemType']>
+  published: boolean
+  version: number
+  entryCount: number
+  subscriberCount: number
+  mine: boolean
+  subscribed: boolean
+  updatedAt: string
+}
+
+export type SessionSummary = {
+  id: string
+  userAgent: string
+  ip: string
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  current: boolean
+}
+
+export type PodcastFeedEpisode = {
+  date: string
+  publishedAt: string
+  bytes: number
+  durationMs: number
   englishCount: number
   japaneseCount: number
+  titles: string[]
+}
+
+// The feed URL itself is only returned when it is created; the server keeps just a digest of its token.
+export type PodcastFeedInfo = {
+  enabled: boolean
+  createdAt: string | null
+  /** Minutes east of UTC the server dates episodes by; null while the feed is off. */
+  utcOffsetMinutes: number | null
+  episodes: PodcastFeedEpisode[]
+}
+
+// Server-side cache of OpenAI TTS audio; hits and misses are counted since the server started.
+export type TtsCacheStats = {
+  enabled: boolean
+  entries: number
+  bytes: number
+  maxBytes: number
+  hits: number
+  misses: number
+  since: string
 }
 
 export type BackupFile = {
   fileName: string
   size: number
   mtime: string
+  // null for files in the backup folder this server did not write
+  kind: 'daily' | 'manual' | null
+}
+
+export type BackupRetention = {
+  daily: number
+  weekly: number
+  manual: number
+}
+
+// Off-disk copy of the backups (`BACKUP_TARGET`); `target` is null when none is configured.
+export type BackupUploadInfo = {
+  target: { kind: 'local' | 's3' | 'webdav'; location: string } | null
+  gzip: boolean
+  encrypted: boolean
+  last: {
+    fileName: string
+    storedAs: string
+    target: string
+    at: string
+    ok: boolean
+    error: string | null
+    bytes: number
+    durationMs: number
+  } | null
+}
+
+type RestoreItemDiff = { added: number; removed: number; changed: number; unchanged: number }
+
+// Dry-run result of a restore: per account, what the backup would add, remove or change.
+export type RestorePreview = {
+  fileName: string
+  account: string | null
+  users: Array<{
+    account: string
+    status: 'added' | 'removed' | 'changed' | 'unchanged'
+    englishWords: RestoreItemDiff
+    japaneseSentences: RestoreItemDiff
+    settings: boolean
+    reviews: { current: number; backup: number }
+  }>
+  decks: { current: number; backup: number }
+}
+
+export type AuditAction =
+  | 'user.create'
+  | 'user.delete'
+  | 'user.password_reset'
+  | 'user.status'
+  | 'user.teacher'
+  | 'data.import'
+  | 'students.push'
+  | 'backup.create'
+  | 'backup.restore'
+  | 'backup.retention'
+  | 'tts.cache_clear'
+
+export type AuditEntry = {
+  id: string
+  at: string
+  actor: string
+  action: AuditAction
+  target: string
+  ip: string
+  summary: string
+  details: Record<string, string | number | boolean | null>
+}
+
+// Query for `/api/admin/audit`; empty strings mean "any". Dates are `YYYY-MM-DD` in local time.
+export type AuditFilter = {
+  actor: string
+  action: AuditAction | ''
+  target: string
+  since: string
+  until: string
 }
 
 export type NewsHeadline = {
@@ -92,6 +316,7 @@ export type NewsHeadline = {
 
 export type SpeakPart = {
   text: string
+  pauseMs?: number
   lang: 'en-US' | 'zh-TW' | 'ja-JP'
   rate?: number
   pitch?: number
@@ -101,8 +326,51 @@ export type SpeakPart = {
 
 export type ReviewState<T> = {
   queue: T[]
+  // The group the queue came from ('due', 'tag:…'), shown on the lock screen.
+  group: string
   index: number
   running: boolean
   paused: boolean
   runId: number
+  // Sleep timer: the player stops before the first item after this time.
+  stopAt: number | null
+}
+
+// 'hardest' puts items flagged as needing work first, then those with the most lapses.
+export type QueueOrder = 'list' | 'shuffle' | 'hardest'
+
+// One entry of a mixed run, which alternates English words and Japanese sentences.
+export type MixedReviewItem =
+  | { kind: 'english'; item: EnglishWord }
+  | { kind: 'japanese'; item: JapaneseSentence }
+
+// Shared by every player; kept for the current page only.
+export type PlayerOptions = {
+  order: QueueOrder
+  // Session size cap; 0 plays the whole group.
+  maxItems: number
+  // Start button plays English and Japanese alternately, from the same group in both languages.
+  mixed: boolean
+  // Start over when the queue ends, until stopped or the sleep timer fires.
+  loop: boolean
+  // How many times each item is read in listening modes.
+  repeatEach: number
+  // 0 turns the sleep timer off.
+  sleepMinutes: number
+}
+
+export type QuizState = {
+  awaiting: boolean
+  choices: string[]
+  answer: string
+  grade: ReviewGrade | null
+}
+
+export type DiffSegment = {
+  type: 'same' | 'missing' | 'extra'
+  text: string
+}
+
+export type DictationState = QuizState & {
+  diff: DiffSegment[]
 }
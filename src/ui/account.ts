@@ -0,0 +1,194 @@
+import { authUser, accountSessions, offlineMode, podcastFeed, podcastFeedUrl } from '../state'
+import {
+  changePassword, createPodcastFeed, deletePodcastFeed, loadPodcastFeed, loadSessions, revokeOtherSessions, revokeSession
+} from '../auth'
+import { PASSWORD_POLICY_HINT } from '../passwordPolicy'
+import { triggerRender } from '../renderBus'
+import { byId, escapeHtml, escapeHtmlAttr, formatTime, toast } from '../utils'
+
+export function renderAccountTab(): void {
+  const panel = byId<HTMLDivElement>('tab-account')
+  if (!authUser) return
+
+  const otherCount = accountSessions.filter((session) => !session.current).length
+
+  panel.innerHTML = `
+    <div class="page-header">
+      <div class="page-header-left">
+        <h2 class="page-title">帳號</h2>
+        <p class="page-desc">${escapeHtml(authUser.account)} · 修改密碼、管理已登入的裝置與 Podcast 訂閱</p>
+      </div>
+    </div>
+
+    <div class="content-grid">
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">修改密碼</h3>
+        </div>
+        <form id="accountPasswordForm" class="form-stack">
+          <div class="field-group">
+            <label class="field-label" for="accountCurrentPassword">目前密碼</label>
+            <input id="accountCurrentPassword" class="field-input" type="password" autocomplete="current-password" required />
+          </div>
+          <div class="field-group">
+            <label class="field-label" for="accountNewPassword">新密碼</label>
+            <input id="accountNewPassword" class="field-input" type="password" autocomplete="new-password" required placeholder="${PASSWORD_POLICY_HINT}" />
+          </div>
+          <div class="field-group">
+            <label class="field-label" for="accountConfirmPassword">確認新密碼</label>
+            <input id="accountConfirmPassword" class="field-input" type="password" autocomplete="new-password" required />
+          </div>
+          <button type="submit" class="btn btn-primary" ${offlineMode ? 'disabled' : ''}>更新密碼</button>
+        </form>
+        <p class="muted-text" style="margin-top:.75rem">更新密碼後，其他裝置都需要重新登入</p>
+      </article>
+
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">已登入的裝置</h3>
+          <span class="muted-text">${accountSessions.length} 個裝置</span>
+        </div>
+        <div class="list-container" style="margin-top:.75rem">
+          ${accountSessions.length > 0
+            ? accountSessions.map((session) => `
+              <article class="list-item">
+                <div class="list-item-body">
+                  <div class="list-item-main">
+                    <p class="item-word">${escapeHtml(describeUserAgent(session.userAgent))} ${session.current ? '<span class="badge">目前裝置</span>' : ''}</p>
+                    <p class="item-meaning">${escapeHtml(session.ip || '未知 IP')}</p>
+                  </div>
+                  <p class="muted-text" style="font-size:0.8rem">最後使用 ${escapeHtml(formatTime(session.lastSeenAt))} · 登入 ${escapeHtml(formatTime(session.createdAt))}</p>
+                </div>
+                <div class="list-item-actions">
+                  <button
+                    class="btn btn-danger btn-sm"
+                    data-account-action="revoke-session"
+                    data-session-id="${escapeHtmlAttr(session.id)}"
+                    ${session.current || offlineMode ? 'disabled' : ''}
+                  >登出</button>
+                </div>
+              </article>
+            `).join('')
+            : '<p class="muted-text">尚未載入裝置清單</p>'
+          }
+        </div>
+        <div class="btn-row" style="margin-top:.75rem">
+          <button id="refreshSessionsBtn" class="btn btn-secondary" ${offlineMode ? 'disabled' : ''}>重新整理</button>
+          <button id="revokeOtherSessionsBtn" class="btn btn-danger" ${otherCount === 0 || offlineMode ? 'disabled' : ''}>登出其他裝置</button>
+        </div>
+      </article>
+
+      ${renderPodcastFeedCard()}
+    </div>
+  `
+
+  byId<HTMLFormElement>('accountPasswordForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    const currentPassword = byId<HTMLInputElement>('accountCurrentPassword').value.trim()
+    const newPassword = byId<HTMLInputElement>('accountNewPassword').value.trim()
+    if (newPassword !== byId<HTMLInputElement>('accountConfirmPassword').value.trim()) {
+      toast('兩次輸入的新密碼不一致')
+      return
+    }
+    void changePassword(currentPassword, newPassword)
+  })
+
+  byId<HTMLButtonElement>('refreshSessionsBtn').addEventListener('click', () => {
+    void loadSessions().then(triggerRender)
+  })
+
+  byId<HTMLButtonElement>('revokeOtherSessionsBtn').addEventListener('click', () => {
+    if (!window.confirm(`確定要登出其他 ${otherCount} 個裝置？`)) return
+    void revokeOtherSessions()
+  })
+
+  document.getElementById('createPodcastFeedBtn')?.addEventListener('click', () => {
+    if (podcastFeed?.enabled && !window.confirm('換新網址後，舊的訂閱網址會失效，需要在 Podcast App 重新訂閱。確定？')) return
+    void createPodcastFeed()
+  })
+  document.getElementById('deletePodcastFeedBtn')?.addEventListener('click', () => {
+    if (!window.confirm('確定要停用 Podcast 訂閱？已產生的集數會一併刪除。')) return
+    void deletePodcastFeed()
+  })
+  document.getElementById('refreshPodcastFeedBtn')?.addEventListener('click', () => {
+    void loadPodcastFeed().then(triggerRender)
+  })
+  document.getElementById('podcastFeedUrlInput')?.addEventListener('focus', (event) => {
+    (event.currentTarget as HTMLInputElement).select()
+  })
+
+  panel.querySelectorAll<HTMLButtonElement>('[data-account-action="revoke-session"]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const id = button.dataset.sessionId
+      if (!id) return
+      void revokeSession(id)
+    })
+  })
+}
+
+function renderPodcastFeedCard(): string {
+  const enabled = podcastFeed?.enabled ?? false
+  const episodes = podcastFeed?.episodes ?? []
+
+  return `
+    <article class="card">
+      <div class="card-header">
+        <h3 class="card-title">Podcast 訂閱</h3>
+        <span class="muted-text">${enabled ? `${episodes.length} 集` : '未啟用'}</span>
+      </div>
+      <p class="muted-text" style="margin-top:.5rem">每天把待複習的英文單字與日文句子產生成一集音檔，用手機的 Podcast App 訂閱後會自動下載，不必開著網頁播放器。</p>
+      ${podcastFeedUrl
+        ? `
+          <div class="field-group" style="margin-top:.75rem">
+            <label class="field-label" for="podcastFeedUrlInput">訂閱網址（只顯示這一次，請複製到 Podcast App）</label>
+            <input id="podcastFeedUrlInput" class="field-input" type="text" readonly value="${escapeHtmlAttr(podcastFeedUrl)}" />
+          </div>
+        `
+        : enabled
+          ? `<p class="muted-text" style="margin-top:.75rem">已於 ${escapeHtml(formatTime(podcastFeed?.createdAt ?? ''))} 啟用；忘記網址時請換新網址。</p>`
+          : ''
+      }
+      ${episodes.length > 0
+        ? `<div class="list-container" style="margin-top:.75rem">
+            ${episodes.map((episode) => `
+              <article class="list-item">
+                <div class="list-item-body">
+                  <div class="list-item-main">
+                    <p class="item-word">${escapeHtml(episode.date)}</p>
+                    <p class="item-meaning">${episode.englishCount} 個英文單字 · ${episode.japaneseCount} 句日文 · ${Math.round(episode.durationMs / 60000)} 分鐘</p>
+                  </div>
+                </div>
+              </article>
+            `).join('')}
+          </div>`
+        : ''
+      }
+      <div class="btn-row" style="margin-top:.75rem">
+        <button id="createPodcastFeedBtn" class="btn btn-primary" ${offlineMode ? 'disabled' : ''}>${enabled ? '換新網址' : '啟用訂閱'}</button>
+        ${enabled ? `<button id="refreshPodcastFeedBtn" class="btn btn-secondary" ${offlineMode ? 'disabled' : ''}>重新整理</button>` : ''}
+        ${enabled ? `<button id="deletePodcastFeedBtn" class="btn btn-danger" ${offlineMode ? 'disabled' : ''}>停用</button>` : ''}
+      </div>
+    </article>
+  `
+}
+
+// Good enough to tell devices apart in the list; the raw string is not shown.
+function describeUserAgent(userAgent: string): string {
+  if (!userAgent) return '未知裝置'
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : /curl\//.test(userAgent) ? 'curl'
+    : '瀏覽器'
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : ''
+
+  return os ? `${browser} · ${os}` : browser
+}
@@ -1,19 +1,49 @@
-import { authUser, providerStatus, adminUsers, backupFiles } from '../state'
+import type { AuditAction, AuditEntry, BackupUploadInfo, RestorePreview, TtsCacheStats } from '../types'
 import {
-  adminCreateUser, adminDeleteUser, adminChangeUserPassword, adminSetUserStatus,
-  triggerManualBackup, refreshProviderByAdmin
+  authUser, providerStatus, adminUsers, backupFiles, backupRetention, backupUpload, restorePreview, ttsCacheStats, auditEntries, auditTotal, auditFilter,
+  setAuditFilter, setRestorePreview
+} from '../state'
+import {
+  adminCreateUser, adminDeleteUser, adminChangeUserPassword, adminSetUserStatus, adminAssignTeacher,
+  triggerManualBackup, refreshProviderByAdmin, loadAuditLog, downloadBackup, previewRestore, applyRestore, saveBackupRetention,
+  retryBackupUpload, loadTtsCacheStats, clearTtsCache
 } from '../auth'
+import { triggerRender } from '../renderBus'
 import { byId, escapeHtml, escapeHtmlAttr, formatTime } from '../utils'
+import { PASSWORD_POLICY_HINT } from '../passwordPolicy'
+import { hasPermission, ROLE_LABELS } from '../permissions'
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.create': '新增使用者',
+  'user.delete': '刪除使用者',
+  'user.password_reset': '重設密碼',
+  'user.status': '啟用/停用',
+  'user.teacher': '指派老師',
+  'data.import': '匯入資料',
+  'students.push': '推送清單',
+  'backup.create': '建立備份',
+  'backup.restore': '從備份還原',
+  'backup.retention': '備份保留設定',
+  'tts.cache_clear': '清除語音快取'
+}
+
+const RESTORE_STATUS_LABELS: Record<RestorePreview['users'][number]['status'], string> = {
+  added: '將加回',
+  removed: '將移除',
+  changed: '有變動',
+  unchanged: '無變動'
+}
 
 export function renderAdminTab(): void {
   const panel = byId<HTMLDivElement>('tab-admin')
 
-  if (!authUser || authUser.role !== 'admin') {
+  if (!authUser || !hasPermission(authUser.role, 'users:manage')) {
     panel.innerHTML = '<div class="empty-state"><p>需要管理員權限</p></div>'
     return
   }
 
   const currentAccount = authUser.account
+  const teachers = adminUsers.filter((user) => user.role === 'teacher')
 
   panel.innerHTML = `
     <div class="page-header">
@@ -32,6 +62,8 @@ export function renderAdminTab(): void {
           <div class="status-row">
             <span class="status-label">TTS</span>
             <span class="status-badge ${providerStatus.tts.openai ? 'status-ok' : 'status-off'}">OpenAI ${providerStatus.tts.openai ? '可用' : '未設定'}</span>
+            <span class="status-badge ${providerStatus.tts.local ? 'status-ok' : 'status-off'}">本機 ${providerStatus.tts.local ? '可用' : '未設定'}</span>
+            <span class="status-badge ${providerStatus.tts.http ? 'status-ok' : 'status-off'}">HTTP ${providerStatus.tts.http ? '可用' : '未設定'}</span>
             <span class="status-badge ${providerStatus.tts.browser ? 'status-ok' : 'status-off'}">Browser ${providerStatus.tts.browser ? '可用' : '不可用'}</span>
           </div>
           <div class="status-row">
@@ -41,6 +73,7 @@ export function renderAdminTab(): void {
           </div>
         </div>
         <button id="refreshProviderBtn" class="btn btn-secondary" style="margin-top:.75rem">更新 API 狀態</button>
+        ${ttsCacheStats ? renderTtsCacheStats(ttsCacheStats) : ''}
       </article>
 
       <article class="card">
@@ -54,7 +87,7 @@ export function renderAdminTab(): void {
           </div>
           <div class="field-group">
             <label class="field-label">密碼</label>
-            <input id="adminPasswordInput" class="field-input" required placeholder="至少 4 碼" />
+            <input id="adminPasswordInput" class="field-input" required placeholder="${PASSWORD_POLICY_HINT}" />
           </div>
           <div class="field-group">
             <label class="field-label">名稱</label>
@@ -63,8 +96,9 @@ export function renderAdminTab(): void {
           <div class="field-group">
             <label class="field-label">權限</label>
             <select id="adminRoleInput" class="field-select">
-              <option value="user">一般使用者</option>
-              <option value="admin">管理員</option>
+              <option value="user">${ROLE_LABELS.user}</option>
+              <option value="teacher">${ROLE_LABELS.teacher}</option>
+              <option value="admin">${ROLE_LABELS.admin}</option>
             </select>
           </div>
           <button type="submit" class="btn btn-primary">新增</button>
@@ -75,8 +109,33 @@ export function renderAdminTab(): void {
         <div class="card-header">
           <h3 class="card-title">備份管理</h3>
         </div>
-        <p class="muted-text">系統每天自動備份一次，也可手動備份</p>
+        <p class="muted-text">系統每天自動備份一次，也可手動備份；還原前會先預覽差異，並自動保存一份還原前的備份</p>
         <button id="manualBackupBtn" class="btn btn-secondary" style="margin-top:.75rem">立即建立備份</button>
+        ${renderBackupUpload(backupUpload)}
+        <form id="backupRetentionForm" class="audit-filters" style="margin-top:.75rem">
+          <div class="field-group">
+            <label class="field-label">保留每日（天）</label>
+            <input id="retentionDailyInput" type="number" min="1" max="365" class="field-input" value="${backupRetention.daily}" />
+          </div>
+          <div class="field-group">
+            <label class="field-label">保留每週（週）</label>
+            <input id="retentionWeeklyInput" type="number" min="0" max="104" class="field-input" value="${backupRetention.weekly}" />
+          </div>
+          <div class="field-group">
+            <label class="field-label">保留手動（份）</label>
+            <input id="retentionManualInput" type="number" min="1" max="100" class="field-input" value="${backupRetention.manual}" />
+          </div>
+          <div class="field-group">
+            <button type="submit" class="btn btn-secondary btn-sm">儲存保留設定</button>
+          </div>
+        </form>
+        <div class="field-group" style="margin-top:.75rem">
+          <label class="field-label">還原範圍</label>
+          <select id="restoreScopeInput" class="field-select">
+            <option value="">整個資料庫</option>
+            ${adminUsers.map((user) => `<option value="${escapeHtmlAttr(user.account)}">只還原 ${escapeHtml(user.account)} 的學習資料</option>`).join('')}
+          </select>
+        </div>
         <div class="backup-list" style="margin-top:.75rem">
           ${backupFiles.length > 0
             ? backupFiles.map((file) => `
@@ -84,6 +143,10 @@ export function renderAdminTab(): void {
                 <span class="muted-text">${escapeHtml(file.fileName)}</span>
                 <span class="muted-text">${Math.round(file.size / 1024)} KB</span>
                 <span class="muted-text">${escapeHtml(formatTime(file.mtime))}</span>
+                ${file.kind ? `
+                  <button class="btn btn-secondary btn-sm" data-backup-download="${escapeHtmlAttr(file.fileName)}">下載</button>
+                  <button class="btn btn-secondary btn-sm" data-backup-restore="${escapeHtmlAttr(file.fileName)}">還原…</button>
+                ` : ''}
               </div>
             `).join('')
             : '<p class="muted-text">目前無備份紀錄</p>'
@@ -92,6 +155,8 @@ export function renderAdminTab(): void {
       </article>
     </div>
 
+    ${restorePreview ? renderRestorePreview(restorePreview) : ''}
+
     <article class="card" style="margin-top:1.5rem">
       <div class="card-header">
         <h3 class="card-title">使用者清單</h3>
@@ -102,7 +167,7 @@ export function renderAdminTab(): void {
           <article class="list-item">
             <div class="list-item-body">
               <div class="list-item-main">
-                <p class="item-word">${escapeHtml(user.account)} <span class="badge">${user.role === 'admin' ? '管理員' : '一般'}</span></p>
+                <p class="item-word">${escapeHtml(user.account)} <span class="badge">${ROLE_LABELS[user.role]}</span></p>
                 <p class="item-meaning">${escapeHtml(user.name)}</p>
               </div>
               <div class="item-meta">
@@ -110,6 +175,17 @@ export function renderAdminTab(): void {
                 <span class="muted-text">英 ${user.englishCount} · 日 ${user.japaneseCount}</span>
               </div>
               <p class="muted-text" style="font-size:0.8rem">建立 ${escapeHtml(formatTime(user.createdAt))}</p>
+              ${user.role === 'user' ? `
+                <label class="muted-text" style="font-size:0.8rem">
+                  老師
+                  <select class="field-select" data-admin-action="assign-teacher" data-account="${escapeHtmlAttr(user.account)}">
+                    <option value="">（未指派）</option>
+                    ${teachers.map((teacher) => `
+                      <option value="${escapeHtmlAttr(teacher.account)}" ${user.teacher === teacher.account ? 'selected' : ''}>${escapeHtml(teacher.name)}（${escapeHtml(teacher.account)}）</option>
+                    `).join('')}
+                  </select>
+                </label>
+              ` : ''}
             </div>
             <div class="list-item-actions">
               <button class="btn btn-secondary btn-sm" data-admin-action="change-password" data-account="${escapeHtmlAttr(user.account)}">改密碼</button>
@@ -131,12 +207,22 @@ export function renderAdminTab(): void {
         `).join('')}
       </div>
     </article>
+
+    ${hasPermission(authUser.role, 'audit:view') ? renderAuditCard() : ''}
   `
 
   byId<HTMLButtonElement>('refreshProviderBtn').addEventListener('click', () => {
     void refreshProviderByAdmin()
   })
 
+  document.getElementById('refreshTtsCacheBtn')?.addEventListener('click', () => {
+    void loadTtsCacheStats().then(triggerRender)
+  })
+
+  document.getElementById('clearTtsCacheBtn')?.addEventListener('click', () => {
+    if (window.confirm('確定清除所有語音快取？之後播放會重新向 OpenAI 產生語音')) void clearTtsCache()
+  })
+
   byId<HTMLFormElement>('adminAddUserForm').addEventListener('submit', (event) => {
     event.preventDefault()
     const account = byId<HTMLInputElement>('adminAccountInput').value.trim()
@@ -150,6 +236,32 @@ export function renderAdminTab(): void {
     void triggerManualBackup()
   })
 
+  byId<HTMLFormElement>('backupRetentionForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    void saveBackupRetention({
+      daily: Number(byId<HTMLInputElement>('retentionDailyInput').value),
+      weekly: Number(byId<HTMLInputElement>('retentionWeeklyInput').value),
+      manual: Number(byId<HTMLInputElement>('retentionManualInput').value)
+    })
+  })
+
+  panel.querySelectorAll<HTMLButtonElement>('[data-backup-download]').forEach((button) => {
+    button.addEventListener('click', () => void downloadBackup(button.dataset.backupDownload ?? ''))
+  })
+
+  panel.querySelectorAll<HTMLButtonElement>('[data-backup-restore]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const account = byId<HTMLSelectElement>('restoreScopeInput').value || null
+      void previewRestore(button.dataset.backupRestore ?? '', account)
+    })
+  })
+
+  document.getElementById('retryBackupUploadBtn')?.addEventListener('click', () => {
+    if (backupUpload.last) void retryBackupUpload(backupUpload.last.fileName)
+  })
+
+  if (restorePreview) bindRestorePreview(restorePreview)
+
   panel.querySelectorAll<HTMLButtonElement>('[data-admin-action="delete-user"]').forEach((button) => {
     button.addEventListener('click', () => {
       const account = button.dataset.account
@@ -162,12 +274,20 @@ export function renderAdminTab(): void {
     button.addEventListener('click', () => {
       const account = button.dataset.account
       if (!account) return
-      const password = window.prompt(`請輸入 ${account} 的新密碼（至少 4 碼）`)
+      const password = window.prompt(`請輸入 ${account} 的新密碼（${PASSWORD_POLICY_HINT}）`)
       if (!password) return
       void adminChangeUserPassword(account, password.trim())
     })
   })
 
+  panel.querySelectorAll<HTMLSelectElement>('[data-admin-action="assign-teacher"]').forEach((select) => {
+    select.addEventListener('change', () => {
+      const account = select.dataset.account
+      if (!account) return
+      void adminAssignTeacher(account, select.value)
+    })
+  })
+
   panel.querySelectorAll<HTMLButtonElement>('[data-admin-action="toggle-status"]').forEach((button) => {
     button.addEventListener('click', () => {
       const account = button.dataset.account
@@ -176,4 +296,192 @@ export function renderAdminTab(): void {
       void adminSetUserStatus(account, !current)
     })
   })
+
+  if (hasPermission(authUser.role, 'audit:view')) bindAuditFilters()
+}
+
+function renderTtsCacheStats(stats: TtsCacheStats): string {
+  if (!stats.enabled) return '<p class="muted-text" style="margin-top:.75rem">語音快取：已停用（TTS_CACHE_MAX_MB=0）</p>'
+
+  const lookups = stats.hits + stats.misses
+  const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : '—'
+  const usedMb = (stats.bytes / 1024 / 1024).toFixed(1)
+  const maxMb = Math.round(stats.maxBytes / 1024 / 1024)
+  return `
+    <div class="status-list" style="margin-top:.75rem">
+      <div class="status-row">
+        <span class="status-label">語音快取</span>
+        <span class="muted-text">命中率 ${hitRate}（${stats.hits} / ${lookups}）</span>
+        <span class="muted-text">${stats.entries} 個檔案 · ${usedMb} / ${maxMb} MB</span>
+      </div>
+      <p class="muted-text">自 ${escapeHtml(formatTime(stats.since))} 起統計</p>
+    </div>
+    <div class="list-item-actions" style="margin-top:.5rem">
+      <button id="refreshTtsCacheBtn" class="btn btn-secondary btn-sm">更新快取統計</button>
+      <button id="clearTtsCacheBtn" class="btn btn-danger btn-sm" ${stats.entries === 0 ? 'disabled' : ''}>清除語音快取</button>
+    </div>
+  `
+}
+
+function renderBackupUpload(upload: BackupUploadInfo): string {
+  if (!upload.target) return '<p class="muted-text" style="margin-top:.75rem">異地備份：未設定（BACKUP_TARGET）</p>'
+
+  const encoding = [upload.gzip ? 'gzip' : '', upload.encrypted ? '加密' : ''].filter(Boolean).join(' + ')
+  const last = upload.last
+  return `
+    <div style="margin-top:.75rem">
+      <p class="muted-text">異地備份：${escapeHtml(upload.target.kind)} · ${escapeHtml(upload.target.location)}${encoding ? `（${encoding}）` : ''}</p>
+      ${last ? `
+        <div class="backup-row">
+          <span class="status-badge ${last.ok ? 'status-ok' : 'status-off'}">${last.ok ? '上傳成功' : '上傳失敗'}</span>
+          <span class="muted-text">${escapeHtml(last.storedAs)}</span>
+          <span class="muted-text">${escapeHtml(formatTime(last.at))}${last.ok ? ` · ${Math.round(last.bytes / 1024)} KB · ${(last.durationMs / 1000).toFixed(1)} 秒` : ''}</span>
+          ${last.ok ? '' : `<button id="retryBackupUploadBtn" class="btn btn-secondary btn-sm">重新上傳</button>`}
+        </div>
+        ${last.error ? `<p class="muted-text">${escapeHtml(last.error)}</p>` : ''}
+      ` : '<p class="muted-text">尚未上傳過備份</p>'}
+    </div>
+  `
+}
+
+function renderRestorePreview(preview: RestorePreview): string {
+  const diff = (item: RestorePreview['users'][number]['englishWords']) =>
+    `+${item.added} / −${item.removed} / 改 ${item.changed}`
+  const affected = preview.users.filter((user) => user.status !== 'unchanged')
+
+  return `
+    <article class="card" style="margin-top:1.5rem">
+      <div class="card-header">
+        <h3 class="card-title">還原預覽</h3>
+        <span class="muted-text">${escapeHtml(preview.fileName)} · ${preview.account ? `只還原 ${escapeHtml(preview.account)} 的學習資料` : '整個資料庫'}</span>
+      </div>
+      <p class="muted-text">
+        ${affected.length} 個帳號有變動${preview.account ? '' : `，共享牌組 ${preview.decks.current} → ${preview.decks.backup} 個；目前的登入裝置、稽核紀錄與備份設定會保留`}
+      </p>
+      <div class="audit-table-wrap">
+        <table class="audit-table">
+          <thead>
+            <tr><th>帳號</th><th>狀態</th><th>英文（新增/移除/修改）</th><th>日文（新增/移除/修改）</th><th>設定</th><th>複習紀錄</th></tr>
+          </thead>
+          <tbody>
+            ${preview.users.map((user) => `
+              <tr>
+                <td>${escapeHtml(user.account)}</td>
+                <td><span class="badge">${RESTORE_STATUS_LABELS[user.status]}</span></td>
+                <td>${diff(user.englishWords)}</td>
+                <td>${diff(user.japaneseSentences)}</td>
+                <td>${user.settings ? '變更' : '不變'}</td>
+                <td>${preview.account ? '不變' : `${user.reviews.current} → ${user.reviews.backup}`}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      <div class="list-item-actions" style="margin-top:.75rem">
+        <button id="confirmRestoreBtn" class="btn btn-danger">確認還原</button>
+        <button id="cancelRestoreBtn" class="btn btn-secondary">取消</button>
+      </div>
+    </article>
+  `
+}
+
+function bindRestorePreview(preview: RestorePreview): void {
+  byId<HTMLButtonElement>('confirmRestoreBtn').addEventListener('click', () => {
+    const scope = preview.account ? `${preview.account} 的學習資料` : '整個資料庫'
+    if (!window.confirm(`確定要用 ${preview.fileName} 還原${scope}？`)) return
+    void applyRestore(preview)
+  })
+
+  byId<HTMLButtonElement>('cancelRestoreBtn').addEventListener('click', () => {
+    setRestorePreview(null)
+    triggerRender()
+  })
+}
+
+function renderAuditCard(): string {
+  const actions = Object.entries(AUDIT_ACTION_LABELS) as Array<[AuditAction, string]>
+
+  return `
+    <article class="card" style="margin-top:1.5rem">
+      <div class="card-header">
+        <h3 class="card-title">稽核紀錄</h3>
+        <span class="muted-text">符合 ${auditTotal} 筆${auditTotal > auditEntries.length ? `，顯示最新 ${auditEntries.length} 筆` : ''}</span>
+      </div>
+      <form id="auditFilterForm" class="audit-filters">
+        <div class="field-group">
+          <label class="field-label">操作者</label>
+          <input id="auditActorInput" class="field-input" value="${escapeHtmlAttr(auditFilter.actor)}" placeholder="admin" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">動作</label>
+          <select id="auditActionInput" class="field-select">
+            <option value="">全部</option>
+            ${actions.map(([action, label]) => `<option value="${action}" ${auditFilter.action === action ? 'selected' : ''}>${label}</option>`).join('')}
+          </select>
+        </div>
+        <div class="field-group">
+          <label class="field-label">對象</label>
+          <input id="auditTargetInput" class="field-input" value="${escapeHtmlAttr(auditFilter.target)}" placeholder="帳號" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">起日</label>
+          <input id="auditSinceInput" type="date" class="field-input" value="${escapeHtmlAttr(auditFilter.since)}" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">迄日</label>
+          <input id="auditUntilInput" type="date" class="field-input" value="${escapeHtmlAttr(auditFilter.until)}" />
+        </div>
+        <div class="field-group">
+          <button type="submit" class="btn btn-secondary">篩選</button>
+          <button type="button" id="auditResetBtn" class="btn btn-secondary btn-sm">清除條件</button>
+        </div>
+      </form>
+      <div class="audit-table-wrap">
+        ${auditEntries.length > 0 ? `
+          <table class="audit-table">
+            <thead>
+              <tr><th>時間</th><th>操作者</th><th>動作</th><th>對象</th><th>摘要</th><th>IP</th></tr>
+            </thead>
+            <tbody>${auditEntries.map(renderAuditRow).join('')}</tbody>
+          </table>
+        ` : '<p class="muted-text">沒有符合條件的紀錄</p>'}
+      </div>
+    </article>
+  `
+}
+
+function renderAuditRow(entry: AuditEntry): string {
+  const details = Object.entries(entry.details).map(([key, value]) => `${key}=${String(value)}`).join(', ')
+  return `
+    <tr>
+      <td class="audit-time">${escapeHtml(formatTime(entry.at))}</td>
+      <td>${escapeHtml(entry.actor)}</td>
+      <td><span class="badge">${AUDIT_ACTION_LABELS[entry.action] ?? escapeHtml(entry.action)}</span></td>
+      <td>${escapeHtml(entry.target || '—')}</td>
+      <td title="${escapeHtmlAttr(details)}">${escapeHtml(entry.summary)}</td>
+      <td class="muted-text">${escapeHtml(entry.ip)}</td>
+    </tr>
+  `
+}
+
+function bindAuditFilters(): void {
+  const apply = () => void loadAuditLog().then(triggerRender)
+
+  byId<HTMLFormElement>('auditFilterForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    const action = byId<HTMLSelectElement>('auditActionInput').value
+    setAuditFilter({
+      actor: byId<HTMLInputElement>('auditActorInput').value.trim(),
+      action: action in AUDIT_ACTION_LABELS ? action as AuditAction : '',
+      target: byId<HTMLInputElement>('auditTargetInput').value.trim(),
+      since: byId<HTMLInputElement>('auditSinceInput').value,
+      until: byId<HTMLInputElement>('auditUntilInput').value
+    })
+    apply()
+  })
+
+  byId<HTMLButtonElement>('auditResetBtn').addEventListener('click', () => {
+    setAuditFilter({ actor: '', action: '', target: '', since: '', until: '' })
+    apply()
+  })
 }
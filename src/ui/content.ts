@@ -6,19 +6,20 @@ import {
   providerStatus, englishWords, japaneseSentences,
   setEnCandidates, setJaCandidates, setEnHeadlines, setJaHeadlines,
   setEnNewsSource, setJaNewsSource, setEnNewsQuery, setJaNewsQuery,
-  setEnCandidateLimit, setJaCandidateLimit, setEnCandidateTags, setJaCandidateTags,
-  setEnglishWords, setJapaneseSentences
+  setEnCandidateLimit, setJaCandidateLimit, setEnCandidateTags, setJaCandidateTags
 } from '../state'
 import {
   extractEnglishKeywords, extractJapaneseSentences as extractJaSentences,
-  parseTags, mergeUniqueStrings, autoTranslate, schedulePersist,
-  inferJapaneseTags
+  parseTags, mergeUniqueStrings, autoTranslate, inferJapaneseTags,
+  createEnglishWord, createJapaneseSentence
 } from '../data'
 import { apiFetch, safeReadText } from '../api'
 import { exportUserData, importUserData } from '../auth'
 import { uid, byId, clampNumber, escapeHtml, escapeHtmlAttr, encodeForAttr, decodeFromAttr, toast } from '../utils'
 import { triggerRender } from '../renderBus'
 import { toRomaji } from 'wanakana'
+import { createSrsState } from '../scheduler'
+import { createSyncMeta } from '../sync'
 
 export function renderContentTab(): void {
   const panel = byId<HTMLDivElement>('tab-content')
@@ -289,20 +290,16 @@ async function addEnglishCandidate(candidate: string, tags: string[] = ['news'])
 
   const meaning = await autoTranslate(candidate, 'en', 'zh-TW')
 
-  setEnglishWords([
-    {
-      id: `en-${uid()}`,
-      word: candidate,
-      meaningZh: meaning || '（請手動補中文）',
-      tags: tags.length > 0 ? tags : ['news'],
-      needsWork: false,
-      level: 0,
-      lastReviewedAt: null
-    },
-    ...englishWords
-  ])
-
-  schedulePersist()
+  createEnglishWord({
+    id: `en-${uid()}`,
+    word: candidate,
+    meaningZh: meaning || '（請手動補中文）',
+    tags: tags.length > 0 ? tags : ['news'],
+    needsWork: false,
+    ...createSrsState(),
+    ...createSyncMeta()
+  })
+
   toast(`已加入英文單字：${candidate}`)
   triggerRender()
 }
@@ -316,21 +313,17 @@ async function addJapaneseCandidate(candidate: string, tags: string[] = ['news']
 
   const meaning = await autoTranslate(candidate, 'ja', 'zh-TW')
 
-  setJapaneseSentences([
-    {
-      id: `ja-${uid()}`,
-      sentence: candidate,
-      romaji: toRomaji(candidate),
-      meaningZh: meaning || '（請手動補中文）',
-      tags: tags.length > 0 ? tags : inferJapaneseTags(candidate),
-      vocabulary: [],
-      level: 0,
-      lastReviewedAt: null
-    },
-    ...japaneseSentences
-  ])
-
-  schedulePersist()
+  createJapaneseSentence({
+    id: `ja-${uid()}`,
+    sentence: candidate,
+    romaji: toRomaji(candidate),
+    meaningZh: meaning || '（請手動補中文）',
+    tags: tags.length > 0 ? tags : inferJapaneseTags(candidate),
+    vocabulary: [],
+    ...createSrsState(),
+    ...createSyncMeta()
+  })
+
   toast('已加入日文句子')
   triggerRender()
 }
@@ -0,0 +1,160 @@
+import type { DeckSummary } from '../types'
+import { authUser, decks } from '../state'
+import { createDeck, deleteDeck, loadDecks, publishDeck, subscribeDeck, unpublishDeck, unsubscribeDeck } from '../decks'
+import { parseTags } from '../data'
+import { triggerRender } from '../renderBus'
+import { byId, escapeHtml, escapeHtmlAttr, formatTime } from '../utils'
+
+const DECK_ITEM_TYPES: DeckSummary['itemTypes'] = ['english', 'japanese']
+
+const ITEM_TYPE_LABELS: Record<DeckSummary['itemTypes'][number], string> = {
+  english: '英文',
+  japanese: '日文'
+}
+
+export function renderDecksTab(): void {
+  const panel = byId<HTMLDivElement>('tab-decks')
+  if (!authUser) return
+
+  const mine = decks.filter((deck) => deck.mine)
+  const others = decks.filter((deck) => !deck.mine)
+
+  panel.innerHTML = `
+    <div class="page-header">
+      <div class="page-header-left">
+        <h2 class="page-title">共享牌組</h2>
+        <p class="page-desc">用標籤把自己的單字/句子打包發布，訂閱者會在你發布更新時收到新增的項目</p>
+      </div>
+      <div class="page-stats">
+        <span class="stat-badge stat-ok">我的 ${mine.length}</span>
+        <span class="stat-badge">已訂閱 ${others.filter((deck) => deck.subscribed).length}</span>
+      </div>
+    </div>
+
+    <article class="card">
+      <div class="card-header">
+        <h3 class="card-title">建立牌組</h3>
+        <span class="muted-text">牌組內容為符合任一標籤的項目，發布時才會更新</span>
+      </div>
+      <form id="deckCreateForm" class="form-stack">
+        <div class="field-group">
+          <label class="field-label">名稱</label>
+          <input id="deckName" class="field-input" maxlength="60" required placeholder="TOEIC 核心 500" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">說明</label>
+          <input id="deckDescription" class="field-input" maxlength="500" placeholder="選填" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">標籤（逗號分隔）</label>
+          <input id="deckTags" class="field-input" required placeholder="toeic, week-3" />
+        </div>
+        <div class="field-group">
+          <label class="field-label">包含</label>
+          <select id="deckItemTypes" class="field-select">
+            <option value="english,japanese">英文單字與日文句子</option>
+            <option value="english">只有英文單字</option>
+            <option value="japanese">只有日文句子</option>
+          </select>
+        </div>
+        <button type="submit" class="btn btn-primary">建立</button>
+      </form>
+    </article>
+
+    <article class="card" style="margin-top:1.5rem">
+      <div class="card-header">
+        <h3 class="card-title">我的牌組</h3>
+      </div>
+      <div class="list-container" style="margin-top:.75rem">
+        ${mine.length > 0 ? mine.map(renderOwnDeck).join('') : '<p class="muted-text">尚未建立牌組</p>'}
+      </div>
+    </article>
+
+    <article class="card" style="margin-top:1.5rem">
+      <div class="card-header">
+        <h3 class="card-title">公開牌組</h3>
+        <button id="refreshDecksBtn" class="btn btn-secondary btn-sm">重新整理</button>
+      </div>
+      <div class="list-container" style="margin-top:.75rem">
+        ${others.length > 0 ? others.map(renderSharedDeck).join('') : '<p class="muted-text">目前沒有其他人發布的牌組</p>'}
+      </div>
+    </article>
+  `
+
+  byId<HTMLFormElement>('deckCreateForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    void createDeck({
+      name: byId<HTMLInputElement>('deckName').value.trim(),
+      description: byId<HTMLInputElement>('deckDescription').value.trim(),
+      tags: parseTags(byId<HTMLInputElement>('deckTags').value),
+      itemTypes: DECK_ITEM_TYPES.filter((type) => byId<HTMLSelectElement>('deckItemTypes').value.split(',').includes(type))
+    })
+  })
+
+  byId<HTMLButtonElement>('refreshDecksBtn').addEventListener('click', () => {
+    void loadDecks().then(triggerRender)
+  })
+
+  panel.querySelectorAll<HTMLButtonElement>('[data-deck-publish]').forEach((button) => {
+    button.addEventListener('click', () => void publishDeck(button.dataset.deckPublish ?? ''))
+  })
+  panel.querySelectorAll<HTMLButtonElement>('[data-deck-unpublish]').forEach((button) => {
+    button.addEventListener('click', () => void unpublishDeck(button.dataset.deckUnpublish ?? ''))
+  })
+  panel.querySelectorAll<HTMLButtonElement>('[data-deck-delete]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const deck = decks.find((item) => item.id === button.dataset.deckDelete)
+      if (deck && confirm(`確定刪除牌組「${deck.name}」？訂閱者已收到的項目會保留`)) void deleteDeck(deck.id)
+    })
+  })
+  panel.querySelectorAll<HTMLButtonElement>('[data-deck-subscribe]').forEach((button) => {
+    button.addEventListener('click', () => void subscribeDeck(button.dataset.deckSubscribe ?? ''))
+  })
+  panel.querySelectorAll<HTMLButtonElement>('[data-deck-unsubscribe]').forEach((button) => {
+    button.addEventListener('click', () => void unsubscribeDeck(button.dataset.deckUnsubscribe ?? ''))
+  })
+}
+
+function renderDeckBody(deck: DeckSummary, owner: string): string {
+  return `
+    <div class="list-item-main">
+      <p class="item-word">${escapeHtml(deck.name)} <span class="badge">v${deck.version}</span></p>
+      <p class="item-meaning">${deck.description ? escapeHtml(deck.description) : owner}</p>
+    </div>
+    <div class="item-meta">
+      ${deck.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}
+      <span class="muted-text">${deck.itemTypes.map((type) => ITEM_TYPE_LABELS[type]).join(' · ')} · ${deck.entryCount} 筆 · ${deck.subscriberCount} 人訂閱</span>
+    </div>
+    <p class="muted-text" style="font-size:0.8rem">${owner} · 更新於 ${escapeHtml(formatTime(deck.updatedAt))}</p>
+  `
+}
+
+function renderOwnDeck(deck: DeckSummary): string {
+  const id = escapeHtmlAttr(deck.id)
+  return `
+    <article class="list-item">
+      <div class="list-item-body">${renderDeckBody(deck, deck.published ? '已發布' : '未發布')}</div>
+      <div class="list-item-actions">
+        <button class="btn btn-primary btn-sm" data-deck-publish="${id}">${deck.published ? '發布更新' : '發布'}</button>
+        ${deck.published ? `<button class="btn btn-secondary btn-sm" data-deck-unpublish="${id}">取消發布</button>` : ''}
+        <button class="btn btn-danger btn-sm" data-deck-delete="${id}">刪除</button>
+      </div>
+    </article>
+  `
+}
+
+function renderSharedDeck(deck: DeckSummary): string {
+  const id = escapeHtmlAttr(deck.id)
+  const owner = `由 ${escapeHtml(deck.ownerName)} 分享${deck.published ? '' : '（已停止發布）'}`
+  return `
+    <article class="list-item">
+      <div class="list-item-body">${renderDeckBody(deck, owner)}</div>
+      <div class="list-item-actions">
+        ${deck.subscribed
+          ? `${deck.published ? `<button class="btn btn-secondary btn-sm" data-deck-subscribe="${id}">取得更新</button>` : ''}
+             <button class="btn btn-secondary btn-sm" data-deck-unsubscribe="${id}">取消訂閱</button>`
+          : `<button class="btn btn-primary btn-sm" data-deck-subscribe="${id}">訂閱</button>`}
+      </div>
+    </article>
+  `
+}
@@ -1,37 +1,55 @@
-import type { EnglishWord } from '../types'
+import type { EnglishWord, EnglishReviewMode, ReviewGrade } from '../types'
 import {
-  englishWords, englishGroup, englishSearch, englishReview,
-  setEnglishWords, setEnglishGroup, setEnglishSearch
+  englishWords, englishGroup, englishSearch, speechSettings, englishReview, mixedReview, englishReviewMode, englishQuiz, REVIEW_GRADE_LABELS,
+  setEnglishGroup, setEnglishSearch, setEnglishReviewMode
 } from '../state'
 import {
-  isDue, parseTags, schedulePersist,
-  getVisibleEnglishWords, markEnglishReviewed
+  parseTags, createEnglishWord, updateEnglishWord, deleteEnglishWord,
+  getVisibleEnglishWords, getEnglishQueueByGroup, markEnglishReviewed, todayTally
 } from '../data'
-import {
-  startEnglishReview, toggleEnglishPause, stopEnglishReview, shiftEnglishReview
-} from '../review'
-import { playSingleEnglish } from '../speech'
+import { playerSessionFor, submitEnglishAnswer } from '../review'
+import { bindPlayerOptions, renderPlayerOptions } from './player-options'
+import { playSingleEnglish, playEnglishPrompt } from '../speech'
 import { autoTranslate } from '../data'
-import { uid, byId, escapeHtml, escapeHtmlAttr, toast } from '../utils'
+import { uid, byId, escapeHtml, escapeHtmlAttr, encodeForAttr, decodeFromAttr, toast } from '../utils'
 import { triggerRender } from '../renderBus'
+import { downloadSessionAudio } from '../auth'
+import { createSrsState, REVIEW_GRADES } from '../scheduler'
+import { createSyncMeta } from '../sync'
+
+const ENGLISH_REVIEW_MODES: Array<{ value: EnglishReviewMode; label: string }> = [
+  { value: 'listen', label: '聆聽：單字 → 拼讀 → 意涵' },
+  { value: 'spell', label: '聽寫：聽發音拼出單字' },
+  { value: 'recall', label: '回想：看中文拼出單字' },
+  { value: 'choice', label: '選擇：聽發音選中文意涵' }
+]
 
 export function renderEnglishTab(): void {
   const panel = byId<HTMLDivElement>('tab-english')
-  const dueCount = englishWords.filter((item) => isDue(item.level, item.lastReviewedAt)).length
+  const used = todayTally('english')
+  const limits = speechSettings.dailyLimits.english
+  const remaining = getEnglishQueueByGroup('due').length
   const needsWorkCount = englishWords.filter((item) => item.needsWork).length
-  const filteredWords = getVisibleEnglishWords(englishReview.running, englishReview.queue)
-  const progress = englishReview.running
-    ? `${Math.min(englishReview.index + 1, englishReview.queue.length)} / ${englishReview.queue.length}`
+  const player = playerSessionFor('english')
+  const playing = player.state
+  const queued = mixedReview.running
+    ? mixedReview.queue.flatMap((entry) => entry.kind === 'english' ? [entry.item] : [])
+    : englishReview.queue
+  const filteredWords = getVisibleEnglishWords(playing.running, queued)
+  const progress = playing.running
+    ? `${Math.min(playing.index + 1, playing.queue.length)} / ${playing.queue.length}`
     : null
 
   panel.innerHTML = `
     <div class="page-header">
       <div class="page-header-left">
         <h2 class="page-title">英文單字</h2>
-        <p class="page-desc">流程：單字發音 → 字母拼讀 → 繁中意涵</p>
+        <p class="page-desc">${englishReviewMode === 'listen' ? '流程：單字發音 → 字母拼讀 → 繁中意涵' : '測驗模式：作答後依結果安排下次複習'}</p>
       </div>
       <div class="page-stats">
-        <span class="stat-badge stat-due">待複習 ${dueCount}</span>
+        <span class="stat-badge stat-ok" title="今日新學 / 每日新項目上限">新學 ${used.newItems} / ${limits.newItems}</span>
+        <span class="stat-badge stat-off" title="今日複習 / 每日複習上限">複習 ${used.reviews} / ${limits.reviews}</span>
+        <span class="stat-badge stat-due" title="今日待複習還剩幾筆">剩餘 ${remaining}</span>
         <span class="stat-badge stat-work">需加強 ${needsWorkCount}</span>
       </div>
     </div>
@@ -71,32 +89,44 @@ export function renderEnglishTab(): void {
               ${renderEnglishGroupOptions()}
             </select>
           </div>
+          <div class="field-group">
+            <label class="field-label">複習模式</label>
+            <select id="englishModeSelect" class="field-select" ${playing.running ? 'disabled' : ''}>
+              ${ENGLISH_REVIEW_MODES.map((mode) => `<option value="${mode.value}" ${englishReviewMode === mode.value ? 'selected' : ''}>${escapeHtml(mode.label)}</option>`).join('')}
+            </select>
+          </div>
+          ${renderPlayerOptions('en', playing)}
           <div class="field-group">
             <label class="field-label">搜尋</label>
             <input id="englishSearchInput" class="field-input" placeholder="輸入關鍵字過濾" value="${escapeHtmlAttr(englishSearch)}" />
           </div>
           <div class="tag-bar">${renderEnglishTagChips()}</div>
-          <p class="muted-text">${englishReview.running ? `播放中，共 ${englishReview.queue.length} 筆` : `顯示 ${filteredWords.length} / ${englishWords.length} 筆`}</p>
+          <p class="muted-text">${playing.running ? `播放中，共 ${playing.queue.length} 筆` : `顯示 ${filteredWords.length} / ${englishWords.length} 筆`}</p>
         </div>
 
         <div class="player-controls">
           <button id="enStartBtn" class="btn btn-primary player-btn-main">
-            ${englishReview.running ? '重新開始' : '開始'}
+            ${playing.running ? '重新開始' : '開始'}
           </button>
-          <button id="enPauseBtn" class="btn btn-secondary" ${englishReview.running ? '' : 'disabled'}>
-            ${englishReview.paused ? '▶ 續播' : '⏸ 暫停'}
+          <button id="enPauseBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>
+            ${playing.paused ? '▶ 續播' : '⏸ 暫停'}
           </button>
-          <button id="enPrevBtn" class="btn btn-secondary" ${englishReview.running ? '' : 'disabled'}>◀ 上一個</button>
-          <button id="enNextBtn" class="btn btn-secondary" ${englishReview.running ? '' : 'disabled'}>▶ 下一個</button>
-          <button id="enStopBtn" class="btn btn-danger" ${englishReview.running ? '' : 'disabled'}>⏹ 停止</button>
+          <button id="enPrevBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>◀ 上一個</button>
+          <button id="enNextBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>▶ 下一個</button>
+          <button id="enStopBtn" class="btn btn-danger" ${playing.running ? '' : 'disabled'}>⏹ 停止</button>
+          <button id="enAudioBtn" class="btn btn-secondary" title="把目前分組產生成一個有章節的 MP3，可離線收聽">⬇ 下載音檔</button>
         </div>
+
+        ${renderEnglishQuiz()}
       </article>
     </div>
 
     <div class="list-container">
-      ${filteredWords.length > 0
-        ? filteredWords.map((item) => renderEnglishRow(item)).join('')
-        : '<div class="empty-state"><p>目前沒有符合條件的英文單字</p></div>'
+      ${englishReview.running && englishReviewMode !== 'listen'
+        ? '<div class="empty-state"><p>測驗進行中，清單暫時隱藏</p></div>'
+        : filteredWords.length > 0
+          ? filteredWords.map((item) => renderEnglishRow(item)).join('')
+          : '<div class="empty-state"><p>目前沒有符合條件的英文單字</p></div>'
       }
     </div>
   `
@@ -111,25 +141,40 @@ export function renderEnglishTab(): void {
     triggerRender()
   })
 
+  byId<HTMLSelectElement>('englishModeSelect').addEventListener('change', (event) => {
+    setEnglishReviewMode((event.currentTarget as HTMLSelectElement).value as EnglishReviewMode)
+    triggerRender()
+  })
+
+  bindEnglishQuiz()
+  bindPlayerOptions('en', playing)
+
   byId<HTMLInputElement>('englishSearchInput').addEventListener('input', (event) => {
     setEnglishSearch((event.currentTarget as HTMLInputElement).value)
     triggerRender()
   })
 
   byId<HTMLButtonElement>('enStartBtn').addEventListener('click', () => {
-    void startEnglishReview(englishGroup)
+    void player.start(englishGroup)
   })
   byId<HTMLButtonElement>('enPauseBtn').addEventListener('click', () => {
-    toggleEnglishPause()
+    player.togglePause()
   })
   byId<HTMLButtonElement>('enPrevBtn').addEventListener('click', () => {
-    void shiftEnglishReview(-1)
+    void player.shift(-1)
   })
   byId<HTMLButtonElement>('enNextBtn').addEventListener('click', () => {
-    void shiftEnglishReview(1)
+    void player.shift(1)
+  })
+  byId<HTMLButtonElement>('enAudioBtn').addEventListener('click', (event) => {
+    const button = event.currentTarget as HTMLButtonElement
+    button.disabled = true
+    void downloadSessionAudio('english', englishGroup).finally(() => {
+      button.disabled = false
+    })
   })
   byId<HTMLButtonElement>('enStopBtn').addEventListener('click', () => {
-    stopEnglishReview(true)
+    player.stop(true)
   })
 
   panel.querySelectorAll<HTMLButtonElement>('[data-en-group]').forEach((button) => {
@@ -153,13 +198,15 @@ export function renderEnglishTab(): void {
       }
 
       if (action === 'needs-work') {
-        setEnglishWords(englishWords.map((word) => (word.id === id ? { ...word, needsWork: !word.needsWork } : word)))
-        schedulePersist()
+        const target = englishWords.find((word) => word.id === id)
+        if (target) updateEnglishWord(id, { needsWork: !target.needsWork })
         triggerRender()
       }
 
-      if (action === 'reviewed') {
-        markEnglishReviewed(id)
+      if (action === 'grade') {
+        const grade = button.dataset.grade as ReviewGrade | undefined
+        if (!grade) return
+        markEnglishReviewed(id, grade)
         triggerRender()
       }
 
@@ -168,20 +215,80 @@ export function renderEnglishTab(): void {
         if (!target) return
         const next = window.prompt('請輸入標籤（逗號分隔）', target.tags.join(', '))
         if (next === null) return
-        setEnglishWords(englishWords.map((word) => (word.id === id ? { ...word, tags: parseTags(next) } : word)))
-        schedulePersist()
+        updateEnglishWord(id, { tags: parseTags(next) })
         triggerRender()
       }
 
       if (action === 'delete') {
-        setEnglishWords(englishWords.filter((word) => word.id !== id))
-        schedulePersist()
+        deleteEnglishWord(id)
         triggerRender()
       }
     })
   })
 }
 
+function renderEnglishQuiz(): string {
+  if (!englishReview.running || englishReviewMode === 'listen') return ''
+
+  const current = englishReview.queue[englishReview.index]
+  if (!current) return ''
+
+  const prompt = englishReviewMode === 'recall'
+    ? `<p class="item-meaning">${escapeHtml(current.meaningZh)}</p>`
+    : '<p class="muted-text">請聽發音作答</p><button type="button" id="enQuizReplayBtn" class="btn btn-secondary btn-sm">🔁 再聽一次</button>'
+
+  let answerArea = ''
+  if (englishQuiz.awaiting && englishReviewMode === 'choice') {
+    answerArea = `<div class="btn-row">${englishQuiz.choices
+      .map((choice) => `<button type="button" class="btn btn-secondary" data-en-choice="${encodeForAttr(choice)}">${escapeHtml(choice)}</button>`)
+      .join('')}</div>`
+  } else if (englishQuiz.awaiting) {
+    answerArea = `
+      <form id="enQuizForm" class="form-stack">
+        <input id="enQuizInput" class="field-input" autocomplete="off" autocapitalize="off" spellcheck="false" placeholder="輸入拼字" />
+        <button type="submit" class="btn btn-primary">送出</button>
+      </form>`
+  } else if (englishQuiz.grade) {
+    const passed = englishQuiz.grade !== 'again'
+    answerArea = `
+      <p class="quiz-result ${passed ? 'is-pass' : 'is-fail'}">${passed ? '✓ 答對' : '✗ 答錯'}（${REVIEW_GRADE_LABELS[englishQuiz.grade]}）</p>
+      <p class="muted-text">你的答案：${escapeHtml(englishQuiz.answer || '（空白）')}</p>
+      <p class="item-word">${escapeHtml(current.word)}</p>
+      <p class="item-meaning">${escapeHtml(current.meaningZh)}</p>`
+  }
+
+  return `
+    <div class="quiz-panel">
+      ${prompt}
+      ${answerArea}
+    </div>`
+}
+
+function bindEnglishQuiz(): void {
+  const current = englishReview.queue[englishReview.index]
+
+  document.getElementById('enQuizReplayBtn')?.addEventListener('click', () => {
+    if (current) void playEnglishPrompt(current)
+  })
+
+  const form = document.getElementById('enQuizForm')
+  if (form) {
+    const input = byId<HTMLInputElement>('enQuizInput')
+    input.focus()
+    form.addEventListener('submit', (event) => {
+      event.preventDefault()
+      submitEnglishAnswer(input.value)
+    })
+  }
+
+  document.querySelectorAll<HTMLButtonElement>('[data-en-choice]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const choice = button.dataset.enChoice
+      if (choice) submitEnglishAnswer(decodeFromAttr(choice))
+    })
+  })
+}
+
 function renderEnglishGroupOptions(): string {
   const tags = Array.from(new Set(englishWords.flatMap((item) => item.tags))).sort((a, b) => a.localeCompare(b))
   const options = [
@@ -233,7 +340,7 @@ function renderEnglishRow(item: EnglishWord): string {
       <div class="list-item-actions">
         <button class="btn btn-secondary btn-sm" data-en-action="play" data-id="${escapeHtmlAttr(item.id)}">▶ 朗讀</button>
         <button class="btn btn-secondary btn-sm" data-en-action="needs-work" data-id="${escapeHtmlAttr(item.id)}">${item.needsWork ? '取消加強' : '需加強'}</button>
-        <button class="btn btn-secondary btn-sm" data-en-action="reviewed" data-id="${escapeHtmlAttr(item.id)}">✓ 已複習</button>
+        ${REVIEW_GRADES.map((grade) => `<button class="btn btn-secondary btn-sm" data-en-action="grade" data-grade="${grade}" data-id="${escapeHtmlAttr(item.id)}">${REVIEW_GRADE_LABELS[grade]}</button>`).join('')}
         <button class="btn btn-secondary btn-sm" data-en-action="edit-tags" data-id="${escapeHtmlAttr(item.id)}">✎ 標籤</button>
         <button class="btn btn-danger btn-sm" data-en-action="delete" data-id="${escapeHtmlAttr(item.id)}">刪除</button>
       </div>
@@ -257,23 +364,19 @@ async function addEnglishWord(): Promise<void> {
     meaningZh = await autoTranslate(word, 'en', 'zh-TW')
   }
 
-  setEnglishWords([
-    {
-      id: `en-${uid()}`,
-      word,
-      meaningZh: meaningZh || '（請手動補中文）',
-      tags: parseTags(tagsInput.value),
-      needsWork: false,
-      level: 0,
-      lastReviewedAt: null
-    },
-    ...englishWords
-  ])
+  createEnglishWord({
+    id: `en-${uid()}`,
+    word,
+    meaningZh: meaningZh || '（請手動補中文）',
+    tags: parseTags(tagsInput.value),
+    needsWork: false,
+    ...createSrsState(),
+    ...createSyncMeta()
+  })
 
   wordInput.value = ''
   meaningInput.value = ''
   tagsInput.value = ''
 
-  schedulePersist()
   triggerRender()
 }
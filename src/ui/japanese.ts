@@ -1,36 +1,48 @@
 import { toRomaji } from 'wanakana'
-import type { JapaneseSentence } from '../types'
+import type { JapaneseSentence, JapaneseReviewMode, ReviewGrade } from '../types'
 import {
-  japaneseSentences, japaneseGroup, japaneseSearch, japaneseReview,
-  setJapaneseSentences, setJapaneseGroup, setJapaneseSearch
+  japaneseSentences, japaneseGroup, japaneseSearch, speechSettings, japaneseReview, mixedReview, japaneseReviewMode, japaneseQuiz, REVIEW_GRADE_LABELS,
+  setJapaneseGroup, setJapaneseSearch, setJapaneseReviewMode
 } from '../state'
 import {
-  isDue, parseTags, schedulePersist, parseVocabPairs, inferJapaneseTags,
-  getVisibleJapaneseSentences, markJapaneseReviewed, autoTranslate
+  parseTags, parseVocabPairs, inferJapaneseTags,
+  createJapaneseSentence, updateJapaneseSentence, deleteJapaneseSentence,
+  getVisibleJapaneseSentences, getJapaneseQueueByGroup, markJapaneseReviewed, autoTranslate, todayTally
 } from '../data'
-import {
-  startJapaneseReview, toggleJapanesePause, stopJapaneseReview, shiftJapaneseReview
-} from '../review'
-import { playSingleJapanese } from '../speech'
+import { playerSessionFor, submitJapaneseAnswer } from '../review'
+import { bindPlayerOptions, renderPlayerOptions } from './player-options'
+import { playSingleJapanese, playJapanesePrompt } from '../speech'
 import { uid, byId, escapeHtml, escapeHtmlAttr, toast } from '../utils'
 import { triggerRender } from '../renderBus'
+import { downloadSessionAudio } from '../auth'
+import { createSrsState, REVIEW_GRADES } from '../scheduler'
+import { createSyncMeta } from '../sync'
 
 export function renderJapaneseTab(): void {
   const panel = byId<HTMLDivElement>('tab-japanese')
-  const dueCount = japaneseSentences.filter((item) => isDue(item.level, item.lastReviewedAt)).length
-  const filteredSentences = getVisibleJapaneseSentences(japaneseReview.running, japaneseReview.queue)
-  const progress = japaneseReview.running
-    ? `${Math.min(japaneseReview.index + 1, japaneseReview.queue.length)} / ${japaneseReview.queue.length}`
+  const used = todayTally('japanese')
+  const limits = speechSettings.dailyLimits.japanese
+  const remaining = getJapaneseQueueByGroup('due').length
+  const player = playerSessionFor('japanese')
+  const playing = player.state
+  const queued = mixedReview.running
+    ? mixedReview.queue.flatMap((entry) => entry.kind === 'japanese' ? [entry.item] : [])
+    : japaneseReview.queue
+  const filteredSentences = getVisibleJapaneseSentences(playing.running, queued)
+  const progress = playing.running
+    ? `${Math.min(playing.index + 1, playing.queue.length)} / ${playing.queue.length}`
     : null
 
   panel.innerHTML = `
     <div class="page-header">
       <div class="page-header-left">
         <h2 class="page-title">日文句子</h2>
-        <p class="page-desc">流程：句子朗讀 → 繁中意涵；支援羅馬拼音</p>
+        <p class="page-desc">${japaneseReviewMode === 'dictation' ? '聽寫模式：聽句子後以假名或羅馬拼音作答' : '流程：句子朗讀 → 繁中意涵；支援羅馬拼音'}</p>
       </div>
       <div class="page-stats">
-        <span class="stat-badge stat-due">待複習 ${dueCount}</span>
+        <span class="stat-badge stat-ok" title="今日新學 / 每日新項目上限">新學 ${used.newItems} / ${limits.newItems}</span>
+        <span class="stat-badge stat-off" title="今日複習 / 每日複習上限">複習 ${used.reviews} / ${limits.reviews}</span>
+        <span class="stat-badge stat-due" title="今日待複習還剩幾筆">剩餘 ${remaining}</span>
       </div>
     </div>
 
@@ -77,31 +89,44 @@ export function renderJapaneseTab(): void {
               ${renderJapaneseGroupOptions()}
             </select>
           </div>
+          <div class="field-group">
+            <label class="field-label">複習模式</label>
+            <select id="japaneseModeSelect" class="field-select" ${playing.running ? 'disabled' : ''}>
+              <option value="listen" ${japaneseReviewMode === 'listen' ? 'selected' : ''}>聆聽：句子 → 中文意涵</option>
+              <option value="dictation" ${japaneseReviewMode === 'dictation' ? 'selected' : ''}>聽寫：聽句子輸入假名或羅馬拼音</option>
+            </select>
+          </div>
+          ${renderPlayerOptions('ja', playing)}
           <div class="field-group">
             <label class="field-label">搜尋</label>
             <input id="japaneseSearchInput" class="field-input" placeholder="輸入關鍵字過濾" value="${escapeHtmlAttr(japaneseSearch)}" />
           </div>
-          <p class="muted-text">${japaneseReview.running ? `播放中，共 ${japaneseReview.queue.length} 句` : `顯示 ${filteredSentences.length} / ${japaneseSentences.length} 句`}</p>
+          <p class="muted-text">${playing.running ? `播放中，共 ${playing.queue.length} 句` : `顯示 ${filteredSentences.length} / ${japaneseSentences.length} 句`}</p>
         </div>
 
         <div class="player-controls">
           <button id="jaStartBtn" class="btn btn-primary player-btn-main">
-            ${japaneseReview.running ? '重新開始' : '開始'}
+            ${playing.running ? '重新開始' : '開始'}
           </button>
-          <button id="jaPauseBtn" class="btn btn-secondary" ${japaneseReview.running ? '' : 'disabled'}>
-            ${japaneseReview.paused ? '▶ 續播' : '⏸ 暫停'}
+          <button id="jaPauseBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>
+            ${playing.paused ? '▶ 續播' : '⏸ 暫停'}
           </button>
-          <button id="jaPrevBtn" class="btn btn-secondary" ${japaneseReview.running ? '' : 'disabled'}>◀ 上一句</button>
-          <button id="jaNextBtn" class="btn btn-secondary" ${japaneseReview.running ? '' : 'disabled'}>▶ 下一句</button>
-          <button id="jaStopBtn" class="btn btn-danger" ${japaneseReview.running ? '' : 'disabled'}>⏹ 停止</button>
+          <button id="jaPrevBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>◀ 上一句</button>
+          <button id="jaNextBtn" class="btn btn-secondary" ${playing.running ? '' : 'disabled'}>▶ 下一句</button>
+          <button id="jaStopBtn" class="btn btn-danger" ${playing.running ? '' : 'disabled'}>⏹ 停止</button>
+          <button id="jaAudioBtn" class="btn btn-secondary" title="把目前分組產生成一個有章節的 MP3，可離線收聽">⬇ 下載音檔</button>
         </div>
+
+        ${renderJapaneseDictation()}
       </article>
     </div>
 
     <div class="list-container">
-      ${filteredSentences.length > 0
-        ? filteredSentences.map((item) => renderJapaneseRow(item)).join('')
-        : '<div class="empty-state"><p>目前沒有符合條件的日文句子</p></div>'
+      ${japaneseReview.running && japaneseReviewMode === 'dictation'
+        ? '<div class="empty-state"><p>聽寫進行中，清單暫時隱藏</p></div>'
+        : filteredSentences.length > 0
+          ? filteredSentences.map((item) => renderJapaneseRow(item)).join('')
+          : '<div class="empty-state"><p>目前沒有符合條件的日文句子</p></div>'
       }
     </div>
   `
@@ -116,25 +141,40 @@ export function renderJapaneseTab(): void {
     triggerRender()
   })
 
+  byId<HTMLSelectElement>('japaneseModeSelect').addEventListener('change', (event) => {
+    setJapaneseReviewMode((event.currentTarget as HTMLSelectElement).value as JapaneseReviewMode)
+    triggerRender()
+  })
+
+  bindJapaneseDictation()
+  bindPlayerOptions('ja', playing)
+
   byId<HTMLInputElement>('japaneseSearchInput').addEventListener('input', (event) => {
     setJapaneseSearch((event.currentTarget as HTMLInputElement).value)
     triggerRender()
   })
 
   byId<HTMLButtonElement>('jaStartBtn').addEventListener('click', () => {
-    void startJapaneseReview(japaneseGroup)
+    void player.start(japaneseGroup)
   })
   byId<HTMLButtonElement>('jaPauseBtn').addEventListener('click', () => {
-    toggleJapanesePause()
+    player.togglePause()
   })
   byId<HTMLButtonElement>('jaPrevBtn').addEventListener('click', () => {
-    void shiftJapaneseReview(-1)
+    void player.shift(-1)
   })
   byId<HTMLButtonElement>('jaNextBtn').addEventListener('click', () => {
-    void shiftJapaneseReview(1)
+    void player.shift(1)
+  })
+  byId<HTMLButtonElement>('jaAudioBtn').addEventListener('click', (event) => {
+    const button = event.currentTarget as HTMLButtonElement
+    button.disabled = true
+    void downloadSessionAudio('japanese', japaneseGroup).finally(() => {
+      button.disabled = false
+    })
   })
   byId<HTMLButtonElement>('jaStopBtn').addEventListener('click', () => {
-    stopJapaneseReview(true)
+    player.stop(true)
   })
 
   panel.querySelectorAll<HTMLButtonElement>('[data-ja-action]').forEach((button) => {
@@ -148,8 +188,10 @@ export function renderJapaneseTab(): void {
         if (item) void playSingleJapanese(item)
       }
 
-      if (action === 'reviewed') {
-        markJapaneseReviewed(id)
+      if (action === 'grade') {
+        const grade = button.dataset.grade as ReviewGrade | undefined
+        if (!grade) return
+        markJapaneseReviewed(id, grade)
         triggerRender()
       }
 
@@ -158,20 +200,70 @@ export function renderJapaneseTab(): void {
         if (!target) return
         const next = window.prompt('請輸入標籤（逗號分隔）', target.tags.join(', '))
         if (next === null) return
-        setJapaneseSentences(japaneseSentences.map((s) => (s.id === id ? { ...s, tags: parseTags(next) } : s)))
-        schedulePersist()
+        updateJapaneseSentence(id, { tags: parseTags(next) })
         triggerRender()
       }
 
       if (action === 'delete') {
-        setJapaneseSentences(japaneseSentences.filter((s) => s.id !== id))
-        schedulePersist()
+        deleteJapaneseSentence(id)
         triggerRender()
       }
     })
   })
 }
 
+function renderJapaneseDictation(): string {
+  if (!japaneseReview.running || japaneseReviewMode !== 'dictation') return ''
+
+  const current = japaneseReview.queue[japaneseReview.index]
+  if (!current) return ''
+
+  let answerArea = ''
+  if (japaneseQuiz.awaiting) {
+    answerArea = `
+      <form id="jaDictationForm" class="form-stack">
+        <input id="jaDictationInput" class="field-input" lang="ja" autocomplete="off" autocapitalize="off" spellcheck="false" placeholder="かな / romaji" />
+        <button type="submit" class="btn btn-primary">送出</button>
+      </form>`
+  } else if (japaneseQuiz.grade) {
+    const passed = japaneseQuiz.grade !== 'again'
+    const diff = japaneseQuiz.diff
+      .map((segment) => `<span class="diff-${segment.type}">${escapeHtml(segment.text)}</span>`)
+      .join('')
+    answerArea = `
+      <p class="quiz-result ${passed ? 'is-pass' : 'is-fail'}">${passed ? '✓ 通過' : '✗ 未通過'}（${REVIEW_GRADE_LABELS[japaneseQuiz.grade]}）</p>
+      <p class="item-sentence dictation-diff">${diff}</p>
+      <p class="muted-text">你的答案：${escapeHtml(japaneseQuiz.answer || '（空白）')}</p>
+      <p class="item-romaji">${escapeHtml(current.romaji)}</p>
+      <p class="item-meaning">${escapeHtml(current.meaningZh)}</p>`
+  }
+
+  return `
+    <div class="quiz-panel">
+      <p class="muted-text">請聽句子並輸入聽到的內容</p>
+      <button type="button" id="jaDictationReplayBtn" class="btn btn-secondary btn-sm">🔁 再聽一次</button>
+      ${answerArea}
+    </div>`
+}
+
+function bindJapaneseDictation(): void {
+  const current = japaneseReview.queue[japaneseReview.index]
+
+  document.getElementById('jaDictationReplayBtn')?.addEventListener('click', () => {
+    if (current) void playJapanesePrompt(current)
+  })
+
+  const form = document.getElementById('jaDictationForm')
+  if (!form) return
+
+  const input = byId<HTMLInputElement>('jaDictationInput')
+  input.focus()
+  form.addEventListener('submit', (event) => {
+    event.preventDefault()
+    submitJapaneseAnswer(input.value)
+  })
+}
+
 function renderJapaneseGroupOptions(): string {
   const tags = Array.from(new Set(japaneseSentences.flatMap((item) => item.tags))).sort((a, b) => a.localeCompare(b))
   const options = [
@@ -214,7 +306,7 @@ function renderJapaneseRow(item: JapaneseSentence): string {
       </div>
       <div class="list-item-actions">
         <button class="btn btn-secondary btn-sm" data-ja-action="play" data-id="${escapeHtmlAttr(item.id)}">▶ 朗讀</button>
-        <button class="btn btn-secondary btn-sm" data-ja-action="reviewed" data-id="${escapeHtmlAttr(item.id)}">✓ 已複習</button>
+        ${REVIEW_GRADES.map((grade) => `<button class="btn btn-secondary btn-sm" data-ja-action="grade" data-grade="${grade}" data-id="${escapeHtmlAttr(item.id)}">${REVIEW_GRADE_LABELS[grade]}</button>`).join('')}
         <button class="btn btn-secondary btn-sm" data-ja-action="edit-tags" data-id="${escapeHtmlAttr(item.id)}">✎ 標籤</button>
         <button class="btn btn-danger btn-sm" data-ja-action="delete" data-id="${escapeHtmlAttr(item.id)}">刪除</button>
       </div>
@@ -243,19 +335,16 @@ async function addJapaneseSentence(): Promise<void> {
     meaningZh = await autoTranslate(sentence, 'ja', 'zh-TW')
   }
 
-  setJapaneseSentences([
-    {
-      id: `ja-${uid()}`,
-      sentence,
-      romaji,
-      meaningZh: meaningZh || '（請手動補中文）',
-      tags: inputTags.length > 0 ? inputTags : inferJapaneseTags(sentence),
-      vocabulary: parseVocabPairs(vocabInput.value),
-      level: 0,
-      lastReviewedAt: null
-    },
-    ...japaneseSentences
-  ])
+  createJapaneseSentence({
+    id: `ja-${uid()}`,
+    sentence,
+    romaji,
+    meaningZh: meaningZh || '（請手動補中文）',
+    tags: inputTags.length > 0 ? inputTags : inferJapaneseTags(sentence),
+    vocabulary: parseVocabPairs(vocabInput.value),
+    ...createSrsState(),
+    ...createSyncMeta()
+  })
 
   sentenceInput.value = ''
   romajiInput.value = ''
@@ -263,6 +352,5 @@ async function addJapaneseSentence(): Promise<void> {
   vocabInput.value = ''
   tagsInput.value = ''
 
-  schedulePersist()
   triggerRender()
 }
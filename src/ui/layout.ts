@@ -1,23 +1,33 @@
-import { authUser, activeTab, themeMode, setActiveTab, setThemeMode } from '../state'
+import { authUser, activeTab, themeMode, offlineMode, setActiveTab, setThemeMode } from '../state'
 import { applyTheme } from '../state'
 import { escapeHtml, byId } from '../utils'
 import { schedulePersist } from '../data'
 import { stopAllPlayback } from '../review'
-import { logout } from '../auth'
+import { loadReviewStats, logout } from '../auth'
+import { loadDecks } from '../decks'
 import { triggerRender } from '../renderBus'
 import { toast } from '../utils'
+import { hasPermission, ROLE_LABELS } from '../permissions'
 
 export function renderAppShell(appEl: HTMLElement): void {
-  const isAdmin = authUser?.role === 'admin'
+  const canManageUsers = hasPermission(authUser?.role, 'users:manage')
+  const canViewStudents = hasPermission(authUser?.role, 'students:view')
 
   const navItems = [
     { id: 'english', label: '英文單字', icon: '📚' },
     { id: 'japanese', label: '日文句子', icon: '🇯🇵' },
     { id: 'content', label: '內容工坊', icon: '📰' },
+    { id: 'decks', label: '共享牌組', icon: '🗂️' },
+    { id: 'stats', label: '學習統計', icon: '📈' },
     { id: 'speech', label: '聲音設定', icon: '🔊' },
-    ...(isAdmin ? [{ id: 'admin', label: '後台管理', icon: '⚙️' }] : [])
+    { id: 'account', label: '帳號', icon: '👤' },
+    ...(canViewStudents ? [{ id: 'students', label: '學生進度', icon: '🧑‍🏫' }] : []),
+    ...(canManageUsers ? [{ id: 'admin', label: '後台管理', icon: '⚙️' }] : [])
   ]
 
+  // e.g. an admin signed out and a user without that tab signed in
+  if (!navItems.some((item) => item.id === activeTab)) setActiveTab('english')
+
   appEl.innerHTML = `
     <div class="app-layout">
       <aside class="sidebar">
@@ -43,7 +53,7 @@ export function renderAppShell(appEl: HTMLElement): void {
             <span class="user-avatar">${escapeHtml((authUser?.name ?? '?').charAt(0).toUpperCase())}</span>
             <div class="user-details">
               <p class="user-name">${escapeHtml(authUser?.name ?? '')}</p>
-              <p class="user-role">${authUser?.role === 'admin' ? '管理員' : '一般使用者'}</p>
+              <p class="user-role">${authUser ? ROLE_LABELS[authUser.role] : ''}</p>
             </div>
           </div>
           <div class="sidebar-actions">
@@ -57,11 +67,16 @@ export function renderAppShell(appEl: HTMLElement): void {
       </aside>
 
       <main class="main-content" id="main-content">
+        ${offlineMode ? '<div class="offline-banner">目前離線：變更會暫存在本機，恢復連線後自動同步</div>' : ''}
         <section id="tab-english" class="tab-panel ${activeTab === 'english' ? 'is-active' : ''}"></section>
         <section id="tab-japanese" class="tab-panel ${activeTab === 'japanese' ? 'is-active' : ''}"></section>
         <section id="tab-content" class="tab-panel ${activeTab === 'content' ? 'is-active' : ''}"></section>
+        <section id="tab-decks" class="tab-panel ${activeTab === 'decks' ? 'is-active' : ''}"></section>
+        <section id="tab-stats" class="tab-panel ${activeTab === 'stats' ? 'is-active' : ''}"></section>
         <section id="tab-speech" class="tab-panel ${activeTab === 'speech' ? 'is-active' : ''}"></section>
-        ${isAdmin ? `<section id="tab-admin" class="tab-panel ${activeTab === 'admin' ? 'is-active' : ''}"></section>` : ''}
+        <section id="tab-account" class="tab-panel ${activeTab === 'account' ? 'is-active' : ''}"></section>
+        ${canViewStudents ? `<section id="tab-students" class="tab-panel ${activeTab === 'students' ? 'is-active' : ''}"></section>` : ''}
+        ${canManageUsers ? `<section id="tab-admin" class="tab-panel ${activeTab === 'admin' ? 'is-active' : ''}"></section>` : ''}
       </main>
 
       <nav class="bottom-nav" aria-label="底部導覽">
@@ -80,6 +95,10 @@ export function renderAppShell(appEl: HTMLElement): void {
     button.addEventListener('click', () => {
       setActiveTab(button.dataset.tab as typeof activeTab)
       triggerRender()
+      // Reviews keep changing the numbers, so they are fetched each time the tab is opened.
+      if (activeTab === 'stats') void loadReviewStats().then(triggerRender)
+      // Subscribed decks follow their owners' edits, so their copies are picked up here.
+      if (activeTab === 'decks') void loadDecks().then(triggerRender)
     })
   })
 
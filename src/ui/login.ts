@@ -1,5 +1,7 @@
-import { login } from '../auth'
-import { byId } from '../utils'
+import { changePassword, login, logout } from '../auth'
+import { authUser } from '../state'
+import { PASSWORD_POLICY_HINT } from '../passwordPolicy'
+import { byId, escapeHtml, toast } from '../utils'
 
 export function renderLoginView(appEl: HTMLElement): void {
   appEl.innerHTML = `
@@ -32,3 +34,49 @@ export function renderLoginView(appEl: HTMLElement): void {
     void login(account, password)
   })
 }
+
+// Shown instead of the app while the account is still on its initial password.
+export function renderChangePasswordView(appEl: HTMLElement): void {
+  appEl.innerHTML = `
+    <div class="auth-wrap">
+      <div class="auth-card">
+        <div class="auth-logo">
+          <span class="auth-logo-icon">🔑</span>
+          <h1>修改密碼</h1>
+        </div>
+        <p class="auth-subtitle">${escapeHtml(authUser?.account ?? '')} 仍在使用初始密碼，請先設定新密碼</p>
+        <form id="changePasswordForm" class="auth-form">
+          <div class="field-group">
+            <label class="field-label" for="currentPassword">目前密碼</label>
+            <input id="currentPassword" class="field-input" type="password" autocomplete="current-password" required />
+          </div>
+          <div class="field-group">
+            <label class="field-label" for="newPassword">新密碼</label>
+            <input id="newPassword" class="field-input" type="password" autocomplete="new-password" required placeholder="${PASSWORD_POLICY_HINT}" />
+          </div>
+          <div class="field-group">
+            <label class="field-label" for="confirmPassword">確認新密碼</label>
+            <input id="confirmPassword" class="field-input" type="password" autocomplete="new-password" required />
+          </div>
+          <button type="submit" class="btn btn-primary btn-full">更新密碼</button>
+          <button type="button" id="changePasswordLogoutBtn" class="btn btn-secondary btn-full">登出</button>
+        </form>
+      </div>
+    </div>
+  `
+
+  byId<HTMLFormElement>('changePasswordForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    const currentPassword = byId<HTMLInputElement>('currentPassword').value.trim()
+    const newPassword = byId<HTMLInputElement>('newPassword').value.trim()
+    if (newPassword !== byId<HTMLInputElement>('confirmPassword').value.trim()) {
+      toast('兩次輸入的新密碼不一致')
+      return
+    }
+    void changePassword(currentPassword, newPassword)
+  })
+
+  byId<HTMLButtonElement>('changePasswordLogoutBtn').addEventListener('click', () => {
+    void logout()
+  })
+}
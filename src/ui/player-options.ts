@@ -0,0 +1,96 @@
+import type { QueueOrder, ReviewState } from '../types'
+import {
+  englishReview, japaneseReview, mixedReview, playerOptions, setPlayerOptions,
+  MAX_REPEAT_EACH, QUEUE_ORDER_LABELS, SESSION_SIZE_CHOICES, SLEEP_TIMER_MINUTES
+} from '../state'
+import { triggerRender } from '../renderBus'
+import { byId, escapeHtml } from '../utils'
+
+// Order, size, mixing, loop, repeat and sleep timer controls, shared by the English and Japanese player
+// cards. `prefix` keeps element ids apart between the two tabs; `review` is the state the tab plays.
+
+export function renderPlayerOptions(prefix: string, review: ReviewState<unknown>): string {
+  // What goes into a queue is fixed once a player starts.
+  const locked = englishReview.running || japaneseReview.running || mixedReview.running
+  const remainingMinutes = review.running && review.stopAt !== null
+    ? Math.max(0, Math.ceil((review.stopAt - Date.now()) / 60000))
+    : null
+
+  return `
+    <div class="player-options">
+      <label class="player-option">
+        順序
+        <select id="${prefix}OrderSelect" class="field-select field-select-sm" ${locked ? 'disabled' : ''}>
+          ${(Object.keys(QUEUE_ORDER_LABELS) as QueueOrder[])
+            .map((order) => `<option value="${order}" ${playerOptions.order === order ? 'selected' : ''}>${escapeHtml(QUEUE_ORDER_LABELS[order])}</option>`)
+            .join('')}
+        </select>
+      </label>
+      <label class="player-option">
+        數量
+        <select id="${prefix}SizeSelect" class="field-select field-select-sm" ${locked ? 'disabled' : ''}>
+          ${SESSION_SIZE_CHOICES
+            .map((size) => `<option value="${size}" ${playerOptions.maxItems === size ? 'selected' : ''}>${size === 0 ? '全部' : `${size} 筆`}</option>`)
+            .join('')}
+        </select>
+      </label>
+      <label class="player-option" title="英文單字與日文句子輪流播放（僅聆聽模式）">
+        <input id="${prefix}MixedToggle" type="checkbox" ${playerOptions.mixed ? 'checked' : ''} ${locked ? 'disabled' : ''} />
+        英日混合
+      </label>
+      <label class="player-option">
+        <input id="${prefix}LoopToggle" type="checkbox" ${playerOptions.loop ? 'checked' : ''} />
+        循環播放
+      </label>
+      <label class="player-option">
+        每項
+        <select id="${prefix}RepeatSelect" class="field-select field-select-sm">
+          ${Array.from({ length: MAX_REPEAT_EACH }, (_value, index) => index + 1)
+            .map((count) => `<option value="${count}" ${playerOptions.repeatEach === count ? 'selected' : ''}>${count} 次</option>`)
+            .join('')}
+        </select>
+      </label>
+      <label class="player-option">
+        睡眠
+        <select id="${prefix}SleepSelect" class="field-select field-select-sm">
+          ${SLEEP_TIMER_MINUTES
+            .map((minutes) => `<option value="${minutes}" ${playerOptions.sleepMinutes === minutes ? 'selected' : ''}>${minutes === 0 ? '關閉' : `${minutes} 分鐘`}</option>`)
+            .join('')}
+        </select>
+      </label>
+      ${remainingMinutes !== null ? `<span class="muted-text">${escapeHtml(`約 ${remainingMinutes} 分鐘後停止`)}</span>` : ''}
+    </div>
+  `
+}
+
+export function bindPlayerOptions(prefix: string, review: ReviewState<unknown>): void {
+  byId<HTMLSelectElement>(`${prefix}OrderSelect`).addEventListener('change', (event) => {
+    setPlayerOptions({ ...playerOptions, order: (event.currentTarget as HTMLSelectElement).value as QueueOrder })
+  })
+
+  byId<HTMLSelectElement>(`${prefix}SizeSelect`).addEventListener('change', (event) => {
+    setPlayerOptions({ ...playerOptions, maxItems: Number((event.currentTarget as HTMLSelectElement).value) })
+  })
+
+  // Switches what the tab's player buttons control, so the card is drawn again.
+  byId<HTMLInputElement>(`${prefix}MixedToggle`).addEventListener('change', (event) => {
+    setPlayerOptions({ ...playerOptions, mixed: (event.currentTarget as HTMLInputElement).checked })
+    triggerRender()
+  })
+
+  byId<HTMLInputElement>(`${prefix}LoopToggle`).addEventListener('change', (event) => {
+    setPlayerOptions({ ...playerOptions, loop: (event.currentTarget as HTMLInputElement).checked })
+  })
+
+  byId<HTMLSelectElement>(`${prefix}RepeatSelect`).addEventListener('change', (event) => {
+    setPlayerOptions({ ...playerOptions, repeatEach: Number((event.currentTarget as HTMLSelectElement).value) })
+  })
+
+  byId<HTMLSelectElement>(`${prefix}SleepSelect`).addEventListener('change', (event) => {
+    const sleepMinutes = Number((event.currentTarget as HTMLSelectElement).value)
+    setPlayerOptions({ ...playerOptions, sleepMinutes })
+    // A running player restarts its timer from now.
+    if (review.running) review.stopAt = sleepMinutes > 0 ? Date.now() + sleepMinutes * 60 * 1000 : null
+    triggerRender()
+  })
+}
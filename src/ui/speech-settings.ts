@@ -1,10 +1,12 @@
-import type { LangBucket } from '../types'
-import { speechSettings, providerStatus, voices, setSpeechSettings } from '../state'
+import type { LangBucket, ServerTtsEngine, TtsEngine } from '../types'
+import { speechSettings, providerStatus, voices, setSpeechSettings, TTS_ENGINES, TTS_ENGINE_LABELS } from '../state'
 import { loadProviderStatus } from '../auth'
 import { schedulePersist } from '../data'
-import { testSpeech, previewBrowserVoice, verifyOpenAiVoice } from '../speech'
+import { testSpeech, previewBrowserVoice, verifyServerEngine } from '../speech'
+import { PLAYBACK_PRESETS, formatPlaybackTemplate, parsePlaybackTemplate } from '../playback'
 import { byId, escapeHtml, escapeHtmlAttr, clampNumber, toast } from '../utils'
 import { triggerRender } from '../renderBus'
+import { MAX_NEW_ITEMS_PER_DAY, MAX_REVIEWS_PER_DAY, sanitizeDailyLimits } from '../dailyLimits'
 
 export function renderSpeechTab(): void {
   const panel = byId<HTMLDivElement>('tab-speech')
@@ -13,12 +15,14 @@ export function renderSpeechTab(): void {
     <div class="page-header">
       <div class="page-header-left">
         <h2 class="page-title">聲音設定</h2>
-        <p class="page-desc">英文、中文、日文可分開設定語速、聲調與音量</p>
+        <p class="page-desc">英文、中文、日文可分開設定語速、聲調、音量、播放腳本與每日上限</p>
       </div>
       <div class="page-stats">
-        <span class="stat-badge ${providerStatus.tts.openai ? 'stat-ok' : 'stat-off'}">
-          OpenAI ${providerStatus.tts.openai ? '可用' : '未設定'}
-        </span>
+        ${SERVER_ENGINES.map((engine) => `
+          <span class="stat-badge ${providerStatus.tts[engine] ? 'stat-ok' : 'stat-off'}">
+            ${TTS_ENGINE_LABELS[engine]} ${providerStatus.tts[engine] ? '可用' : '未設定'}
+          </span>
+        `).join('')}
       </div>
     </div>
 
@@ -28,16 +32,13 @@ export function renderSpeechTab(): void {
           <h3 class="card-title">引擎設定</h3>
         </div>
         <form id="speechEngineForm" class="form-stack">
+          <p class="muted-text">每種語言可選不同引擎；伺服器引擎暫時無法使用時自動改用瀏覽器聲音</p>
+          ${engineSelect('en', '英文')}
+          ${engineSelect('zh', '中文')}
+          ${engineSelect('ja', '日文')}
           <div class="field-group">
-            <label class="field-label">朗讀引擎</label>
-            <select id="speechEngineSelect" class="field-select">
-              <option value="browser" ${speechSettings.engine === 'browser' ? 'selected' : ''}>瀏覽器內建（免費）</option>
-              <option value="openai" ${speechSettings.engine === 'openai' ? 'selected' : ''} ${providerStatus.tts.openai ? '' : 'disabled'}>OpenAI TTS</option>
-            </select>
-          </div>
-          <div class="field-group">
-            <label class="field-label">OpenAI 聲音</label>
-            <select id="openAiVoiceSelect" class="field-select" ${speechSettings.engine === 'openai' ? '' : 'disabled'}>
+            <label class="field-label">OpenAI / HTTP 聲音</label>
+            <select id="openAiVoiceSelect" class="field-select" ${usesVoiceSelection() ? '' : 'disabled'}>
               ${['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse']
                 .map((voice) => `<option value="${voice}" ${speechSettings.openAiVoice === voice ? 'selected' : ''}>${voice}</option>`)
                 .join('')}
@@ -117,9 +118,46 @@ export function renderSpeechTab(): void {
           <button type="submit" class="btn btn-primary">儲存語速、聲調與音量</button>
         </form>
       </article>
+
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">每日上限</h3>
+        </div>
+        <form id="dailyLimitForm" class="form-stack">
+          <p class="muted-text">「今日待複習」每天最多加入幾個從未複習過的新項目，以及總共複習幾次（含新項目）；新項目會平均穿插在複習之間。</p>
+          <div class="field-row">
+            ${limitInput('limit-en-new', '英文新單字', speechSettings.dailyLimits.english.newItems, MAX_NEW_ITEMS_PER_DAY)}
+            ${limitInput('limit-en-reviews', '英文複習', speechSettings.dailyLimits.english.reviews, MAX_REVIEWS_PER_DAY)}
+          </div>
+          <div class="field-row">
+            ${limitInput('limit-ja-new', '日文新句子', speechSettings.dailyLimits.japanese.newItems, MAX_NEW_ITEMS_PER_DAY)}
+            ${limitInput('limit-ja-reviews', '日文複習', speechSettings.dailyLimits.japanese.reviews, MAX_REVIEWS_PER_DAY)}
+          </div>
+          <button type="submit" class="btn btn-primary">儲存每日上限</button>
+        </form>
+      </article>
+
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">播放腳本</h3>
+        </div>
+        <form id="playbackTemplateForm" class="form-stack">
+          <p class="muted-text">以逗號分隔步驟，例如 <code>word x2, pause 2s, meaning</code>。英文可用 word / spelling / meaning；日文可用 sentence / meaning / romaji / vocabulary；停頓用 pause 2s 或 pause 500ms。</p>
+          ${templateEditor('en', '英文')}
+          ${templateEditor('ja', '日文')}
+          <button type="submit" class="btn btn-primary">儲存播放腳本</button>
+        </form>
+      </article>
     </div>
   `
 
+  LANG_BUCKETS.forEach((bucket) => {
+    byId<HTMLSelectElement>(`engine-${bucket}`).addEventListener('change', () => {
+      const voiceSelect = byId<HTMLSelectElement>('openAiVoiceSelect')
+      voiceSelect.disabled = !LANG_BUCKETS.some((item) => ['openai', 'http'].includes(byId<HTMLSelectElement>(`engine-${item}`).value))
+    })
+  })
+
   byId<HTMLFormElement>('speechEngineForm').addEventListener('submit', (event) => {
     event.preventDefault()
     void saveSpeechEngine()
@@ -168,6 +206,51 @@ export function renderSpeechTab(): void {
     })
   })
 
+  panel.querySelectorAll<HTMLSelectElement>('[data-template-preset]').forEach((select) => {
+    select.addEventListener('change', () => {
+      const lang = select.dataset.templatePreset
+      if (!select.value || (lang !== 'en' && lang !== 'ja')) return
+      byId<HTMLTextAreaElement>(`template-${lang}`).value = select.value
+    })
+  })
+
+  byId<HTMLFormElement>('playbackTemplateForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    const en = parsePlaybackTemplate(byId<HTMLTextAreaElement>('template-en').value, 'en')
+    const ja = parsePlaybackTemplate(byId<HTMLTextAreaElement>('template-ja').value, 'ja')
+
+    if ('error' in en) {
+      toast(`英文腳本錯誤：${en.error}`)
+      return
+    }
+    if ('error' in ja) {
+      toast(`日文腳本錯誤：${ja.error}`)
+      return
+    }
+
+    setSpeechSettings({
+      ...speechSettings,
+      templates: { en: en.steps, ja: ja.steps }
+    })
+    schedulePersist()
+    triggerRender()
+    toast('已儲存播放腳本')
+  })
+
+  byId<HTMLFormElement>('dailyLimitForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    setSpeechSettings({
+      ...speechSettings,
+      dailyLimits: sanitizeDailyLimits({
+        english: { newItems: byId<HTMLInputElement>('limit-en-new').value, reviews: byId<HTMLInputElement>('limit-en-reviews').value },
+        japanese: { newItems: byId<HTMLInputElement>('limit-ja-new').value, reviews: byId<HTMLInputElement>('limit-ja-reviews').value }
+      })
+    })
+    schedulePersist()
+    triggerRender()
+    toast('已儲存每日上限')
+  })
+
   byId<HTMLFormElement>('speechRateForm').addEventListener('submit', (event) => {
     event.preventDefault()
     setSpeechSettings({
@@ -206,6 +289,49 @@ function rangeSlider(id: string, label: string, min: number, max: number, step:
     </div>`
 }
 
+function limitInput(id: string, label: string, value: number, max: number): string {
+  return `
+    <div class="field-group">
+      <label class="field-label" for="${id}">${escapeHtml(label)}</label>
+      <input id="${id}" class="field-input" type="number" min="0" max="${max}" value="${value}" />
+    </div>`
+}
+
+const SERVER_ENGINES: ServerTtsEngine[] = ['openai', 'local', 'http']
+const LANG_BUCKETS: LangBucket[] = ['en', 'zh', 'ja']
+const BUCKET_LANGS: Record<LangBucket, 'en-US' | 'zh-TW' | 'ja-JP'> = { en: 'en-US', zh: 'zh-TW', ja: 'ja-JP' }
+
+function engineSelect(bucket: LangBucket, label: string): string {
+  return `
+    <div class="field-group">
+      <label class="field-label" for="engine-${bucket}">${escapeHtml(label)}朗讀引擎</label>
+      <select id="engine-${bucket}" class="field-select">
+        ${TTS_ENGINES.map((engine) => `
+          <option value="${engine}" ${speechSettings.engines[bucket] === engine ? 'selected' : ''} ${providerStatus.tts[engine] ? '' : 'disabled'}>
+            ${TTS_ENGINE_LABELS[engine]}${engine === 'browser' ? '（免費）' : ''}
+          </option>
+        `).join('')}
+      </select>
+    </div>`
+}
+
+// The local engine's voices are configured on the server per language; OpenAI and HTTP take the voice chosen here.
+function usesVoiceSelection(): boolean {
+  return LANG_BUCKETS.some((bucket) => speechSettings.engines[bucket] === 'openai' || speechSettings.engines[bucket] === 'http')
+}
+
+function templateEditor(lang: 'en' | 'ja', label: string): string {
+  return `
+    <div class="field-group">
+      <label class="field-label" for="template-${lang}">${escapeHtml(label)}</label>
+      <select class="field-select" data-template-preset="${lang}">
+        <option value="">套用範本…</option>
+        ${PLAYBACK_PRESETS[lang].map((preset) => `<option value="${escapeHtmlAttr(preset.text)}">${escapeHtml(preset.label)}</option>`).join('')}
+      </select>
+      <textarea id="template-${lang}" class="field-textarea" rows="2" spellcheck="false">${escapeHtml(formatPlaybackTemplate(speechSettings.templates[lang]))}</textarea>
+    </div>`
+}
+
 function renderVoiceOptions(bucket: LangBucket): string {
   const auto = '<option value="">自動選擇</option>'
   const target = voices.filter((voice) => voice.lang.toLowerCase().startsWith(bucket))
@@ -221,29 +347,34 @@ function renderVoiceOptions(bucket: LangBucket): string {
 }
 
 async function saveSpeechEngine(): Promise<void> {
-  const engine = byId<HTMLSelectElement>('speechEngineSelect').value
+  const readEngine = (bucket: LangBucket): TtsEngine =>
+    TTS_ENGINES.find((engine) => engine === byId<HTMLSelectElement>(`engine-${bucket}`).value) ?? 'browser'
+  const engines = { en: readEngine('en'), zh: readEngine('zh'), ja: readEngine('ja') }
   const openAiVoice = byId<HTMLSelectElement>('openAiVoiceSelect').value
 
-  if (engine === 'openai' && !providerStatus.tts.openai) {
-    toast('OpenAI TTS 尚未啟用')
-    return
-  }
+  // Each server engine in use is tried once, with the first language it was picked for.
+  for (const engine of SERVER_ENGINES) {
+    const bucket = LANG_BUCKETS.find((item) => engines[item] === engine)
+    if (!bucket) continue
+    if (!providerStatus.tts[engine]) {
+      toast(`${TTS_ENGINE_LABELS[engine]} 尚未啟用`)
+      return
+    }
 
-  if (engine === 'openai') {
-    const verify = await verifyOpenAiVoice(openAiVoice)
+    const verify = await verifyServerEngine(engine, BUCKET_LANGS[bucket], openAiVoice)
     if (!verify.ok) {
-      toast(`OpenAI 聲音驗證失敗：${verify.message}`)
+      toast(`${TTS_ENGINE_LABELS[engine]} 驗證失敗：${verify.message}`)
       return
     }
   }
 
   setSpeechSettings({
     ...speechSettings,
-    engine: engine === 'openai' ? 'openai' : 'browser',
+    engines,
     openAiVoice
   })
 
   schedulePersist()
   triggerRender()
-  toast(`已套用朗讀引擎：${engine === 'openai' ? 'OpenAI TTS' : '瀏覽器內建'}`)
+  toast(`已套用朗讀引擎：${LANG_BUCKETS.map((bucket) => TTS_ENGINE_LABELS[engines[bucket]]).join(' / ')}`)
 }
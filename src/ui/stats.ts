@@ -0,0 +1,156 @@
+import type { ReviewStats } from '../types'
+import { reviewStats, REVIEW_GRADE_LABELS } from '../state'
+import { loadReviewStats } from '../auth'
+import { triggerRender } from '../renderBus'
+import { byId, escapeHtml, escapeHtmlAttr } from '../utils'
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六']
+
+export function renderStatsTab(): void {
+  const panel = byId<HTMLDivElement>('tab-stats')
+  const stats = reviewStats
+
+  panel.innerHTML = `
+    <div class="page-header">
+      <div class="page-header-left">
+        <h2 class="page-title">學習統計</h2>
+        <p class="page-desc">複習紀錄、熟練度分布、未來到期量與各標籤的記憶保持率</p>
+      </div>
+      <div class="page-stats">
+        ${stats ? `
+          <span class="stat-badge stat-ok">連續 ${stats.streak.current} 天</span>
+          <span class="stat-badge stat-off">最長 ${stats.streak.longest} 天</span>
+          <span class="stat-badge stat-off">累計 ${stats.totalReviews} 次</span>
+        ` : ''}
+        <button id="refreshStatsBtn" class="btn btn-secondary btn-sm">重新整理</button>
+      </div>
+    </div>
+
+    ${stats ? `
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">複習日曆</h3>
+          <span class="muted-text">近一年，每格一天</span>
+        </div>
+        ${renderHeatmap(stats.heatmap)}
+      </article>
+
+      <div class="content-grid" style="margin-top:1.5rem">
+        <article class="card">
+          <div class="card-header">
+            <h3 class="card-title">熟練度分布</h3>
+          </div>
+          ${renderLevels('英文單字', stats.levels.english)}
+          ${renderLevels('日文句子', stats.levels.japanese)}
+        </article>
+
+        <article class="card">
+          <div class="card-header">
+            <h3 class="card-title">未來 30 天到期</h3>
+            <span class="muted-text">不含尚未學習的新項目</span>
+          </div>
+          ${renderForecast(stats.forecast)}
+        </article>
+
+        <article class="card">
+          <div class="card-header">
+            <h3 class="card-title">記憶保持率</h3>
+            <span class="muted-text">近 90 天</span>
+          </div>
+          ${renderRetention(stats.retention)}
+        </article>
+      </div>
+    ` : '<div class="empty-state"><p>統計尚未載入，連線後請按「重新整理」</p></div>'}
+  `
+
+  byId<HTMLButtonElement>('refreshStatsBtn').addEventListener('click', () => {
+    void loadReviewStats().then(triggerRender)
+  })
+}
+
+// Columns are weeks starting on Sunday, like a wall calendar turned sideways.
+function renderHeatmap(days: ReviewStats['heatmap']): string {
+  if (days.length === 0) return ''
+  const max = Math.max(1, ...days.map((day) => day.reviews))
+  const leading = new Date(`${days[0].date}T00:00:00Z`).getUTCDay()
+
+  return `
+    <div class="heatmap">
+      <div class="heatmap-weekdays">
+        ${WEEKDAY_LABELS.map((label, index) => `<span>${index % 2 === 1 ? label : ''}</span>`).join('')}
+      </div>
+      <div class="heatmap-grid">
+        ${'<span class="heatmap-cell is-empty"></span>'.repeat(leading)}
+        ${days.map((day) => `
+          <span
+            class="heatmap-cell heat-${day.reviews === 0 ? 0 : Math.ceil((day.reviews / max) * 4)}"
+            title="${escapeHtmlAttr(`${day.date}：${day.reviews} 次`)}"
+          ></span>
+        `).join('')}
+      </div>
+    </div>`
+}
+
+function renderLevels(label: string, counts: ReviewStats['levels']['english']): string {
+  const rows = [
+    { label: '未學', count: counts.fresh },
+    ...counts.levels.map((count, level) => ({ label: `Lv${level}`, count }))
+  ]
+  const max = Math.max(1, ...rows.map((row) => row.count))
+
+  return `
+    <div class="settings-group">
+      <p class="settings-group-label">${escapeHtml(label)}</p>
+      ${rows.map((row) => statBar(row.label, row.count / max, String(row.count))).join('')}
+    </div>`
+}
+
+function renderForecast(forecast: ReviewStats['forecast']): string {
+  const max = Math.max(1, ...forecast.map((day) => day.english + day.japanese))
+  const total = forecast.reduce((sum, day) => sum + day.english + day.japanese, 0)
+
+  return `
+    <div class="forecast-chart">
+      ${forecast.map((day, index) => `
+        <div class="forecast-column" title="${escapeHtmlAttr(`${day.date}：英文 ${day.english}、日文 ${day.japanese}`)}">
+          <span class="forecast-bar forecast-ja" style="height:${(day.japanese / max) * 100}%"></span>
+          <span class="forecast-bar forecast-en" style="height:${(day.english / max) * 100}%"></span>
+          <span class="forecast-label">${index === 0 ? '今天' : index % 7 === 0 ? escapeHtml(day.date.slice(5).replace('-', '/')) : ''}</span>
+        </div>
+      `).join('')}
+    </div>
+    <p class="muted-text" style="margin-top:.75rem">
+      <span class="forecast-key forecast-en"></span>英文
+      <span class="forecast-key forecast-ja"></span>日文
+      · 今天 ${forecast[0] ? forecast[0].english + forecast[0].japanese : 0} 筆（含逾期），30 天共 ${total} 筆
+    </p>`
+}
+
+function renderRetention(retention: ReviewStats['retention']): string {
+  if (retention.reviews === 0) {
+    return '<p class="muted-text">還沒有可計算的紀錄：測驗或手動評分過的複習（不含第一次學習與聆聽播放）才會列入</p>'
+  }
+
+  return `
+    <p class="muted-text">整體 ${percent(retention.retained, retention.reviews)}（${retention.retained} / ${retention.reviews} 次沒有評為「${REVIEW_GRADE_LABELS.again}」）</p>
+    <div class="settings-group" style="margin-top:.75rem">
+      ${retention.tags.map((tag) => statBar(
+        tag.tag || '未分類',
+        tag.retained / tag.reviews,
+        `${percent(tag.retained, tag.reviews)} · ${tag.reviews} 次`
+      )).join('')}
+    </div>`
+}
+
+function statBar(label: string, ratio: number, value: string): string {
+  return `
+    <div class="stat-bar">
+      <span class="stat-bar-label">${escapeHtml(label)}</span>
+      <span class="stat-bar-track"><span class="stat-bar-fill" style="width:${Math.round(ratio * 100)}%"></span></span>
+      <span class="stat-bar-value">${escapeHtml(value)}</span>
+    </div>`
+}
+
+function percent(part: number, whole: number): string {
+  return `${Math.round((part / whole) * 100)}%`
+}
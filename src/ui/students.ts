@@ -0,0 +1,122 @@
+import { toRomaji } from 'wanakana'
+import { authUser, students } from '../state'
+import { loadStudents, pushItemsToStudents } from '../auth'
+import { parseTags } from '../data'
+import { hasPermission } from '../permissions'
+import { triggerRender } from '../renderBus'
+import { byId, escapeHtml, escapeHtmlAttr, formatTime } from '../utils'
+
+export function renderStudentsTab(): void {
+  const panel = byId<HTMLDivElement>('tab-students')
+
+  if (!authUser || !hasPermission(authUser.role, 'students:view')) {
+    panel.innerHTML = '<div class="empty-state"><p>需要老師或管理員權限</p></div>'
+    return
+  }
+
+  const canPush = hasPermission(authUser.role, 'students:push')
+
+  panel.innerHTML = `
+    <div class="page-header">
+      <div class="page-header-left">
+        <h2 class="page-title">學生進度</h2>
+        <p class="page-desc">${authUser.role === 'admin' ? '所有學生' : '指派給你的學生'}的學習狀況，並可推送單字/句子清單</p>
+      </div>
+      <div class="page-stats">
+        <span class="stat-badge stat-ok">${students.length} 位學生</span>
+      </div>
+    </div>
+
+    ${canPush ? `
+      <article class="card">
+        <div class="card-header">
+          <h3 class="card-title">推送清單</h3>
+          <span class="muted-text">推送給下方勾選的學生，已有的項目會略過</span>
+        </div>
+        <form id="studentPushForm" class="form-stack">
+          <div class="field-group">
+            <label class="field-label">類型</label>
+            <select id="studentPushLang" class="field-select">
+              <option value="en">英文單字</option>
+              <option value="ja">日文句子</option>
+            </select>
+          </div>
+          <div class="field-group">
+            <label class="field-label">內容（每行一筆：內容 | 中文意思）</label>
+            <textarea id="studentPushText" class="field-textarea" required placeholder="momentum | 動能；趨勢動力"></textarea>
+          </div>
+          <div class="field-group">
+            <label class="field-label">標籤（逗號分隔）</label>
+            <input id="studentPushTags" class="field-input" placeholder="week-3, class" />
+          </div>
+          <button type="submit" class="btn btn-primary" ${students.length === 0 ? 'disabled' : ''}>推送</button>
+        </form>
+      </article>
+    ` : ''}
+
+    <article class="card" style="margin-top:1.5rem">
+      <div class="card-header">
+        <h3 class="card-title">學生清單</h3>
+        <button id="refreshStudentsBtn" class="btn btn-secondary btn-sm">重新整理</button>
+      </div>
+      <div class="list-container" style="margin-top:.75rem">
+        ${students.length > 0
+          ? students.map((student) => `
+            <article class="list-item">
+              ${canPush ? `<input type="checkbox" data-student-check="${escapeHtmlAttr(student.account)}" aria-label="選取 ${escapeHtmlAttr(student.account)}" />` : ''}
+              <div class="list-item-body">
+                <div class="list-item-main">
+                  <p class="item-word">${escapeHtml(student.name)} <span class="badge">${escapeHtml(student.account)}</span></p>
+                  <p class="item-meaning">英 ${student.englishCount} · 日 ${student.japaneseCount} · 已學 ${student.learnedCount}</p>
+                </div>
+                <div class="item-meta">
+                  <span class="stat-badge ${student.dueCount > 0 ? 'stat-due' : 'stat-ok'}">待複習 ${student.dueCount}</span>
+                  <span class="muted-text">近 7 天 ${student.reviewsLast7Days} 次${student.accuracyLast7Days === null ? '' : ` · 答對 ${Math.round(student.accuracyLast7Days * 100)}%`}</span>
+                </div>
+                <p class="muted-text" style="font-size:0.8rem">最後複習 ${student.lastReviewedAt ? escapeHtml(formatTime(student.lastReviewedAt)) : '尚未開始'}</p>
+              </div>
+            </article>
+          `).join('')
+          : `<p class="muted-text">${authUser.role === 'admin' ? '目前沒有學生帳號' : '尚未有學生指派給你，請聯絡管理員'}</p>`
+        }
+      </div>
+    </article>
+  `
+
+  byId<HTMLButtonElement>('refreshStudentsBtn').addEventListener('click', () => {
+    void loadStudents().then(triggerRender)
+  })
+
+  if (!canPush) return
+
+  byId<HTMLFormElement>('studentPushForm').addEventListener('submit', (event) => {
+    event.preventDefault()
+    const lang = byId<HTMLSelectElement>('studentPushLang').value
+    const tags = parseTags(byId<HTMLInputElement>('studentPushTags').value)
+    const entries = parsePushLines(byId<HTMLTextAreaElement>('studentPushText').value)
+    const accounts = [...panel.querySelectorAll<HTMLInputElement>('[data-student-check]')]
+      .filter((input) => input.checked)
+      .map((input) => input.dataset.studentCheck ?? '')
+      .filter(Boolean)
+
+    void pushItemsToStudents(accounts, lang === 'ja'
+      ? {
+          englishWords: [],
+          japaneseSentences: entries.map(({ text, meaningZh }) => ({ sentence: text, romaji: toRomaji(text), meaningZh, tags }))
+        }
+      : {
+          englishWords: entries.map(({ text, meaningZh }) => ({ word: text, meaningZh, tags })),
+          japaneseSentences: []
+        })
+  })
+}
+
+function parsePushLines(raw: string): Array<{ text: string; meaningZh: string }> {
+  return raw
+    .split('\n')
+    .map((line) => {
+      const [text = '', ...meaning] = line.split(/[|｜\t]/)
+      return { text: text.trim(), meaningZh: meaning.join(' ').trim() }
+    })
+    .filter((entry) => entry.text)
+}